@@ -10,6 +10,11 @@ import NewTicket from "./pages/NewTicket";
 import TicketThread from "./pages/TicketThread";
 import InviteStaff from "./pages/InviteStaff";
 import AdminDashboard from "./pages/AdminDashboard";
+import AdminSettings from "./pages/AdminSettings";
+import CannedResponses from "./pages/CannedResponses";
+import KnowledgeBase from "./pages/KnowledgeBase";
+import HelpCenter from "./pages/HelpCenter";
+import HelpArticle from "./pages/HelpArticle";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -28,6 +33,11 @@ const App = () => (
             <Route path="/ticket/:id" element={<TicketThread />} />
             <Route path="/invite-staff" element={<InviteStaff />} />
             <Route path="/admin-dashboard" element={<AdminDashboard />} />
+            <Route path="/admin-settings" element={<AdminSettings />} />
+            <Route path="/canned-responses" element={<CannedResponses />} />
+            <Route path="/knowledge-base" element={<KnowledgeBase />} />
+            <Route path="/help" element={<HelpCenter />} />
+            <Route path="/help/:slug" element={<HelpArticle />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
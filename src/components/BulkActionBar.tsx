@@ -0,0 +1,278 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { GitMerge, Loader2, MessageSquareReply, X, Zap } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useTags } from '@/hooks/use-tags';
+import { useStaffMembers } from '@/hooks/use-staff-members';
+import { useCannedResponses } from '@/hooks/use-canned-responses';
+import { hasMacroActions } from '@/lib/canned-responses';
+import { TICKET_STATUSES, TICKET_STATUS_LABELS } from '@/lib/tickets';
+
+type BulkAction = 'status' | 'assign' | 'tag' | 'merge' | 'reply';
+
+interface BulkTicket {
+  id: string;
+  subject: string;
+}
+
+interface BulkFailure extends BulkTicket {
+  error: string;
+}
+
+interface BulkActionBarProps {
+  tickets: BulkTicket[];
+  onClear: () => void;
+  // Receives the tickets that failed, which stay selected so they can be retried
+  onDone: (failedIds: string[]) => void;
+}
+
+// Select value standing in for "nobody", which Radix selects cannot hold as null
+const UNASSIGNED = 'unassigned';
+
+export const BulkActionBar = ({ tickets, onClear, onDone }: BulkActionBarProps) => {
+  const { toast } = useToast();
+  const { tags } = useTags();
+  const { staffMembers } = useStaffMembers();
+  const { cannedResponses } = useCannedResponses();
+  const [isRunning, setIsRunning] = useState(false);
+  const [failures, setFailures] = useState<BulkFailure[]>([]);
+  const [isMergeOpen, setIsMergeOpen] = useState(false);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [isReplyOpen, setIsReplyOpen] = useState(false);
+  const [cannedResponseId, setCannedResponseId] = useState('');
+
+  const selectedResponse = cannedResponses.find(r => r.id === cannedResponseId);
+
+  const runAction = async (action: BulkAction, params: Record<string, string | null>, label: string) => {
+    setIsRunning(true);
+
+    const { data, error } = await supabase.rpc('bulk_update_tickets', {
+      _ticket_ids: tickets.map(t => t.id),
+      _action: action,
+      _params: params,
+    });
+
+    if (error) {
+      toast({ title: 'Error updating tickets', description: error.message, variant: 'destructive' });
+    } else {
+      const results = data || [];
+      const failed = results
+        .filter(r => !r.succeeded)
+        .map(r => ({
+          id: r.ticket_id,
+          subject: tickets.find(t => t.id === r.ticket_id)?.subject ?? 'Unknown ticket',
+          error: r.error_message,
+        }));
+      const updated = results.length - failed.length;
+
+      toast({
+        title: label,
+        description: `${updated} ticket${updated !== 1 ? 's' : ''} updated${failed.length > 0 ? `, ${failed.length} failed` : ''}.`,
+        variant: updated === 0 && failed.length > 0 ? 'destructive' : 'default',
+      });
+      setFailures(failed);
+      setIsMergeOpen(false);
+      setIsReplyOpen(false);
+      onDone(failed.map(f => f.id));
+    }
+
+    setIsRunning(false);
+  };
+
+  const handleMergeOpenChange = (isOpen: boolean) => {
+    setIsMergeOpen(isOpen);
+    if (isOpen) setMergeTargetId(tickets[0]?.id ?? '');
+  };
+
+  const handleMerge = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!mergeTargetId) return;
+    runAction('merge', { target_ticket_id: mergeTargetId }, 'Tickets merged');
+  };
+
+  const handleReply = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedResponse) return;
+    runAction('reply', { canned_response_id: selectedResponse.id }, 'Replies sent');
+  };
+
+  return (
+    <>
+      <div className="sticky top-4 z-10 flex flex-wrap items-center gap-2 rounded-lg border border-border bg-background/95 p-3 shadow-md backdrop-blur">
+        <span className="text-sm font-medium mr-2">
+          {tickets.length} selected
+        </span>
+
+        <Select value="" onValueChange={(value) => runAction('status', { status: value }, 'Status updated')} disabled={isRunning}>
+          <SelectTrigger className="h-8 w-[150px]">
+            <SelectValue placeholder="Set status" />
+          </SelectTrigger>
+          <SelectContent>
+            {TICKET_STATUSES.map(status => (
+              <SelectItem key={status} value={status}>{TICKET_STATUS_LABELS[status]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value=""
+          onValueChange={(value) => runAction('assign', { assignee_id: value === UNASSIGNED ? null : value }, 'Tickets assigned')}
+          disabled={isRunning}
+        >
+          <SelectTrigger className="h-8 w-[160px]">
+            <SelectValue placeholder="Assign to" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+            {staffMembers.map(staff => (
+              <SelectItem key={staff.id} value={staff.id}>{staff.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value="" onValueChange={(value) => runAction('tag', { tag_id: value }, 'Tag added')} disabled={isRunning}>
+          <SelectTrigger className="h-8 w-[140px]">
+            <SelectValue placeholder="Add tag" />
+          </SelectTrigger>
+          <SelectContent>
+            {tags.map(tag => (
+              <SelectItem key={tag.id} value={tag.id}>#{tag.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Dialog open={isReplyOpen} onOpenChange={setIsReplyOpen}>
+          <DialogTrigger asChild>
+            <Button size="sm" variant="outline" className="gap-2" disabled={isRunning || cannedResponses.length === 0}>
+              <MessageSquareReply className="h-4 w-4" />
+              Reply
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <form onSubmit={handleReply} className="space-y-4">
+              <DialogHeader>
+                <DialogTitle>Reply to {tickets.length} ticket{tickets.length !== 1 ? 's' : ''}</DialogTitle>
+                <DialogDescription>
+                  Sends a canned response to every selected ticket. Placeholders are filled in for each student.
+                </DialogDescription>
+              </DialogHeader>
+
+              <Select value={cannedResponseId} onValueChange={setCannedResponseId} disabled={isRunning}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a canned response" />
+                </SelectTrigger>
+                <SelectContent>
+                  {cannedResponses.map(response => (
+                    <SelectItem key={response.id} value={response.id}>{response.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {selectedResponse && (
+                <div className="space-y-2">
+                  <p className="rounded-md border border-border bg-muted/50 p-3 text-sm whitespace-pre-wrap max-h-[240px] overflow-y-auto">
+                    {selectedResponse.content}
+                  </p>
+                  {hasMacroActions(selectedResponse) && (
+                    <Badge variant="secondary" className="gap-1 font-normal">
+                      <Zap className="h-3 w-3" />
+                      Also applies this response's actions
+                    </Badge>
+                  )}
+                </div>
+              )}
+
+              <DialogFooter>
+                <Button type="submit" disabled={isRunning || !selectedResponse} className="gap-2">
+                  {isRunning ? <Loader2 className="h-4 w-4 animate-spin" /> : <MessageSquareReply className="h-4 w-4" />}
+                  Send Replies
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={isMergeOpen} onOpenChange={handleMergeOpenChange}>
+          <DialogTrigger asChild>
+            <Button size="sm" variant="outline" className="gap-2" disabled={isRunning || tickets.length < 2}>
+              <GitMerge className="h-4 w-4" />
+              Merge
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <form onSubmit={handleMerge} className="space-y-4">
+              <DialogHeader>
+                <DialogTitle>Merge tickets</DialogTitle>
+                <DialogDescription>
+                  Choose the ticket to keep. The others are completed, and their students join it as participants.
+                </DialogDescription>
+              </DialogHeader>
+
+              <RadioGroup value={mergeTargetId} onValueChange={setMergeTargetId} className="space-y-2 max-h-[320px] overflow-y-auto">
+                {tickets.map(ticket => (
+                  <div key={ticket.id} className="flex items-center gap-3 rounded-md border border-border p-3">
+                    <RadioGroupItem value={ticket.id} id={`merge-target-${ticket.id}`} />
+                    <Label htmlFor={`merge-target-${ticket.id}`} className="font-normal cursor-pointer truncate">
+                      {ticket.subject}
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+
+              <DialogFooter>
+                <Button type="submit" disabled={isRunning || !mergeTargetId} className="gap-2">
+                  {isRunning ? <Loader2 className="h-4 w-4 animate-spin" /> : <GitMerge className="h-4 w-4" />}
+                  Merge {tickets.length - 1} Ticket{tickets.length - 1 !== 1 ? 's' : ''}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        <div className="ml-auto flex items-center gap-2">
+          {isRunning && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          <Button size="sm" variant="ghost" className="gap-1" onClick={onClear} disabled={isRunning}>
+            <X className="h-4 w-4" />
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      <Dialog open={failures.length > 0} onOpenChange={(isOpen) => !isOpen && setFailures([])}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Some tickets were not updated</DialogTitle>
+            <DialogDescription>
+              The other tickets were updated. These were left unchanged:
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="space-y-2 max-h-[360px] overflow-y-auto">
+            {failures.map(failure => (
+              <li key={failure.id} className="rounded-md border border-border p-3">
+                <p className="text-sm font-medium truncate">{failure.subject}</p>
+                <p className="text-xs text-destructive">{failure.error}</p>
+              </li>
+            ))}
+          </ul>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFailures([])}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
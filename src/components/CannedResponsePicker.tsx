@@ -0,0 +1,57 @@
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList, CommandShortcut } from '@/components/ui/command';
+import { MessageSquareText, Zap } from 'lucide-react';
+import { CannedResponse, hasMacroActions } from '@/lib/canned-responses';
+
+interface CannedResponsePickerProps {
+  responses: CannedResponse[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelect: (response: CannedResponse) => void;
+  disabled?: boolean;
+}
+
+export const CannedResponsePicker = ({ responses, open, onOpenChange, onSelect, disabled }: CannedResponsePickerProps) => {
+  const groups = [
+    { heading: 'Shared', items: responses.filter(r => r.is_shared) },
+    { heading: 'Personal', items: responses.filter(r => !r.is_shared) },
+  ];
+
+  return (
+    <Popover open={open} onOpenChange={onOpenChange}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="icon" disabled={disabled} title="Insert canned response (/)">
+          <MessageSquareText className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="end">
+        <Command>
+          <CommandInput placeholder="Search responses..." />
+          <CommandList>
+            <CommandEmpty>No canned responses found.</CommandEmpty>
+            {groups.filter(g => g.items.length > 0).map(group => (
+              <CommandGroup key={group.heading} heading={group.heading}>
+                {group.items.map(response => (
+                  <CommandItem
+                    key={response.id}
+                    value={`${response.title} ${response.id}`}
+                    keywords={response.shortcut ? [response.shortcut] : undefined}
+                    onSelect={() => {
+                      onSelect(response);
+                      onOpenChange(false);
+                    }}
+                  >
+                    {hasMacroActions(response) && <Zap className="mr-2 h-4 w-4 text-warning" />}
+                    <span className="truncate">{response.title}</span>
+                    {response.shortcut && <CommandShortcut>/{response.shortcut}</CommandShortcut>}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            ))}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
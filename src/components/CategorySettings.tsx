@@ -0,0 +1,201 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Plus, Tags, Users } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useTicketCategories } from '@/hooks/use-ticket-categories';
+import { StaffMember } from '@/hooks/use-staff-members';
+import { cn } from '@/lib/utils';
+
+interface CategorySettingsProps {
+  staffMembers: StaffMember[];
+}
+
+export const CategorySettings = ({ staffMembers }: CategorySettingsProps) => {
+  const { toast } = useToast();
+  const { topLevelCategories, subcategoriesOf, refresh } = useTicketCategories(true);
+  const [newCategory, setNewCategory] = useState('');
+  const [newSubcategories, setNewSubcategories] = useState<Record<string, string>>({});
+  const [teams, setTeams] = useState<Record<string, string[]>>({});
+
+  const fetchTeams = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('category_team_members')
+      .select('category_id, staff_id');
+
+    if (error) {
+      toast({ title: 'Error fetching category teams', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    const grouped: Record<string, string[]> = {};
+    data?.forEach(member => {
+      grouped[member.category_id] = [...(grouped[member.category_id] || []), member.staff_id];
+    });
+    setTeams(grouped);
+  }, [toast]);
+
+  useEffect(() => {
+    fetchTeams();
+  }, [fetchTeams]);
+
+  const handleAddCategory = async (name: string, parentId: string | null) => {
+    if (!name.trim()) return;
+
+    const siblings = parentId ? subcategoriesOf(parentId) : topLevelCategories;
+    const { error } = await supabase
+      .from('ticket_categories')
+      .insert({ name: name.trim(), parent_id: parentId, sort_order: siblings.length + 1 });
+
+    if (error) {
+      toast({ title: 'Error adding category', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    if (parentId) {
+      setNewSubcategories(prev => ({ ...prev, [parentId]: '' }));
+    } else {
+      setNewCategory('');
+    }
+    refresh();
+  };
+
+  const handleToggleActive = async (categoryId: string, isActive: boolean) => {
+    const { error } = await supabase
+      .from('ticket_categories')
+      .update({ is_active: isActive })
+      .eq('id', categoryId);
+
+    if (error) {
+      toast({ title: 'Error updating category', description: error.message, variant: 'destructive' });
+    } else {
+      refresh();
+    }
+  };
+
+  const handleToggleTeamMember = async (categoryId: string, staffId: string, isMember: boolean) => {
+    const { error } = isMember
+      ? await supabase.from('category_team_members').insert({ category_id: categoryId, staff_id: staffId })
+      : await supabase.from('category_team_members').delete().eq('category_id', categoryId).eq('staff_id', staffId);
+
+    if (error) {
+      toast({ title: 'Error updating team', description: error.message, variant: 'destructive' });
+    } else {
+      fetchTeams();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tags className="h-5 w-5" />
+          Ticket Categories
+        </CardTitle>
+        <CardDescription>
+          Categories students pick when filing a ticket. Deactivated categories stay on existing tickets but can no longer be chosen.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleAddCategory(newCategory, null);
+          }}
+          className="flex gap-2"
+        >
+          <Input
+            placeholder="New category name"
+            value={newCategory}
+            onChange={(e) => setNewCategory(e.target.value)}
+            maxLength={60}
+          />
+          <Button type="submit" disabled={!newCategory.trim()} className="gap-2">
+            <Plus className="h-4 w-4" />
+            Add
+          </Button>
+        </form>
+
+        {topLevelCategories.map(category => {
+          const team = teams[category.id] || [];
+          return (
+            <div key={category.id} className="rounded-lg border border-border p-4 space-y-3">
+              <div className="flex items-center justify-between gap-4">
+                <span className={cn('font-medium', !category.is_active && 'text-muted-foreground line-through')}>
+                  {category.name}
+                </span>
+                <div className="flex items-center gap-4">
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button variant="outline" size="sm" className="gap-2">
+                        <Users className="h-4 w-4" />
+                        Team ({team.length})
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-64 space-y-2" align="end">
+                      <p className="text-xs text-muted-foreground">Used by category-based routing</p>
+                      {staffMembers.map(staff => (
+                        <div key={staff.id} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`team-${category.id}-${staff.id}`}
+                            checked={team.includes(staff.id)}
+                            onCheckedChange={(checked) => handleToggleTeamMember(category.id, staff.id, checked === true)}
+                          />
+                          <Label htmlFor={`team-${category.id}-${staff.id}`} className="font-normal">
+                            {staff.name}
+                          </Label>
+                        </div>
+                      ))}
+                    </PopoverContent>
+                  </Popover>
+                  <Switch
+                    checked={category.is_active}
+                    onCheckedChange={(checked) => handleToggleActive(category.id, checked)}
+                  />
+                </div>
+              </div>
+
+              <div className="pl-4 space-y-2">
+                {subcategoriesOf(category.id).map(subcategory => (
+                  <div key={subcategory.id} className="flex items-center justify-between text-sm">
+                    <span className={cn(!subcategory.is_active && 'text-muted-foreground line-through')}>
+                      {subcategory.name}
+                    </span>
+                    <Switch
+                      checked={subcategory.is_active}
+                      onCheckedChange={(checked) => handleToggleActive(subcategory.id, checked)}
+                    />
+                  </div>
+                ))}
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    handleAddCategory(newSubcategories[category.id] || '', category.id);
+                  }}
+                  className="flex gap-2"
+                >
+                  <Input
+                    placeholder="New sub-category"
+                    value={newSubcategories[category.id] || ''}
+                    onChange={(e) => setNewSubcategories(prev => ({ ...prev, [category.id]: e.target.value }))}
+                    maxLength={60}
+                    className="h-8"
+                  />
+                  <Button type="submit" size="sm" variant="ghost" disabled={!newSubcategories[category.id]?.trim()}>
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </form>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
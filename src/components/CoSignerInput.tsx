@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Loader2, UserPlus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+export interface CoSigner {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface CoSignerInputProps {
+  excludeIds: string[];
+  onAdd: (coSigner: CoSigner) => void;
+  disabled?: boolean;
+}
+
+export const CoSignerInput = ({ excludeIds, onAdd, disabled }: CoSignerInputProps) => {
+  const { toast } = useToast();
+  const [email, setEmail] = useState('');
+  const [isLooking, setIsLooking] = useState(false);
+
+  const handleAdd = async () => {
+    const value = email.trim().toLowerCase();
+    if (!value) return;
+
+    setIsLooking(true);
+
+    const { data: profile, error } = await supabase
+      .rpc('find_student_by_email', { _email: value })
+      .maybeSingle();
+
+    setIsLooking(false);
+
+    if (error) {
+      toast({ title: 'Error finding classmate', description: error.message, variant: 'destructive' });
+      return;
+    }
+    if (!profile) {
+      toast({ title: 'No student found', description: `Nobody is registered with ${value}.`, variant: 'destructive' });
+      return;
+    }
+    if (excludeIds.includes(profile.id)) {
+      toast({ title: 'Already added', description: `${profile.name} is already on this ticket.` });
+      return;
+    }
+
+    setEmail('');
+    onAdd(profile);
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Input
+        type="email"
+        placeholder="classmate@example.com"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            handleAdd();
+          }
+        }}
+        disabled={disabled || isLooking}
+      />
+      <Button type="button" variant="outline" onClick={handleAdd} disabled={disabled || isLooking || !email.trim()} className="gap-2">
+        {isLooking ? <Loader2 className="h-4 w-4 animate-spin" /> : <UserPlus className="h-4 w-4" />}
+        Add
+      </Button>
+    </div>
+  );
+};
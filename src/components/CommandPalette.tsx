@@ -0,0 +1,271 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from '@/components/ui/command';
+import {
+  BookOpen,
+  Bookmark,
+  HelpCircle,
+  Inbox,
+  Keyboard,
+  LayoutDashboard,
+  LucideIcon,
+  MessageSquareText,
+  Search,
+  Settings,
+  Ticket,
+  User,
+  Users,
+} from 'lucide-react';
+import { TicketStatusBadge } from '@/components/TicketStatusBadge';
+import { KeyboardShortcutsDialog } from '@/components/KeyboardShortcutsDialog';
+import { useKeyboardShortcuts } from '@/hooks/use-keyboard-shortcuts';
+import { parseTicketNumber } from '@/lib/keyboard-shortcuts';
+import { DEFAULT_TICKET_VIEW, QueueScope, serializeTicketView } from '@/lib/ticket-views';
+import { TicketStatus } from '@/lib/tickets';
+
+// Commands contributed by the current page, e.g. status changes on an open ticket
+export interface PaletteCommand {
+  id: string;
+  group: string;
+  label: string;
+  icon?: LucideIcon;
+  shortcut?: string;
+  onSelect: () => void;
+}
+
+interface TicketMatch {
+  id: string;
+  number: number;
+  subject: string;
+  status: TicketStatus;
+}
+
+interface SavedViewMatch {
+  id: string;
+  name: string;
+  query: string;
+}
+
+const QUEUE_COMMANDS: { scope: QueueScope; label: string; icon: LucideIcon }[] = [
+  { scope: 'mine', label: 'My tickets', icon: User },
+  { scope: 'unassigned', label: 'Unassigned tickets', icon: Inbox },
+  { scope: 'all', label: 'All tickets', icon: Users },
+];
+
+interface CommandPaletteProps {
+  commands?: PaletteCommand[];
+}
+
+export const CommandPalette = ({ commands = [] }: CommandPaletteProps) => {
+  const { user, userRole } = useAuth();
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [tickets, setTickets] = useState<TicketMatch[]>([]);
+  const [savedViews, setSavedViews] = useState<SavedViewMatch[]>([]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setOpen(prev => !prev);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const shortcuts = useMemo(() => ({ '?': () => setIsShortcutsOpen(true) }), []);
+  useKeyboardShortcuts(shortcuts);
+
+  useEffect(() => {
+    if (!open || !user) return;
+
+    supabase
+      .from('saved_ticket_views')
+      .select('id, name, query')
+      .order('name')
+      .then(({ data }) => setSavedViews(data || []));
+  }, [open, user]);
+
+  // Looks tickets up by number, or by subject once there is enough to go on
+  useEffect(() => {
+    const trimmed = query.trim();
+    const ticketNumber = parseTicketNumber(trimmed);
+
+    if (!open || (ticketNumber === null && trimmed.length < 2)) {
+      setTickets([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      const request = supabase.from('ticket_details').select('id, number, subject, status');
+      const { data } = ticketNumber !== null
+        ? await request.eq('number', ticketNumber)
+        : await request
+          .ilike('subject', `%${trimmed.replace(/[%_\\]/g, '\\$&')}%`)
+          .order('created_at', { ascending: false })
+          .limit(8);
+
+      setTickets(data || []);
+    }, 200);
+
+    return () => clearTimeout(timeout);
+  }, [query, open]);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) setQuery('');
+  };
+
+  const run = (action: () => void) => {
+    handleOpenChange(false);
+    action();
+  };
+
+  const pageGroups = commands.reduce<Record<string, PaletteCommand[]>>((groups, command) => {
+    groups[command.group] = [...(groups[command.group] || []), command];
+    return groups;
+  }, {});
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(true)}
+        className="gap-2 text-muted-foreground"
+      >
+        <Search className="h-4 w-4" />
+        Commands
+        <kbd className="rounded border border-border bg-muted px-1.5 font-mono text-[10px]">Ctrl K</kbd>
+      </Button>
+
+      <CommandDialog open={open} onOpenChange={handleOpenChange}>
+        <CommandInput
+          placeholder="Type a command, ticket number or subject..."
+          value={query}
+          onValueChange={setQuery}
+        />
+        <CommandList>
+          <CommandEmpty>No results found.</CommandEmpty>
+
+          {tickets.length > 0 && (
+            <CommandGroup heading="Tickets">
+              {tickets.map(ticket => (
+                <CommandItem
+                  key={ticket.id}
+                  value={`ticket-${ticket.id}`}
+                  // Results are already matched on the server, so they always pass the local filter
+                  keywords={[query]}
+                  onSelect={() => run(() => navigate(`/ticket/${ticket.id}`))}
+                >
+                  <Ticket className="mr-2" />
+                  <span className="mr-2 text-muted-foreground">#{ticket.number}</span>
+                  <span className="truncate">{ticket.subject}</span>
+                  <TicketStatusBadge status={ticket.status} className="ml-auto" />
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {Object.entries(pageGroups).map(([group, groupCommands]) => (
+            <CommandGroup key={group} heading={group}>
+              {groupCommands.map(command => {
+                const Icon = command.icon;
+                return (
+                  <CommandItem key={command.id} value={`${group} ${command.label}`} onSelect={() => run(command.onSelect)}>
+                    {Icon && <Icon className="mr-2" />}
+                    {command.label}
+                    {command.shortcut && <CommandShortcut>{command.shortcut}</CommandShortcut>}
+                  </CommandItem>
+                );
+              })}
+            </CommandGroup>
+          ))}
+
+          {userRole === 'staff' && (
+            <CommandGroup heading="Views">
+              {QUEUE_COMMANDS.map(({ scope, label, icon: Icon }) => (
+                <CommandItem
+                  key={scope}
+                  value={`view ${label}`}
+                  onSelect={() => run(() => navigate(`/?${serializeTicketView({ ...DEFAULT_TICKET_VIEW, scope })}`))}
+                >
+                  <Icon className="mr-2" />
+                  {label}
+                </CommandItem>
+              ))}
+              {savedViews.map(view => (
+                <CommandItem
+                  key={view.id}
+                  value={`view ${view.name} ${view.id}`}
+                  onSelect={() => run(() => navigate(`/?${view.query}`))}
+                >
+                  <Bookmark className="mr-2" />
+                  {view.name}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          <CommandSeparator />
+
+          <CommandGroup heading="Go to">
+            {userRole === 'admin' && (
+              <>
+                <CommandItem value="go admin dashboard" onSelect={() => run(() => navigate('/admin-dashboard'))}>
+                  <LayoutDashboard className="mr-2" />
+                  Admin Dashboard
+                </CommandItem>
+                <CommandItem value="go admin settings" onSelect={() => run(() => navigate('/admin-settings'))}>
+                  <Settings className="mr-2" />
+                  Settings
+                </CommandItem>
+              </>
+            )}
+            {userRole === 'staff' && (
+              <CommandItem value="go staff dashboard" onSelect={() => run(() => navigate('/'))}>
+                <LayoutDashboard className="mr-2" />
+                Dashboard
+              </CommandItem>
+            )}
+            <CommandItem value="go canned responses macros" onSelect={() => run(() => navigate('/canned-responses'))}>
+              <MessageSquareText className="mr-2" />
+              Canned Responses
+            </CommandItem>
+            <CommandItem value="go knowledge base" onSelect={() => run(() => navigate('/knowledge-base'))}>
+              <BookOpen className="mr-2" />
+              Knowledge Base
+            </CommandItem>
+            <CommandItem value="go help center" onSelect={() => run(() => navigate('/help'))}>
+              <HelpCircle className="mr-2" />
+              Help Center
+            </CommandItem>
+            <CommandItem value="keyboard shortcuts" onSelect={() => run(() => setIsShortcutsOpen(true))}>
+              <Keyboard className="mr-2" />
+              Keyboard shortcuts
+              <CommandShortcut>?</CommandShortcut>
+            </CommandItem>
+          </CommandGroup>
+        </CommandList>
+      </CommandDialog>
+
+      <KeyboardShortcutsDialog open={isShortcutsOpen} onOpenChange={setIsShortcutsOpen} />
+    </>
+  );
+};
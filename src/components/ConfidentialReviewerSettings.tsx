@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ShieldCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface Admin {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export const ConfidentialReviewerSettings = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [admins, setAdmins] = useState<Admin[]>([]);
+  const [reviewerIds, setReviewerIds] = useState<string[]>([]);
+
+  const fetchAdmins = useCallback(async () => {
+    const { data: adminRoles } = await supabase
+      .from('user_roles')
+      .select('user_id')
+      .eq('role', 'admin');
+
+    const { data: profiles, error } = await supabase
+      .from('profiles')
+      .select('id, name, email')
+      .in('id', adminRoles?.map(r => r.user_id) || [])
+      .order('name');
+
+    if (error) {
+      toast({ title: 'Error fetching admins', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    setAdmins(profiles || []);
+  }, [toast]);
+
+  const fetchReviewers = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('confidential_reviewers')
+      .select('user_id');
+
+    if (error) {
+      toast({ title: 'Error fetching confidential reviewers', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    setReviewerIds(data.map(r => r.user_id));
+  }, [toast]);
+
+  useEffect(() => {
+    fetchAdmins();
+    fetchReviewers();
+  }, [fetchAdmins, fetchReviewers]);
+
+  const handleToggle = async (adminId: string, isReviewer: boolean) => {
+    if (!user) return;
+
+    const { error } = isReviewer
+      ? await supabase.from('confidential_reviewers').insert({ user_id: adminId, added_by: user.id })
+      : await supabase.from('confidential_reviewers').delete().eq('user_id', adminId);
+
+    if (error) {
+      toast({ title: 'Error updating confidential reviewers', description: error.message, variant: 'destructive' });
+    }
+
+    fetchReviewers();
+  };
+
+  // Only reviewers manage the group, except for adding the very first one
+  const canManage = reviewerIds.length === 0 || (!!user && reviewerIds.includes(user.id));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Confidential Reviewers
+        </CardTitle>
+        <CardDescription>
+          Admins who can see and handle confidential complaints. Changes to this group and every identity reveal are audit-logged.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead className="text-right">Reviewer</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {admins.map(admin => (
+              <TableRow key={admin.id}>
+                <TableCell>
+                  <div className="font-medium">{admin.name}</div>
+                  <div className="text-xs text-muted-foreground">{admin.email}</div>
+                </TableCell>
+                <TableCell className="text-right">
+                  <Switch
+                    checked={reviewerIds.includes(admin.id)}
+                    onCheckedChange={(checked) => handleToggle(admin.id, checked)}
+                    disabled={!canManage}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {!canManage && (
+          <p className="text-xs text-muted-foreground mt-3">Only current reviewers can change this group.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
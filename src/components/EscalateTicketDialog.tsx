@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { ESCALATION_LEVELS, ESCALATION_LEVEL_LABELS, EscalationLevel } from '@/lib/tickets';
+
+interface EscalateTicketDialogProps {
+  ticketId: string;
+  currentLevel: EscalationLevel | null;
+  onEscalated: () => void;
+}
+
+export const EscalateTicketDialog = ({ ticketId, currentLevel, onEscalated }: EscalateTicketDialogProps) => {
+  const { toast } = useToast();
+  // Tickets can only move up: senior staff, then admin
+  const availableLevels = ESCALATION_LEVELS.filter(level =>
+    !currentLevel || ESCALATION_LEVELS.indexOf(level) > ESCALATION_LEVELS.indexOf(currentLevel)
+  );
+  const [open, setOpen] = useState(false);
+  const [level, setLevel] = useState<EscalationLevel>(availableLevels[0] ?? 'admin');
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  if (availableLevels.length === 0) return null;
+
+  const handleEscalate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) return;
+
+    setIsSubmitting(true);
+
+    const { error } = await supabase.rpc('escalate_ticket', {
+      _ticket_id: ticketId,
+      _level: level,
+      _reason: reason.trim(),
+    });
+
+    if (error) {
+      toast({ title: 'Error escalating ticket', description: error.message, variant: 'destructive' });
+    } else {
+      toast({ title: 'Ticket escalated', description: `This ticket has been escalated to ${ESCALATION_LEVEL_LABELS[level].toLowerCase()}.` });
+      setReason('');
+      setOpen(false);
+      onEscalated();
+    }
+
+    setIsSubmitting(false);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (isOpen) setLevel(availableLevels[0]);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className="gap-2">
+          <AlertTriangle className="h-4 w-4" />
+          Escalate
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleEscalate} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Escalate ticket</DialogTitle>
+            <DialogDescription>
+              Hand this ticket to a higher level. The reason is only visible to staff.
+            </DialogDescription>
+          </DialogHeader>
+
+          <RadioGroup value={level} onValueChange={(value) => setLevel(value as EscalationLevel)} className="space-y-2">
+            {availableLevels.map(option => (
+              <div key={option} className="flex items-center space-x-3">
+                <RadioGroupItem value={option} id={`escalate-${option}`} />
+                <Label htmlFor={`escalate-${option}`} className="font-normal cursor-pointer">
+                  {ESCALATION_LEVEL_LABELS[option]}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <Label htmlFor="escalation-reason">Reason</Label>
+            <Textarea
+              id="escalation-reason"
+              placeholder="Why does this ticket need a higher level?"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" disabled={isSubmitting || !reason.trim()} className="gap-2">
+              {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <AlertTriangle className="h-4 w-4" />}
+              Escalate
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,87 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { BookOpen, CheckCircle } from 'lucide-react';
+import { useKbSearch } from '@/hooks/use-kb-search';
+import { KbArticle } from '@/lib/knowledge-base';
+
+interface KbSuggestionsProps {
+  query: string;
+  draftId: string;
+}
+
+export const KbSuggestions = ({ query, draftId }: KbSuggestionsProps) => {
+  const navigate = useNavigate();
+  const { results } = useKbSearch(query, 3);
+  const [article, setArticle] = useState<KbArticle | null>(null);
+
+  const suggestions = results.filter(r => r.is_published);
+
+  const handleOpen = async (articleId: string) => {
+    const { data, error } = await supabase
+      .from('kb_articles')
+      .select('id, title, slug, body, category_id, is_published, updated_at')
+      .eq('id', articleId)
+      .single();
+
+    if (error) return;
+
+    setArticle(data);
+
+    // Counted as a deflection unless this draft ends up filed as a ticket
+    await supabase.rpc('record_kb_article_view', { _article_id: articleId, _source: 'new_ticket', _draft_id: draftId });
+  };
+
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="space-y-2 rounded-lg border border-primary/30 bg-primary/5 p-4">
+      <p className="flex items-center gap-2 text-sm font-medium">
+        <BookOpen className="h-4 w-4 text-primary" />
+        These articles might answer your question
+      </p>
+      <ul className="space-y-1">
+        {suggestions.map(suggestion => (
+          <li key={suggestion.id}>
+            <button
+              type="button"
+              onClick={() => handleOpen(suggestion.id)}
+              className="text-left text-sm text-primary hover:underline"
+            >
+              {suggestion.title}
+            </button>
+            <p className="text-xs text-muted-foreground line-clamp-1">{suggestion.excerpt}</p>
+          </li>
+        ))}
+      </ul>
+
+      <Dialog open={article !== null} onOpenChange={(open) => !open && setArticle(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{article?.title}</DialogTitle>
+            <DialogDescription>From the help center</DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[60vh] overflow-y-auto text-sm whitespace-pre-wrap">{article?.body}</div>
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setArticle(null)}>
+              I still need help
+            </Button>
+            <Button onClick={() => navigate('/')} className="gap-2">
+              <CheckCircle className="h-4 w-4" />
+              This answered my question
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { KEYBOARD_SHORTCUT_GROUPS } from '@/lib/keyboard-shortcuts';
+
+interface KeyboardShortcutsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const KeyboardShortcutsDialog = ({ open, onOpenChange }: KeyboardShortcutsDialogProps) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent>
+      <DialogHeader>
+        <DialogTitle>Keyboard shortcuts</DialogTitle>
+        <DialogDescription>
+          Single-key shortcuts work whenever you are not typing in a field.
+        </DialogDescription>
+      </DialogHeader>
+      <div className="space-y-5 max-h-[60vh] overflow-y-auto pr-2">
+        {KEYBOARD_SHORTCUT_GROUPS.map(group => (
+          <div key={group.title} className="space-y-2">
+            <h3 className="text-sm font-medium text-muted-foreground">{group.title}</h3>
+            <ul className="space-y-1.5">
+              {group.shortcuts.map(shortcut => (
+                <li key={shortcut.description} className="flex items-center justify-between gap-4 text-sm">
+                  <span>{shortcut.description}</span>
+                  <span className="flex gap-1">
+                    {shortcut.keys.map(key => (
+                      <kbd
+                        key={key}
+                        className="min-w-[1.5rem] rounded border border-border bg-muted px-1.5 py-0.5 text-center font-mono text-xs"
+                      >
+                        {key}
+                      </kbd>
+                    ))}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </DialogContent>
+  </Dialog>
+);
@@ -2,17 +2,22 @@ import { ReactNode } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
-import { LogOut, MessageSquare, User, LayoutDashboard, Users } from 'lucide-react';
+import { LogOut, MessageSquare, User, LayoutDashboard, Users, Settings, MessageSquareText, BookOpen, HelpCircle, Inbox } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
+import { CommandPalette, PaletteCommand } from '@/components/CommandPalette';
+import { useUnreadCount } from '@/hooks/use-unread-count';
 
 interface LayoutProps {
   children: ReactNode;
+  // Extra command palette entries for the current page
+  commands?: PaletteCommand[];
 }
 
-export function Layout({ children }: LayoutProps) {
+export function Layout({ children, commands }: LayoutProps) {
   const { user, userRole, signOut } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
+  const { unreadCount } = useUnreadCount(user?.id);
 
   return (
     <div className="min-h-screen bg-gradient-subtle">
@@ -31,6 +36,9 @@ export function Layout({ children }: LayoutProps) {
             
             {user && (
               <div className="flex items-center gap-3">
+                {(userRole === 'staff' || userRole === 'admin') && (
+                  <CommandPalette commands={commands} />
+                )}
                 {userRole === 'admin' && (
                   <div className="flex items-center gap-2">
                     <Button
@@ -51,8 +59,62 @@ export function Layout({ children }: LayoutProps) {
                       <Users className="h-4 w-4" />
                       Staff View
                     </Button>
+                    <Button
+                      variant={location.pathname === '/admin-settings' ? 'default' : 'ghost'}
+                      size="sm"
+                      onClick={() => navigate('/admin-settings')}
+                      className="gap-2"
+                    >
+                      <Settings className="h-4 w-4" />
+                      Settings
+                    </Button>
                   </div>
                 )}
+                {(userRole === 'staff' || userRole === 'admin') && (
+                  <Button
+                    variant={location.pathname === '/canned-responses' ? 'default' : 'ghost'}
+                    size="sm"
+                    onClick={() => navigate('/canned-responses')}
+                    className="gap-2"
+                  >
+                    <MessageSquareText className="h-4 w-4" />
+                    Canned Responses
+                  </Button>
+                )}
+                {(userRole === 'staff' || userRole === 'admin') && (
+                  <Button
+                    variant={location.pathname === '/knowledge-base' ? 'default' : 'ghost'}
+                    size="sm"
+                    onClick={() => navigate('/knowledge-base')}
+                    className="gap-2"
+                  >
+                    <BookOpen className="h-4 w-4" />
+                    Knowledge Base
+                  </Button>
+                )}
+                <Button
+                  variant={location.pathname.startsWith('/help') ? 'default' : 'ghost'}
+                  size="sm"
+                  onClick={() => navigate('/help')}
+                  className="gap-2"
+                >
+                  <HelpCircle className="h-4 w-4" />
+                  Help
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => navigate('/')}
+                  className="relative"
+                  title={unreadCount > 0 ? `${unreadCount} unread message${unreadCount !== 1 ? 's' : ''}` : 'No unread messages'}
+                >
+                  <Inbox className="h-4 w-4" />
+                  {unreadCount > 0 && (
+                    <Badge className="absolute -top-1 -right-1 h-5 min-w-5 justify-center rounded-full px-1 text-[10px]">
+                      {unreadCount > 99 ? '99+' : unreadCount}
+                    </Badge>
+                  )}
+                </Button>
                 <div className="flex items-center gap-2">
                   <User className="h-4 w-4 text-muted-foreground" />
                   <span className="text-sm font-medium">{user.email}</span>
@@ -73,6 +135,22 @@ export function Layout({ children }: LayoutProps) {
                 </Button>
               </div>
             )}
+            {!user && (
+              <div className="flex items-center gap-2">
+                <Button
+                  variant={location.pathname.startsWith('/help') ? 'default' : 'ghost'}
+                  size="sm"
+                  onClick={() => navigate('/help')}
+                  className="gap-2"
+                >
+                  <HelpCircle className="h-4 w-4" />
+                  Help
+                </Button>
+                <Button size="sm" onClick={() => navigate('/auth')}>
+                  Sign In
+                </Button>
+              </div>
+            )}
           </div>
         </div>
       </header>
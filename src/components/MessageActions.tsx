@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Loader2, Pencil, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface MessageActionsProps {
+  messageId: string;
+  content: string | null;
+  // Voice messages and attachment-only messages can be deleted but not edited
+  canEdit: boolean;
+  onChanged: () => void;
+}
+
+export const MessageActions = ({ messageId, content, canEdit, onChanged }: MessageActionsProps) => {
+  const { toast } = useToast();
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleEditOpenChange = (isOpen: boolean) => {
+    setIsEditOpen(isOpen);
+    if (isOpen) setDraft(content ?? '');
+  };
+
+  const handleEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim() || draft.trim() === content) return;
+
+    setIsSaving(true);
+
+    const { error } = await supabase.rpc('edit_message', {
+      _message_id: messageId,
+      _content: draft.trim(),
+    });
+
+    if (error) {
+      toast({ title: 'Error editing message', description: error.message, variant: 'destructive' });
+    } else {
+      setIsEditOpen(false);
+      onChanged();
+    }
+
+    setIsSaving(false);
+  };
+
+  const handleDelete = async () => {
+    setIsSaving(true);
+
+    const { error } = await supabase.rpc('delete_message', { _message_id: messageId });
+
+    if (error) {
+      toast({ title: 'Error deleting message', description: error.message, variant: 'destructive' });
+    } else {
+      setIsDeleteOpen(false);
+      onChanged();
+    }
+
+    setIsSaving(false);
+  };
+
+  return (
+    <span className="flex items-center">
+      {canEdit && (
+        <Dialog open={isEditOpen} onOpenChange={handleEditOpenChange}>
+          <DialogTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-6 w-6 p-0 opacity-60 hover:opacity-100" title="Edit message">
+              <Pencil className="h-3 w-3" />
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <form onSubmit={handleEdit} className="space-y-4">
+              <DialogHeader>
+                <DialogTitle>Edit message</DialogTitle>
+                <DialogDescription>
+                  The message will be marked as edited. Staff can still see the earlier version.
+                </DialogDescription>
+              </DialogHeader>
+              <Textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={5}
+                disabled={isSaving}
+              />
+              <DialogFooter>
+                <Button type="submit" disabled={isSaving || !draft.trim() || draft.trim() === content} className="gap-2">
+                  {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Pencil className="h-4 w-4" />}
+                  Save
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      )}
+
+      <Dialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <DialogTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-6 w-6 p-0 opacity-60 hover:opacity-100" title="Delete message">
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </DialogTrigger>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete message?</DialogTitle>
+            <DialogDescription>
+              The message and its attachments are removed from the conversation. Staff can still see what it said.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="destructive" onClick={handleDelete} disabled={isSaving} className="gap-2">
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </span>
+  );
+};
@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { format } from 'date-fns';
+
+interface MessageRevision {
+  id: string;
+  action: 'edited' | 'deleted';
+  content: string | null;
+  created_at: string;
+}
+
+interface MessageHistoryDialogProps {
+  messageId: string;
+  // Only the sender can edit or delete a message, so every revision is theirs
+  senderName: string | null;
+  content: string | null;
+  isDeleted: boolean;
+  // The "edited" or "deleted" marker in the message, which opens the history
+  children: React.ReactNode;
+}
+
+export const MessageHistoryDialog = ({ messageId, senderName, content, isDeleted, children }: MessageHistoryDialogProps) => {
+  const [revisions, setRevisions] = useState<MessageRevision[]>([]);
+
+  const handleOpenChange = async (isOpen: boolean) => {
+    if (!isOpen) return;
+
+    const { data } = await supabase
+      .from('message_revisions')
+      .select('id, action, content, created_at')
+      .eq('message_id', messageId)
+      .order('created_at', { ascending: false });
+
+    setRevisions((data || []) as MessageRevision[]);
+  };
+
+  return (
+    <Dialog onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Message history</DialogTitle>
+          <DialogDescription>
+            Earlier versions are only visible to staff.
+          </DialogDescription>
+        </DialogHeader>
+        <ul className="space-y-3 max-h-[400px] overflow-y-auto">
+          {!isDeleted && (
+            <li className="rounded-md border border-border p-3 space-y-1">
+              <Badge variant="default">Current</Badge>
+              <p className="text-sm whitespace-pre-wrap break-words">{content}</p>
+            </li>
+          )}
+          {revisions.map(revision => (
+            <li key={revision.id} className="rounded-md border border-border p-3 space-y-1">
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <Badge variant={revision.action === 'deleted' ? 'destructive' : 'secondary'}>
+                  {revision.action === 'deleted' ? 'Deleted' : 'Before edit'}
+                </Badge>
+                {senderName ?? 'Unknown'} • {format(new Date(revision.created_at), 'PPp')}
+              </div>
+              <p className="text-sm whitespace-pre-wrap break-words">
+                {revision.content ?? <span className="italic text-muted-foreground">No text</span>}
+              </p>
+            </li>
+          ))}
+        </ul>
+      </DialogContent>
+    </Dialog>
+  );
+};
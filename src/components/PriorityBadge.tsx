@@ -0,0 +1,16 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { TICKET_PRIORITY_LABELS, TicketPriority } from '@/lib/tickets';
+
+const PRIORITY_CLASSES: Record<TicketPriority, string> = {
+  low: 'text-muted-foreground',
+  normal: '',
+  high: 'border-warning text-warning',
+  urgent: 'border-destructive bg-destructive text-destructive-foreground',
+};
+
+export const PriorityBadge = ({ priority, className }: { priority: TicketPriority; className?: string }) => (
+  <Badge variant="outline" className={cn(PRIORITY_CLASSES[priority], className)}>
+    {TICKET_PRIORITY_LABELS[priority]}
+  </Badge>
+);
@@ -0,0 +1,206 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { BookOpen, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { scrubPii, slugify } from '@/lib/knowledge-base';
+
+export interface FaqReply {
+  id: string;
+  content: string;
+  authorName: string;
+}
+
+interface PublishFaqDialogProps {
+  ticketId: string;
+  subject: string;
+  categoryId: string | null;
+  replies: FaqReply[];
+  // Everyone named on the ticket, scrubbed from the draft along with emails and phone numbers
+  names: string[];
+}
+
+export const PublishFaqDialog = ({ ticketId, subject, categoryId, replies, names }: PublishFaqDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<'select' | 'edit'>('select');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [title, setTitle] = useState('');
+  const [slug, setSlug] = useState('');
+  const [body, setBody] = useState('');
+  const [isPublished, setIsPublished] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  if (replies.length === 0) return null;
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) {
+      setStep('select');
+      setSelectedIds(replies.map(r => r.id));
+      setIsPublished(true);
+    }
+  };
+
+  const handleToggleReply = (replyId: string, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, replyId] : prev.filter(id => id !== replyId));
+  };
+
+  const handleDraft = () => {
+    const scrubbedTitle = scrubPii(subject, names);
+    const selectedReplies = replies.filter(r => selectedIds.includes(r.id));
+
+    setTitle(scrubbedTitle);
+    setSlug(slugify(scrubbedTitle));
+    setBody(scrubPii(selectedReplies.map(r => r.content).join('\n\n'), names));
+    setStep('edit');
+  };
+
+  const handlePublish = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim() || !slug || !body.trim()) return;
+
+    setIsSubmitting(true);
+
+    const { error } = await supabase.rpc('publish_ticket_as_faq', {
+      _ticket_id: ticketId,
+      _message_ids: selectedIds,
+      _title: title.trim(),
+      _slug: slug,
+      _body: body.trim(),
+      _is_published: isPublished,
+      _category_id: categoryId ?? undefined,
+    });
+
+    if (error) {
+      const description = error.code === '23505' ? 'Another article already uses this slug' : error.message;
+      toast({ title: 'Error publishing FAQ', description, variant: 'destructive' });
+    } else {
+      toast({
+        title: isPublished ? 'FAQ published' : 'FAQ saved as draft',
+        description: 'You can edit it later from the Knowledge Base.',
+      });
+      setOpen(false);
+    }
+
+    setIsSubmitting(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className="gap-2">
+          <BookOpen className="h-4 w-4" />
+          Publish as FAQ
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        {step === 'select' ? (
+          <div className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Publish as FAQ</DialogTitle>
+              <DialogDescription>
+                Choose the replies that answer this question. Names, emails and phone numbers are removed before you review the draft.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2 max-h-[360px] overflow-y-auto pr-2">
+              {replies.map(reply => (
+                <div key={reply.id} className="flex items-start gap-3 rounded-md border border-border p-3">
+                  <Checkbox
+                    id={`faq-reply-${reply.id}`}
+                    checked={selectedIds.includes(reply.id)}
+                    onCheckedChange={(checked) => handleToggleReply(reply.id, checked === true)}
+                    className="mt-0.5"
+                  />
+                  <Label htmlFor={`faq-reply-${reply.id}`} className="font-normal cursor-pointer space-y-1">
+                    <span className="block text-xs text-muted-foreground">{reply.authorName}</span>
+                    <span className="block text-sm whitespace-pre-wrap">{reply.content}</span>
+                  </Label>
+                </div>
+              ))}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" onClick={handleDraft} disabled={selectedIds.length === 0}>
+                Continue
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <form onSubmit={handlePublish} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Review FAQ</DialogTitle>
+              <DialogDescription>
+                Check that nothing identifies the student before publishing. The article links back to this ticket for staff only.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="faq-title">Title</Label>
+                <Input
+                  id="faq-title"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  maxLength={120}
+                  disabled={isSubmitting}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="faq-slug">Slug</Label>
+                <Input
+                  id="faq-slug"
+                  value={slug}
+                  onChange={(e) => setSlug(e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, ''))}
+                  maxLength={80}
+                  disabled={isSubmitting}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="faq-body">Article</Label>
+              <Textarea
+                id="faq-body"
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                rows={10}
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch id="faq-published" checked={isPublished} onCheckedChange={setIsPublished} />
+              <Label htmlFor="faq-published" className="font-normal">Publish to the Help Center now</Label>
+            </div>
+
+            <DialogFooter className="gap-2">
+              <Button type="button" variant="ghost" onClick={() => setStep('select')} disabled={isSubmitting}>
+                Back
+              </Button>
+              <Button type="submit" disabled={isSubmitting || !title.trim() || !slug || !body.trim()} className="gap-2">
+                {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <BookOpen className="h-4 w-4" />}
+                {isPublished ? 'Publish' : 'Save Draft'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Eye, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+export interface RevealedIdentity {
+  name: string;
+  email: string;
+}
+
+interface RevealIdentityDialogProps {
+  ticketId: string;
+  onRevealed: (identity: RevealedIdentity) => void;
+}
+
+export const RevealIdentityDialog = ({ ticketId, onRevealed }: RevealIdentityDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleReveal = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) return;
+
+    setIsSubmitting(true);
+
+    const { data, error } = await supabase.rpc('reveal_ticket_identity', {
+      _ticket_id: ticketId,
+      _reason: reason.trim(),
+    });
+
+    if (error) {
+      toast({ title: 'Error revealing identity', description: error.message, variant: 'destructive' });
+    } else if (data && data.length > 0) {
+      setReason('');
+      setOpen(false);
+      onRevealed(data[0]);
+    }
+
+    setIsSubmitting(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className="gap-2">
+          <Eye className="h-4 w-4" />
+          Reveal Identity
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleReveal} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Reveal student identity</DialogTitle>
+            <DialogDescription>
+              This ticket was filed confidentially. Revealing who filed it is recorded in the audit log together with your reason.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="reveal-reason">Reason</Label>
+            <Textarea
+              id="reveal-reason"
+              placeholder="Why do you need to know who filed this ticket?"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" variant="destructive" disabled={isSubmitting || !reason.trim()} className="gap-2">
+              {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Eye className="h-4 w-4" />}
+              Reveal
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,291 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Bookmark, Link2, Loader2, Pin, PinOff, Settings2, Trash2, Users } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { countTickets } from '@/hooks/use-ticket-list';
+import { cn } from '@/lib/utils';
+import { SavedTicketView, parseTicketView, toTicketListFilters } from '@/lib/ticket-views';
+
+interface VisibleView extends SavedTicketView {
+  profiles: { name: string } | null;
+}
+
+interface SavedViewsSidebarProps {
+  // Serialized view the dashboard is showing right now
+  currentQuery: string;
+  onSelect: (query: string) => void;
+  // Bumped by the dashboard whenever tickets change, to keep counts live
+  refreshKey: number;
+}
+
+export const SavedViewsSidebar = ({ currentQuery, onSelect, refreshKey }: SavedViewsSidebarProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [views, setViews] = useState<VisibleView[]>([]);
+  const [pinnedIds, setPinnedIds] = useState<string[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [isShared, setIsShared] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchViews = useCallback(async () => {
+    if (!user) return;
+
+    const [viewsResult, pinsResult] = await Promise.all([
+      supabase
+        .from('saved_ticket_views')
+        .select('id, owner_id, name, query, is_shared, profiles!saved_ticket_views_owner_id_fkey(name)')
+        .order('name'),
+      supabase
+        .from('saved_ticket_view_pins')
+        .select('view_id')
+        .eq('user_id', user.id),
+    ]);
+
+    setViews(viewsResult.data || []);
+    setPinnedIds((pinsResult.data || []).map(p => p.view_id));
+  }, [user]);
+
+  useEffect(() => {
+    fetchViews();
+  }, [fetchViews]);
+
+  // Views unshared by their owner disappear from the list even if they are still pinned
+  const pinnedViews = views.filter(v => pinnedIds.includes(v.id));
+
+  useEffect(() => {
+    if (!user) return;
+
+    Promise.all(
+      views.filter(v => pinnedIds.includes(v.id)).map(async view => {
+        const filters = toTicketListFilters(parseTicketView(new URLSearchParams(view.query)), user.id);
+        return [view.id, await countTickets(filters)] as const;
+      })
+    ).then(entries => setCounts(Object.fromEntries(entries)));
+  }, [user, views, pinnedIds, refreshKey]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !name.trim()) return;
+
+    setIsSaving(true);
+
+    const { data, error } = await supabase
+      .from('saved_ticket_views')
+      .insert({ owner_id: user.id, name: name.trim(), query: currentQuery, is_shared: isShared })
+      .select('id')
+      .single();
+
+    if (error) {
+      toast({ title: 'Error saving view', description: error.message, variant: 'destructive' });
+    } else {
+      // A view saved from the dashboard is one the user wants at hand
+      await supabase.from('saved_ticket_view_pins').insert({ view_id: data.id, user_id: user.id });
+      toast({ title: 'View saved', description: isShared ? 'Everyone on the team can now pin it.' : undefined });
+      setName('');
+      setIsShared(false);
+      setIsSaveOpen(false);
+      fetchViews();
+    }
+
+    setIsSaving(false);
+  };
+
+  const handleTogglePin = async (viewId: string) => {
+    if (!user) return;
+
+    const { error } = pinnedIds.includes(viewId)
+      ? await supabase.from('saved_ticket_view_pins').delete().eq('view_id', viewId).eq('user_id', user.id)
+      : await supabase.from('saved_ticket_view_pins').insert({ view_id: viewId, user_id: user.id });
+
+    if (error) {
+      toast({ title: 'Error updating pinned views', description: error.message, variant: 'destructive' });
+    } else {
+      fetchViews();
+    }
+  };
+
+  const handleToggleShared = async (view: VisibleView) => {
+    const { error } = await supabase
+      .from('saved_ticket_views')
+      .update({ is_shared: !view.is_shared })
+      .eq('id', view.id);
+
+    if (error) {
+      toast({ title: 'Error updating view', description: error.message, variant: 'destructive' });
+    } else {
+      fetchViews();
+    }
+  };
+
+  const handleDelete = async (viewId: string) => {
+    const { error } = await supabase
+      .from('saved_ticket_views')
+      .delete()
+      .eq('id', viewId);
+
+    if (error) {
+      toast({ title: 'Error deleting view', description: error.message, variant: 'destructive' });
+    } else {
+      fetchViews();
+    }
+  };
+
+  const handleCopyLink = async () => {
+    const url = `${window.location.origin}/${currentQuery ? `?${currentQuery}` : ''}`;
+    await navigator.clipboard.writeText(url);
+    toast({ title: 'Link copied', description: 'Anyone on the staff team can open this view from the link.' });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between text-base">
+          <span className="flex items-center gap-2">
+            <Bookmark className="h-4 w-4" />
+            Views
+          </span>
+          <span className="flex gap-1">
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={handleCopyLink} title="Copy link to this view">
+              <Link2 className="h-4 w-4" />
+            </Button>
+            <Dialog>
+              <DialogTrigger asChild>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Manage views">
+                  <Settings2 className="h-4 w-4" />
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Ticket views</DialogTitle>
+                  <DialogDescription>
+                    Pin views to your sidebar. Shared views are available to the whole team.
+                  </DialogDescription>
+                </DialogHeader>
+                {views.length === 0 ? (
+                  <p className="py-6 text-center text-sm text-muted-foreground">No saved views yet</p>
+                ) : (
+                  <ul className="space-y-2 max-h-[400px] overflow-y-auto">
+                    {views.map(view => {
+                      const isOwn = view.owner_id === user?.id;
+                      return (
+                        <li key={view.id} className="flex items-center justify-between gap-2 rounded-md border border-border p-2">
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium truncate">{view.name}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {isOwn ? 'Yours' : `Shared by ${view.profiles?.name ?? 'a teammate'}`}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-1">
+                            {isOwn && (
+                              <div className="flex items-center gap-1 mr-1">
+                                <Switch
+                                  id={`view-shared-${view.id}`}
+                                  checked={view.is_shared}
+                                  onCheckedChange={() => handleToggleShared(view)}
+                                />
+                                <Label htmlFor={`view-shared-${view.id}`} className="text-xs font-normal">Shared</Label>
+                              </div>
+                            )}
+                            <Button variant="ghost" size="sm" onClick={() => handleTogglePin(view.id)}>
+                              {pinnedIds.includes(view.id) ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                            </Button>
+                            {isOwn && (
+                              <Button variant="ghost" size="sm" onClick={() => handleDelete(view.id)}>
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </DialogContent>
+            </Dialog>
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-1">
+        {pinnedViews.length === 0 ? (
+          <p className="text-xs text-muted-foreground pb-2">Save the current filters as a view to pin it here.</p>
+        ) : (
+          pinnedViews.map(view => (
+            <button
+              key={view.id}
+              type="button"
+              onClick={() => onSelect(view.query)}
+              className={cn(
+                'flex w-full items-center justify-between gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted transition-colors',
+                view.query === currentQuery && 'bg-muted font-medium'
+              )}
+            >
+              <span className="flex items-center gap-2 min-w-0">
+                {view.is_shared && <Users className="h-3 w-3 shrink-0 text-muted-foreground" />}
+                <span className="truncate">{view.name}</span>
+              </span>
+              <Badge variant="secondary">{counts[view.id] ?? '…'}</Badge>
+            </button>
+          ))
+        )}
+
+        <Dialog open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+          <DialogTrigger asChild>
+            <Button variant="outline" size="sm" className="w-full gap-2 mt-2">
+              <Bookmark className="h-4 w-4" />
+              Save Current View
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <form onSubmit={handleSave} className="space-y-4">
+              <DialogHeader>
+                <DialogTitle>Save view</DialogTitle>
+                <DialogDescription>
+                  Saves the current scope, status, filters and sort under a name.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2">
+                <Label htmlFor="view-name">Name</Label>
+                <Input
+                  id="view-name"
+                  placeholder="Urgent hostel tickets"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  maxLength={60}
+                  disabled={isSaving}
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="view-shared" checked={isShared} onCheckedChange={setIsShared} />
+                <Label htmlFor="view-shared" className="font-normal">Share with the team</Label>
+              </div>
+              <DialogFooter>
+                <Button type="submit" disabled={isSaving || !name.trim()} className="gap-2">
+                  {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Bookmark className="h-4 w-4" />}
+                  Save View
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, Users } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useToast } from '@/hooks/use-toast';
+
+interface SimilarTicket {
+  id: string;
+  subject: string;
+  category_name: string | null;
+  affected_count: number;
+  created_at: string;
+}
+
+interface SimilarTicketsProps {
+  query: string;
+  categoryId: string | null;
+}
+
+export const SimilarTickets = ({ query, categoryId }: SimilarTicketsProps) => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [tickets, setTickets] = useState<SimilarTicket[]>([]);
+  const [joiningId, setJoiningId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (query.trim().length < 3) {
+      setTickets([]);
+      return;
+    }
+
+    // Wait for the student to stop typing before searching
+    const timeout = setTimeout(async () => {
+      const { data, error } = await supabase.rpc('find_similar_tickets', {
+        _query: query,
+        _category_id: categoryId ?? undefined,
+      });
+
+      if (!error) {
+        setTickets(data || []);
+      }
+    }, 400);
+
+    return () => clearTimeout(timeout);
+  }, [query, categoryId]);
+
+  const handleJoin = async (ticketId: string) => {
+    setJoiningId(ticketId);
+
+    const { error } = await supabase.rpc('join_ticket', { _ticket_id: ticketId });
+
+    if (error) {
+      toast({ title: 'Error joining ticket', description: error.message, variant: 'destructive' });
+      setJoiningId(null);
+      return;
+    }
+
+    toast({ title: 'Added to ticket', description: 'You will see staff replies on this ticket and can add your own details.' });
+    navigate(`/ticket/${ticketId}`);
+  };
+
+  if (tickets.length === 0) return null;
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border bg-muted/30 p-4">
+      <div>
+        <p className="text-sm font-medium">Already reported?</p>
+        <p className="text-sm text-muted-foreground">
+          These open tickets look similar. If one of them is your problem, join it instead of filing a new ticket.
+        </p>
+      </div>
+      {tickets.map(ticket => (
+        <div key={ticket.id} className="flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <div className="text-sm font-medium truncate">{ticket.subject}</div>
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              {ticket.category_name && <span>{ticket.category_name}</span>}
+              <Badge variant="secondary" className="gap-1 font-normal">
+                <Users className="h-3 w-3" />
+                {ticket.affected_count} affected
+              </Badge>
+              <span>{formatDistanceToNow(new Date(ticket.created_at), { addSuffix: true })}</span>
+            </div>
+          </div>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => handleJoin(ticket.id)}
+            disabled={joiningId !== null}
+            className="shrink-0"
+          >
+            {joiningId === ticket.id && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            This affects me too
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
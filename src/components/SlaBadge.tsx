@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import { formatDistanceStrict } from 'date-fns';
+import { Timer } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { getSlaState, SlaState } from '@/lib/sla';
+
+const STATE_CLASSES: Record<SlaState, string> = {
+  on_track: 'text-muted-foreground',
+  due_soon: 'border-warning text-warning',
+  overdue: 'border-destructive bg-destructive text-destructive-foreground',
+  met: 'border-success text-success',
+  breached: 'border-destructive text-destructive',
+};
+
+interface SlaBadgeProps {
+  label: string;
+  dueAt: string | null;
+  metAt: string | null;
+  className?: string;
+}
+
+export const SlaBadge = ({ label, dueAt, metAt, className }: SlaBadgeProps) => {
+  const [now, setNow] = useState(() => new Date());
+
+  // Tick once a minute so the countdown stays current
+  useEffect(() => {
+    if (metAt) return;
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, [metAt]);
+
+  const state = getSlaState(dueAt, metAt, now);
+  if (!state || !dueAt) return null;
+
+  const due = new Date(dueAt);
+  const text = {
+    on_track: `${label} due in ${formatDistanceStrict(due, now)}`,
+    due_soon: `${label} due in ${formatDistanceStrict(due, now)}`,
+    overdue: `${label} overdue by ${formatDistanceStrict(now, due)}`,
+    met: `${label} SLA met`,
+    breached: `${label} SLA breached`,
+  }[state];
+
+  return (
+    <Badge variant="outline" className={cn('gap-1 font-normal', STATE_CLASSES[state], className)}>
+      <Timer className="h-3 w-3" />
+      {text}
+    </Badge>
+  );
+};
@@ -0,0 +1,238 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Timer, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useTicketCategories } from '@/hooks/use-ticket-categories';
+import { PriorityBadge } from '@/components/PriorityBadge';
+import { TICKET_PRIORITIES, TICKET_PRIORITY_LABELS, TicketPriority } from '@/lib/tickets';
+
+interface SlaPolicy {
+  id: string;
+  priority: TicketPriority;
+  category_id: string | null;
+  first_response_minutes: number;
+  resolution_minutes: number;
+}
+
+const ANY_CATEGORY = 'any';
+
+const toHours = (minutes: number) => parseFloat((minutes / 60).toFixed(2));
+const toMinutes = (hours: string) => Math.round(parseFloat(hours) * 60);
+
+export const SlaPolicySettings = () => {
+  const { toast } = useToast();
+  const { topLevelCategories } = useTicketCategories(true);
+  const [policies, setPolicies] = useState<SlaPolicy[]>([]);
+  const [newPriority, setNewPriority] = useState<TicketPriority>('normal');
+  const [newCategory, setNewCategory] = useState(ANY_CATEGORY);
+  const [newResponseHours, setNewResponseHours] = useState('');
+  const [newResolutionHours, setNewResolutionHours] = useState('');
+
+  const fetchPolicies = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('sla_policies')
+      .select('id, priority, category_id, first_response_minutes, resolution_minutes');
+
+    if (error) {
+      toast({ title: 'Error fetching SLA policies', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    const sorted = (data || []).sort((a, b) =>
+      TICKET_PRIORITIES.indexOf(a.priority) - TICKET_PRIORITIES.indexOf(b.priority) ||
+      Number(a.category_id !== null) - Number(b.category_id !== null)
+    );
+    setPolicies(sorted);
+  }, [toast]);
+
+  useEffect(() => {
+    fetchPolicies();
+  }, [fetchPolicies]);
+
+  const categoryName = (categoryId: string | null) =>
+    categoryId ? topLevelCategories.find(c => c.id === categoryId)?.name || 'Unknown category' : 'Any category';
+
+  const handleAddPolicy = async () => {
+    const firstResponseMinutes = toMinutes(newResponseHours);
+    const resolutionMinutes = toMinutes(newResolutionHours);
+
+    if (!(firstResponseMinutes > 0) || !(resolutionMinutes > 0)) {
+      toast({ title: 'Invalid targets', description: 'Enter response and resolution targets in hours.', variant: 'destructive' });
+      return;
+    }
+
+    const { error } = await supabase
+      .from('sla_policies')
+      .insert({
+        priority: newPriority,
+        category_id: newCategory === ANY_CATEGORY ? null : newCategory,
+        first_response_minutes: firstResponseMinutes,
+        resolution_minutes: resolutionMinutes,
+      });
+
+    if (error) {
+      toast({ title: 'Error adding SLA policy', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    setNewResponseHours('');
+    setNewResolutionHours('');
+    fetchPolicies();
+  };
+
+  const handleUpdatePolicy = async (
+    policyId: string,
+    field: 'first_response_minutes' | 'resolution_minutes',
+    hours: string
+  ) => {
+    const minutes = toMinutes(hours);
+    const policy = policies.find(p => p.id === policyId);
+    if (!(minutes > 0) || !policy || policy[field] === minutes) return;
+
+    const { error } = await supabase
+      .from('sla_policies')
+      .update({ [field]: minutes })
+      .eq('id', policyId);
+
+    if (error) {
+      toast({ title: 'Error updating SLA policy', description: error.message, variant: 'destructive' });
+    }
+    fetchPolicies();
+  };
+
+  const handleDeletePolicy = async (policyId: string) => {
+    const { error } = await supabase
+      .from('sla_policies')
+      .delete()
+      .eq('id', policyId);
+
+    if (error) {
+      toast({ title: 'Error deleting SLA policy', description: error.message, variant: 'destructive' });
+    } else {
+      fetchPolicies();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="h-5 w-5" />
+          SLA Policies
+        </CardTitle>
+        <CardDescription>
+          Response and resolution targets in hours. A category policy overrides the "Any category" policy for the same priority. Changes apply to new tickets and to tickets whose priority or category changes.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Priority</TableHead>
+              <TableHead>Category</TableHead>
+              <TableHead>First Response (h)</TableHead>
+              <TableHead>Resolution (h)</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {policies.map(policy => (
+              <TableRow key={policy.id}>
+                <TableCell>
+                  <PriorityBadge priority={policy.priority} />
+                </TableCell>
+                <TableCell>{categoryName(policy.category_id)}</TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min={0.1}
+                    step={0.5}
+                    defaultValue={toHours(policy.first_response_minutes)}
+                    onBlur={(e) => handleUpdatePolicy(policy.id, 'first_response_minutes', e.target.value)}
+                    className="h-8 w-24"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min={0.1}
+                    step={0.5}
+                    defaultValue={toHours(policy.resolution_minutes)}
+                    onBlur={(e) => handleUpdatePolicy(policy.id, 'resolution_minutes', e.target.value)}
+                    className="h-8 w-24"
+                  />
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="sm" onClick={() => handleDeletePolicy(policy.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleAddPolicy();
+          }}
+          className="flex flex-wrap gap-2"
+        >
+          <Select value={newPriority} onValueChange={(value) => setNewPriority(value as TicketPriority)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TICKET_PRIORITIES.map(priority => (
+                <SelectItem key={priority} value={priority}>
+                  {TICKET_PRIORITY_LABELS[priority]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={newCategory} onValueChange={setNewCategory}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_CATEGORY}>Any category</SelectItem>
+              {topLevelCategories.map(category => (
+                <SelectItem key={category.id} value={category.id}>
+                  {category.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min={0.1}
+            step={0.5}
+            placeholder="Response (h)"
+            value={newResponseHours}
+            onChange={(e) => setNewResponseHours(e.target.value)}
+            className="w-32"
+          />
+          <Input
+            type="number"
+            min={0.1}
+            step={0.5}
+            placeholder="Resolution (h)"
+            value={newResolutionHours}
+            onChange={(e) => setNewResolutionHours(e.target.value)}
+            className="w-32"
+          />
+          <Button type="submit" disabled={!newResponseHours || !newResolutionHours} className="gap-2">
+            <Plus className="h-4 w-4" />
+            Add
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
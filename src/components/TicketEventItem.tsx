@@ -0,0 +1,61 @@
+import { formatDistanceToNow } from 'date-fns';
+import { History } from 'lucide-react';
+import {
+  ESCALATION_LEVEL_LABELS,
+  EscalationLevel,
+  TICKET_PRIORITY_LABELS,
+  TICKET_STATUS_LABELS,
+  TicketEvent,
+  TicketPriority,
+  TicketStatus,
+} from '@/lib/tickets';
+
+const statusLabel = (value: string | null) =>
+  value ? TICKET_STATUS_LABELS[value as TicketStatus] ?? value : 'unknown';
+
+const priorityLabel = (value: string | null) =>
+  value ? TICKET_PRIORITY_LABELS[value as TicketPriority] ?? value : 'unknown';
+
+const describeEvent = (event: TicketEvent, profileNames: Record<string, string>) => {
+  switch (event.event_type) {
+    case 'created':
+      return 'opened this ticket';
+    case 'status_changed':
+      return `changed status from ${statusLabel(event.old_value)} to ${statusLabel(event.new_value)}`;
+    case 'assignee_changed':
+      if (!event.new_value) return 'unassigned this ticket';
+      if (event.new_value === event.actor_id) return 'claimed this ticket';
+      return `assigned this ticket to ${profileNames[event.new_value] ?? 'a staff member'}`;
+    case 'priority_changed':
+      return `changed priority from ${priorityLabel(event.old_value)} to ${priorityLabel(event.new_value)}`;
+    case 'subject_changed':
+      return `changed the subject to "${event.new_value}"`;
+    case 'reopened':
+      return 'reopened this ticket';
+    case 'escalated':
+      return `escalated this ticket to ${ESCALATION_LEVEL_LABELS[event.new_value as EscalationLevel] ?? event.new_value}`;
+    case 'awaiting_student_changed':
+      return event.new_value === 'true' ? 'marked this ticket as awaiting the student' : 'stopped awaiting the student';
+    case 'finalized':
+      return 'finalized this ticket';
+    default:
+      return 'updated this ticket';
+  }
+};
+
+interface TicketEventItemProps {
+  event: TicketEvent;
+  profileNames?: Record<string, string>;
+}
+
+export const TicketEventItem = ({ event, profileNames = {} }: TicketEventItemProps) => (
+  <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground py-1">
+    <History className="h-3 w-3" />
+    <span>
+      <span className="font-medium">{event.actor_name ?? 'System'}</span> {describeEvent(event, profileNames)}
+    </span>
+    <span className="opacity-60">
+      • {formatDistanceToNow(new Date(event.created_at), { addSuffix: true })}
+    </span>
+  </div>
+);
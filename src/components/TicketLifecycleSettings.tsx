@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RotateCcw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+export const TicketLifecycleSettings = () => {
+  const { toast } = useToast();
+  const [reopenWindowDays, setReopenWindowDays] = useState('');
+  const [reminderAfterDays, setReminderAfterDays] = useState('');
+  const [autoCloseAfterDays, setAutoCloseAfterDays] = useState('');
+  const [editWindowMinutes, setEditWindowMinutes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchSettings = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('ticket_settings')
+      .select('reopen_window_days, reminder_after_days, auto_close_after_days, message_edit_window_minutes')
+      .single();
+
+    if (error) {
+      toast({ title: 'Error fetching ticket settings', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    setReopenWindowDays(String(data.reopen_window_days));
+    setReminderAfterDays(String(data.reminder_after_days));
+    setAutoCloseAfterDays(String(data.auto_close_after_days));
+    setEditWindowMinutes(String(data.message_edit_window_minutes));
+  }, [toast]);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const handleSave = async () => {
+    const days = parseInt(reopenWindowDays, 10);
+    const reminderDays = parseInt(reminderAfterDays, 10);
+    const autoCloseDays = parseInt(autoCloseAfterDays, 10);
+    const editMinutes = parseInt(editWindowMinutes, 10);
+    if (isNaN(days) || days < 0) {
+      toast({ title: 'Invalid reopen window', description: 'Enter a number of days, or 0 to turn reopening off.', variant: 'destructive' });
+      return;
+    }
+    if (isNaN(reminderDays) || reminderDays < 0 || isNaN(autoCloseDays) || autoCloseDays < 0) {
+      toast({ title: 'Invalid interval', description: 'Enter a number of days, or 0 to turn reminders or auto-close off.', variant: 'destructive' });
+      return;
+    }
+    if (isNaN(editMinutes) || editMinutes < 0) {
+      toast({ title: 'Invalid edit window', description: 'Enter a number of minutes, or 0 to turn message editing off.', variant: 'destructive' });
+      return;
+    }
+
+    setIsSaving(true);
+
+    const { error } = await supabase
+      .from('ticket_settings')
+      .update({
+        reopen_window_days: days,
+        reminder_after_days: reminderDays,
+        auto_close_after_days: autoCloseDays,
+        message_edit_window_minutes: editMinutes,
+      })
+      .eq('id', true);
+
+    if (error) {
+      toast({ title: 'Error saving ticket settings', description: error.message, variant: 'destructive' });
+    } else {
+      toast({ title: 'Settings saved', description: 'Ticket lifecycle settings have been updated.' });
+    }
+
+    setIsSaving(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <RotateCcw className="h-5 w-5" />
+          Ticket Lifecycle
+        </CardTitle>
+        <CardDescription>Control reminders, auto-close, message editing and what students can do once a ticket is completed</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSave();
+          }}
+          className="space-y-4"
+        >
+          <div className="space-y-2">
+            <Label htmlFor="reopen-window">Reopen window (days)</Label>
+            <Input
+              id="reopen-window"
+              type="number"
+              min={0}
+              value={reopenWindowDays}
+              onChange={(e) => setReopenWindowDays(e.target.value)}
+              className="w-32"
+            />
+            <p className="text-xs text-muted-foreground">
+              How long after completion a student can reopen their ticket. Once it passes, the ticket is finalized.
+              Set to 0 to turn reopening off.
+            </p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="reminder-after">Remind student after (days)</Label>
+              <Input
+                id="reminder-after"
+                type="number"
+                min={0}
+                value={reminderAfterDays}
+                onChange={(e) => setReminderAfterDays(e.target.value)}
+                className="w-32"
+              />
+              <p className="text-xs text-muted-foreground">
+                How often a reminder is posted while a ticket is awaiting the student. Set to 0 to turn reminders off.
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="auto-close-after">Auto-close after (days)</Label>
+              <Input
+                id="auto-close-after"
+                type="number"
+                min={0}
+                value={autoCloseAfterDays}
+                onChange={(e) => setAutoCloseAfterDays(e.target.value)}
+                className="w-32"
+              />
+              <p className="text-xs text-muted-foreground">
+                Tickets awaiting the student this long without a reply are completed automatically. Set to 0 to turn auto-close off.
+              </p>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-window">Message edit window (minutes)</Label>
+            <Input
+              id="edit-window"
+              type="number"
+              min={0}
+              value={editWindowMinutes}
+              onChange={(e) => setEditWindowMinutes(e.target.value)}
+              className="w-32"
+            />
+            <p className="text-xs text-muted-foreground">
+              How long after sending a message its sender can still edit or delete it. Staff can see every earlier version.
+              Set to 0 to turn editing off.
+            </p>
+          </div>
+          <Button type="submit" disabled={isSaving || reopenWindowDays === '' || reminderAfterDays === '' || autoCloseAfterDays === '' || editWindowMinutes === ''}>
+            Save
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
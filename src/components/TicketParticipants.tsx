@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Plus, Users, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { CoSigner, CoSignerInput } from '@/components/CoSignerInput';
+
+export interface TicketParticipant {
+  student_id: string;
+  joined_via: string;
+  profiles: { name: string } | null;
+}
+
+interface TicketParticipantsProps {
+  ticketId: string;
+  ownerId: string;
+  ownerName: string;
+  participants: TicketParticipant[];
+  canAdd: boolean;
+  onChange: () => void;
+}
+
+export const TicketParticipants = ({ ticketId, ownerId, ownerName, participants, canAdd, onChange }: TicketParticipantsProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const isOwner = user?.id === ownerId;
+
+  const handleAdd = async (coSigner: CoSigner) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('ticket_participants')
+      .insert({ ticket_id: ticketId, student_id: coSigner.id, added_by: user.id, joined_via: 'co_signer' });
+
+    if (error) {
+      toast({ title: 'Error adding classmate', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    setOpen(false);
+    onChange();
+  };
+
+  const handleRemove = async (studentId: string) => {
+    const { error } = await supabase
+      .from('ticket_participants')
+      .delete()
+      .eq('ticket_id', ticketId)
+      .eq('student_id', studentId);
+
+    if (error) {
+      toast({ title: 'Error removing participant', description: error.message, variant: 'destructive' });
+    } else if (studentId === user?.id) {
+      // Leaving the ticket also removes access to it
+      navigate('/');
+    } else {
+      onChange();
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <Users className="h-4 w-4 text-muted-foreground" />
+      <span className="text-muted-foreground">{participants.length + 1} affected:</span>
+      <Badge variant="outline">{ownerName}</Badge>
+      {participants.map(participant => (
+        <Badge key={participant.student_id} variant="secondary" className="gap-1">
+          {participant.profiles?.name ?? 'Unknown'}
+          {participant.joined_via === 'me_too' && <span className="opacity-60">(me too)</span>}
+          {(isOwner || participant.student_id === user?.id) && (
+            <button
+              type="button"
+              onClick={() => handleRemove(participant.student_id)}
+              className="hover:text-destructive"
+              title={participant.student_id === user?.id ? 'Leave this ticket' : 'Remove from this ticket'}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </Badge>
+      ))}
+      {canAdd && isOwner && (
+        <Popover open={open} onOpenChange={setOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-6 gap-1 px-2 text-xs">
+              <Plus className="h-3 w-3" />
+              Classmate
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-80" align="start">
+            <CoSignerInput
+              excludeIds={[ownerId, ...participants.map(p => p.student_id)]}
+              onAdd={handleAdd}
+            />
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+
+// What each open copy of a ticket shares over the ticket's realtime channel.
+// Students are on it too, so it carries no user ids and nothing about notes.
+export interface TicketPresence {
+  name: string;
+  is_staff: boolean;
+  // Typing a reply. Typing a note is only shared on the staff channel.
+  typing: boolean;
+}
+
+// What staff share over the ticket's private staff channel
+export interface StaffPresence {
+  user_id: string;
+  name: string;
+  typing: 'reply' | 'note' | null;
+  // An unsent reply in the composer, however long ago they last typed
+  drafting: boolean;
+}
+
+export interface TicketViewer {
+  key: string;
+  name: string;
+  is_staff: boolean;
+}
+
+const initials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0].toUpperCase())
+    .join('');
+
+export const TicketViewers = ({ viewers }: { viewers: TicketViewer[] }) => {
+  if (viewers.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-xs text-muted-foreground">Viewing now</span>
+      <div className="flex -space-x-2">
+        {viewers.map(viewer => (
+          <Tooltip key={viewer.key}>
+            <TooltipTrigger asChild>
+              <Avatar className="h-7 w-7 border-2 border-background">
+                <AvatarFallback
+                  className={cn('text-[10px]', viewer.is_staff ? 'bg-primary text-primary-foreground' : 'bg-secondary')}
+                >
+                  {initials(viewer.name)}
+                </AvatarFallback>
+              </Avatar>
+            </TooltipTrigger>
+            <TooltipContent>
+              {viewer.name}{viewer.is_staff ? ' (staff)' : ''}
+            </TooltipContent>
+          </Tooltip>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+interface TypingIndicatorProps {
+  typists: { name: string; is_staff: boolean }[];
+  // Students see "Staff is typing…" rather than who
+  isStaff: boolean;
+}
+
+export const TypingIndicator = ({ typists, isStaff }: TypingIndicatorProps) => {
+  if (typists.length === 0) return null;
+
+  const label = isStaff
+    ? `${typists.map(t => t.name).join(', ')} ${typists.length === 1 ? 'is' : 'are'} typing…`
+    : typists.some(t => t.is_staff) ? 'Staff is typing…' : 'Someone is typing…';
+
+  return (
+    <p className="flex items-center gap-2 text-xs text-muted-foreground">
+      <span className="flex gap-0.5">
+        <span className="h-1.5 w-1.5 rounded-full bg-muted-foreground animate-pulse" />
+        <span className="h-1.5 w-1.5 rounded-full bg-muted-foreground animate-pulse [animation-delay:150ms]" />
+        <span className="h-1.5 w-1.5 rounded-full bg-muted-foreground animate-pulse [animation-delay:300ms]" />
+      </span>
+      {label}
+    </p>
+  );
+};
@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2, Star } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import { CSAT_LABELS, CSAT_SCORES, TicketRating } from '@/lib/tickets';
+
+interface TicketRatingFormProps {
+  ticketId: string;
+  rating: TicketRating | null;
+  onRated: () => void;
+  showComment?: boolean;
+}
+
+export const TicketRatingForm = ({ ticketId, rating, onRated, showComment = true }: TicketRatingFormProps) => {
+  const { toast } = useToast();
+  const [comment, setComment] = useState('');
+  const [hovered, setHovered] = useState<number | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submit = async (score: number, withComment?: string) => {
+    setIsSubmitting(true);
+
+    const { error } = await supabase.rpc('rate_ticket', {
+      _ticket_id: ticketId,
+      _rating: score,
+      _comment: withComment,
+    });
+
+    if (error) {
+      toast({ title: 'Error submitting rating', description: error.message, variant: 'destructive' });
+    } else {
+      toast({ title: 'Thanks for your feedback!' });
+      setComment('');
+      onRated();
+    }
+
+    setIsSubmitting(false);
+  };
+
+  const shown = hovered ?? rating?.rating ?? 0;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1" onMouseLeave={() => setHovered(null)}>
+        {CSAT_SCORES.map(score => (
+          <button
+            key={score}
+            type="button"
+            title={CSAT_LABELS[score]}
+            disabled={isSubmitting}
+            onMouseEnter={() => setHovered(score)}
+            onClick={(e) => {
+              e.stopPropagation();
+              submit(score);
+            }}
+            className="p-0.5 disabled:opacity-50"
+          >
+            <Star className={cn('h-6 w-6', score <= shown ? 'fill-warning text-warning' : 'text-muted-foreground')} />
+          </button>
+        ))}
+        <span className="ml-2 text-sm text-muted-foreground">
+          {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : shown > 0 && CSAT_LABELS[shown]}
+        </span>
+      </div>
+
+      {rating?.comment && (
+        <p className="text-sm text-muted-foreground whitespace-pre-wrap">"{rating.comment}"</p>
+      )}
+
+      {showComment && rating && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (comment.trim()) submit(rating.rating, comment.trim());
+          }}
+          className="flex gap-2"
+        >
+          <Textarea
+            placeholder={rating.comment ? 'Update your comment...' : 'Anything else you want to tell us? (optional)'}
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={2}
+            className="resize-none flex-1"
+            disabled={isSubmitting}
+          />
+          <Button type="submit" variant="outline" disabled={isSubmitting || !comment.trim()} className="self-end">
+            Send
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Loader2, MessageSquare, Search, User, X } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { TicketStatusBadge } from '@/components/TicketStatusBadge';
+import { useTicketSearch } from '@/hooks/use-ticket-search';
+import { SEARCH_HIGHLIGHT_PATTERN, TicketSearchMatch, TicketSearchResult } from '@/lib/tickets';
+
+const MATCH_LABELS: Record<TicketSearchMatch, string> = {
+  subject: 'subject',
+  message: 'a message',
+  student: 'student name or email',
+};
+
+// Split-on-capture-group puts the highlighted words at the odd indexes
+const HighlightedSnippet = ({ snippet }: { snippet: string }) => (
+  <>
+    {snippet.split(SEARCH_HIGHLIGHT_PATTERN).map((part, index) =>
+      index % 2 === 1
+        ? <mark key={index} className="rounded bg-warning/30 px-0.5 text-foreground">{part}</mark>
+        : part
+    )}
+  </>
+);
+
+interface TicketSearchProps {
+  placeholder?: string;
+}
+
+export const TicketSearch = ({ placeholder = 'Search tickets, messages and students...' }: TicketSearchProps) => {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+  const { results, searching } = useTicketSearch(query);
+  const isActive = query.trim().length >= 2;
+
+  const handleOpen = (result: TicketSearchResult) => {
+    navigate(result.message_id ? `/ticket/${result.ticket_id}#message-${result.message_id}` : `/ticket/${result.ticket_id}`);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder={placeholder}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="pl-9 pr-9"
+        />
+        {searching ? (
+          <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 animate-spin text-muted-foreground" />
+        ) : query && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setQuery('')}
+            className="absolute right-1 top-1/2 -translate-y-1/2 h-7 w-7 p-0"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {isActive && !searching && (
+        <Card>
+          <CardContent className="p-2">
+            {results.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">No tickets match "{query.trim()}"</p>
+            ) : (
+              <ul className="divide-y divide-border">
+                {results.map(result => (
+                  <li key={result.ticket_id}>
+                    <button
+                      type="button"
+                      onClick={() => handleOpen(result)}
+                      className="w-full rounded-md px-3 py-2 text-left hover:bg-muted transition-colors space-y-1"
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium truncate">
+                          {result.matched_in === 'subject' ? <HighlightedSnippet snippet={result.snippet} /> : result.subject}
+                        </span>
+                        <TicketStatusBadge status={result.status} />
+                      </div>
+                      {result.matched_in !== 'subject' && (
+                        <p className="flex items-start gap-2 text-sm text-muted-foreground">
+                          {result.matched_in === 'message'
+                            ? <MessageSquare className="h-3 w-3 mt-1 shrink-0" />
+                            : <User className="h-3 w-3 mt-1 shrink-0" />}
+                          <span className="line-clamp-2">
+                            <HighlightedSnippet snippet={result.snippet} />
+                          </span>
+                        </p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        Matched in {MATCH_LABELS[result.matched_in]} • Created {formatDistanceToNow(new Date(result.ticket_created_at), { addSuffix: true })}
+                      </p>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
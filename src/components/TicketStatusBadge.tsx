@@ -0,0 +1,18 @@
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { TICKET_STATUS_LABELS, TicketStatus } from '@/lib/tickets';
+
+const STATUS_CLASSES: Record<TicketStatus, string> = {
+  pending: 'bg-warning text-warning-foreground',
+  in_progress: 'bg-primary text-primary-foreground',
+  completed: 'bg-success text-success-foreground',
+};
+
+export const TicketStatusBadge = ({ status, className }: { status: TicketStatus; className?: string }) => (
+  <Badge
+    variant={status === 'pending' ? 'secondary' : 'default'}
+    className={cn(STATUS_CLASSES[status], className)}
+  >
+    {TICKET_STATUS_LABELS[status]}
+  </Badge>
+);
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
+import { Hash, Plus, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { TicketTag } from '@/lib/tickets';
+
+interface TicketTagEditorProps {
+  ticketId: string;
+  tags: TicketTag[];
+  allTags: TicketTag[];
+  onChange: () => void;
+  onTagCreated: () => void;
+}
+
+export const TicketTagEditor = ({ ticketId, tags, allTags, onChange, onTagCreated }: TicketTagEditorProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+
+  const name = search.trim();
+  const availableTags = allTags.filter(tag => !tags.some(t => t.id === tag.id));
+  const exactMatch = allTags.find(tag => tag.name.toLowerCase() === name.toLowerCase());
+
+  const handleAddTag = async (tagId: string) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('ticket_tags')
+      .insert({ ticket_id: ticketId, tag_id: tagId, created_by: user.id });
+
+    if (error) {
+      toast({ title: 'Error adding tag', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    setSearch('');
+    setOpen(false);
+    onChange();
+  };
+
+  const handleCreateTag = async () => {
+    if (!user || !name) return;
+
+    const { data, error } = await supabase
+      .from('tags')
+      .insert({ name, created_by: user.id })
+      .select('id')
+      .single();
+
+    if (error) {
+      toast({ title: 'Error creating tag', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    onTagCreated();
+    handleAddTag(data.id);
+  };
+
+  const handleRemoveTag = async (tagId: string) => {
+    const { error } = await supabase
+      .from('ticket_tags')
+      .delete()
+      .eq('ticket_id', ticketId)
+      .eq('tag_id', tagId);
+
+    if (error) {
+      toast({ title: 'Error removing tag', description: error.message, variant: 'destructive' });
+    } else {
+      onChange();
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {tags.map(tag => (
+        <Badge key={tag.id} variant="secondary" className="gap-1">
+          <Hash className="h-3 w-3" />
+          {tag.name}
+          <button type="button" onClick={() => handleRemoveTag(tag.id)} className="hover:text-destructive">
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-6 gap-1 px-2 text-xs">
+            <Plus className="h-3 w-3" />
+            Tag
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-60 p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Find or create a tag..." value={search} onValueChange={setSearch} maxLength={40} />
+            <CommandList>
+              <CommandEmpty>{name ? 'No matching tags' : 'No tags yet'}</CommandEmpty>
+              {availableTags.length > 0 && (
+                <CommandGroup>
+                  {availableTags.map(tag => (
+                    <CommandItem key={tag.id} value={tag.name} onSelect={() => handleAddTag(tag.id)}>
+                      <Hash className="mr-2 h-4 w-4" />
+                      {tag.name}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+              {name && !exactMatch && (
+                <CommandGroup>
+                  <CommandItem value={`create ${name}`} onSelect={handleCreateTag}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Create "{name}"
+                  </CommandItem>
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { CannedResponse } from '@/lib/canned-responses';
+
+export function useCannedResponses(enabled = true) {
+  const [cannedResponses, setCannedResponses] = useState<CannedResponse[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!enabled) return;
+
+    const { data } = await supabase
+      .from('canned_responses')
+      .select('id, owner_id, is_shared, title, shortcut, content, set_status, set_priority, add_tag_id')
+      .order('title');
+
+    setCannedResponses(data || []);
+  }, [enabled]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { cannedResponses, refresh };
+}
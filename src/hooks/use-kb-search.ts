@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { KbSearchResult } from '@/lib/knowledge-base';
+
+// Searches as the user types, waiting for a pause so every keystroke is not a query
+export function useKbSearch(query: string, limit = 5) {
+  const [results, setResults] = useState<KbSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    if (query.trim().length < 3) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    setSearching(true);
+    const timeout = setTimeout(async () => {
+      const { data, error } = await supabase.rpc('search_kb_articles', { _query: query.trim(), _limit: limit });
+
+      if (!error) {
+        setResults(data || []);
+      }
+      setSearching(false);
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [query, limit]);
+
+  return { results, searching };
+}
@@ -0,0 +1,27 @@
+import { useEffect } from 'react';
+import { isTypingTarget } from '@/lib/keyboard-shortcuts';
+
+type ShortcutHandlers = Record<string, (e: KeyboardEvent) => void>;
+
+// Single-key shortcuts keyed by KeyboardEvent.key. They are ignored while typing,
+// with a modifier held, or while a dialog is open on top of the page.
+export function useKeyboardShortcuts(handlers: ShortcutHandlers, enabled = true) {
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey) return;
+      if (isTypingTarget(e.target)) return;
+      if (document.querySelector('[role="dialog"], [role="alertdialog"]')) return;
+
+      const handler = handlers[e.key];
+      if (handler) {
+        e.preventDefault();
+        handler(e);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handlers, enabled]);
+}
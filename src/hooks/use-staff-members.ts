@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface StaffMember {
+  id: string;
+  name: string;
+  email: string;
+  is_available: boolean;
+}
+
+export function useStaffMembers(enabled = true) {
+  const [staffMembers, setStaffMembers] = useState<StaffMember[]>([]);
+
+  const refresh = useCallback(async () => {
+    const { data: staffRoles } = await supabase
+      .from('user_roles')
+      .select('user_id')
+      .in('role', ['staff', 'admin']);
+
+    const staffIds = staffRoles?.map(r => r.user_id) || [];
+
+    const { data: profiles } = await supabase
+      .from('profiles')
+      .select('id, name, email, is_available')
+      .in('id', staffIds)
+      .order('name');
+
+    setStaffMembers(profiles || []);
+  }, []);
+
+  useEffect(() => {
+    if (enabled) {
+      refresh();
+    }
+  }, [enabled, refresh]);
+
+  return { staffMembers, refresh };
+}
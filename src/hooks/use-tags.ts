@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { TicketTag } from '@/lib/tickets';
+
+export function useTags(enabled = true) {
+  const [tags, setTags] = useState<TicketTag[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!enabled) return;
+
+    const { data } = await supabase
+      .from('tags')
+      .select('id, name')
+      .order('name');
+
+    setTags(data || []);
+  }, [enabled]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { tags, refresh };
+}
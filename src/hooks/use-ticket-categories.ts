@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { TicketCategory } from '@/lib/tickets';
+
+export function useTicketCategories(includeInactive = false) {
+  const [categories, setCategories] = useState<TicketCategory[]>([]);
+
+  const refresh = useCallback(async () => {
+    let query = supabase
+      .from('ticket_categories')
+      .select('id, name, parent_id, is_active, sort_order')
+      .order('sort_order')
+      .order('name');
+
+    if (!includeInactive) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data } = await query;
+    setCategories(data || []);
+  }, [includeInactive]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const topLevelCategories = categories.filter(c => !c.parent_id);
+  const subcategoriesOf = (categoryId: string | null) =>
+    categoryId ? categories.filter(c => c.parent_id === categoryId) : [];
+
+  return { categories, topLevelCategories, subcategoriesOf, refresh };
+}
@@ -0,0 +1,155 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { subDays } from 'date-fns';
+import { TicketPriority, TicketSort, TicketStatus } from '@/lib/tickets';
+
+export const TICKET_PAGE_SIZE = 25;
+
+const SORT_COLUMNS: Record<TicketSort, { column: 'created_at' | 'last_activity_at' | 'sla_due_at'; ascending: boolean }> = {
+  newest: { column: 'created_at', ascending: false },
+  oldest: { column: 'created_at', ascending: true },
+  last_activity: { column: 'last_activity_at', ascending: false },
+  sla_due: { column: 'sla_due_at', ascending: true },
+};
+
+export interface TicketListFilters {
+  status?: TicketStatus;
+  categoryId?: string;
+  tagId?: string;
+  priority?: TicketPriority;
+  olderThanDays?: number;
+  // null lists unassigned tickets; leave undefined for any assignee
+  assigneeId?: string | null;
+}
+
+// Shared by the list and the view counts so both always agree on what a filter matches
+function ticketFilterConditions(filters: TicketListFilters) {
+  const { status, categoryId, tagId, priority, olderThanDays, assigneeId } = filters;
+  const conditions: [string, string, string][] = [];
+
+  if (status) conditions.push(['status', 'eq', status]);
+  if (categoryId) conditions.push(['category_id', 'eq', categoryId]);
+  if (tagId) conditions.push(['tag_filter.tag_id', 'eq', tagId]);
+  if (priority) conditions.push(['priority', 'eq', priority]);
+  // The cutoff is taken at query time so a long-open dashboard stays accurate
+  if (olderThanDays) conditions.push(['created_at', 'lt', subDays(new Date(), olderThanDays).toISOString()]);
+  if (assigneeId === null) conditions.push(['assignee_id', 'is', 'null']);
+  if (assigneeId) conditions.push(['assignee_id', 'eq', assigneeId]);
+
+  return conditions;
+}
+
+// Tag filtering goes through its own inner embed so any displayed tags stay complete
+const withTagFilter = (select: string, filters: TicketListFilters) =>
+  filters.tagId ? `${select}, tag_filter:ticket_tags!inner(tag_id)` : select;
+
+export async function countTickets(filters: TicketListFilters) {
+  let query = supabase
+    .from('ticket_list')
+    .select(withTagFilter('id', filters), { count: 'exact', head: true });
+
+  for (const [column, operator, value] of ticketFilterConditions(filters)) {
+    query = query.filter(column, operator, value);
+  }
+
+  const { count } = await query;
+  return count ?? 0;
+}
+
+interface TicketListRow {
+  id: string;
+  created_at: string;
+  last_activity_at: string;
+  sla_due_at: string;
+}
+
+interface Cursor {
+  value: string;
+  id: string;
+}
+
+// Pages through the ticket_list view with a keyset cursor on the sort column and id,
+// so new tickets arriving at the top never shift or repeat the pages already loaded
+export function useTicketList<T extends TicketListRow>(
+  select: string,
+  filters: TicketListFilters,
+  sort: TicketSort,
+  enabled = true
+) {
+  const { toast } = useToast();
+  const [tickets, setTickets] = useState<T[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const loadedCount = useRef(0);
+  const { status, categoryId, tagId, priority, olderThanDays, assigneeId } = filters;
+
+  const fetchPage = useCallback(async (cursor: Cursor | null, limit: number) => {
+    const { column, ascending } = SORT_COLUMNS[sort];
+
+    const pageFilters = { status, categoryId, tagId, priority, olderThanDays, assigneeId };
+    let query = supabase
+      .from('ticket_list')
+      .select(withTagFilter(select, pageFilters))
+      .order(column, { ascending })
+      .order('id', { ascending })
+      .limit(limit + 1);
+
+    for (const [filterColumn, operator, value] of ticketFilterConditions(pageFilters)) {
+      query = query.filter(filterColumn, operator, value);
+    }
+
+    if (cursor) {
+      const op = ascending ? 'gt' : 'lt';
+      query = query.or(`${column}.${op}."${cursor.value}",and(${column}.eq."${cursor.value}",id.${op}.${cursor.id})`);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      toast({ title: 'Error fetching tickets', description: error.message, variant: 'destructive' });
+      return null;
+    }
+
+    const rows = (data || []) as unknown as T[];
+    return { rows: rows.slice(0, limit), hasMore: rows.length > limit };
+  }, [select, sort, status, categoryId, tagId, priority, olderThanDays, assigneeId, toast]);
+
+  // Reloads everything already on screen, e.g. after a realtime change
+  const refresh = useCallback(async () => {
+    const page = await fetchPage(null, Math.max(TICKET_PAGE_SIZE, loadedCount.current));
+    if (page) {
+      setTickets(page.rows);
+      setHasMore(page.hasMore);
+      loadedCount.current = page.rows.length;
+    }
+    setLoading(false);
+  }, [fetchPage]);
+
+  const loadMore = async () => {
+    const last = tickets[tickets.length - 1];
+    if (!last || loadingMore) return;
+
+    setLoadingMore(true);
+    const { column } = SORT_COLUMNS[sort];
+    const page = await fetchPage({ value: last[column], id: last.id }, TICKET_PAGE_SIZE);
+    if (page) {
+      setTickets(prev => [...prev, ...page.rows]);
+      setHasMore(page.hasMore);
+      loadedCount.current += page.rows.length;
+    }
+    setLoadingMore(false);
+  };
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    // A new sort or filter starts again from the first page
+    loadedCount.current = 0;
+    setLoading(true);
+    refresh();
+  }, [enabled, refresh]);
+
+  return { tickets, loading, loadingMore, hasMore, loadMore, refresh };
+}
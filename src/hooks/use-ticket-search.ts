@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { TicketSearchResult } from '@/lib/tickets';
+
+// Searches as the user types, waiting for a pause so every keystroke is not a query
+export function useTicketSearch(query: string, limit = 20) {
+  const [results, setResults] = useState<TicketSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    if (query.trim().length < 2) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    setSearching(true);
+    const timeout = setTimeout(async () => {
+      const { data, error } = await supabase.rpc('search_tickets', { _query: query.trim(), _limit: limit });
+
+      if (!error) {
+        setResults((data || []) as TicketSearchResult[]);
+      }
+      setSearching(false);
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [query, limit]);
+
+  return { results, searching };
+}
@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+// Unread replies across the tickets the user follows, kept live as messages
+// arrive and as tickets are read in other tabs
+export function useUnreadCount(userId: string | undefined) {
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+
+    const { data, error } = await supabase.rpc('unread_message_count');
+
+    if (!error) {
+      setUnreadCount(data ?? 0);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    refresh();
+
+    // Staff receive every reply across the queue, so bursts of messages are
+    // recounted at most once a second instead of once per message
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    const scheduleRefresh = () => {
+      if (timeout) return;
+      timeout = setTimeout(() => {
+        timeout = undefined;
+        refresh();
+      }, 1000);
+    };
+
+    const channel = supabase
+      .channel(`unread-count-${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'messages'
+        },
+        scheduleRefresh
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'ticket_reads',
+          filter: `user_id=eq.${userId}`
+        },
+        refresh
+      )
+      .subscribe();
+
+    return () => {
+      clearTimeout(timeout);
+      supabase.removeChannel(channel);
+    };
+  }, [userId, refresh]);
+
+  return { unreadCount, refresh };
+}
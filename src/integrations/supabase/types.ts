@@ -14,215 +14,1693 @@ export type Database = {
   }
   public: {
     Tables: {
-      media_assets: {
+      canned_responses: {
         Row: {
+          add_tag_id: string | null
+          content: string
           created_at: string
-          file_type: string
           id: string
-          message_id: string
-          storage_path: string
+          is_shared: boolean
+          owner_id: string
+          set_priority: Database["public"]["Enums"]["ticket_priority"] | null
+          set_status: Database["public"]["Enums"]["ticket_status"] | null
+          shortcut: string | null
+          title: string
+          updated_at: string
         }
         Insert: {
+          add_tag_id?: string | null
+          content: string
           created_at?: string
-          file_type: string
           id?: string
-          message_id: string
-          storage_path: string
+          is_shared?: boolean
+          owner_id: string
+          set_priority?: Database["public"]["Enums"]["ticket_priority"] | null
+          set_status?: Database["public"]["Enums"]["ticket_status"] | null
+          shortcut?: string | null
+          title: string
+          updated_at?: string
         }
         Update: {
+          add_tag_id?: string | null
+          content?: string
           created_at?: string
-          file_type?: string
           id?: string
-          message_id?: string
-          storage_path?: string
+          is_shared?: boolean
+          owner_id?: string
+          set_priority?: Database["public"]["Enums"]["ticket_priority"] | null
+          set_status?: Database["public"]["Enums"]["ticket_status"] | null
+          shortcut?: string | null
+          title?: string
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "media_assets_message_id_fkey"
-            columns: ["message_id"]
+            foreignKeyName: "canned_responses_add_tag_id_fkey"
+            columns: ["add_tag_id"]
             isOneToOne: false
-            referencedRelation: "messages"
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "canned_responses_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
       }
-      messages: {
+      category_team_members: {
         Row: {
-          content: string | null
+          category_id: string
           created_at: string
-          id: string
-          message_type: string
-          sender_id: string
+          staff_id: string
+        }
+        Insert: {
+          category_id: string
+          created_at?: string
+          staff_id: string
+        }
+        Update: {
+          category_id?: string
+          created_at?: string
+          staff_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "category_team_members_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "category_team_members_staff_id_fkey"
+            columns: ["staff_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      confidential_reviewers: {
+        Row: {
+          added_by: string | null
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          added_by?: string | null
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          added_by?: string | null
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "confidential_reviewers_added_by_fkey"
+            columns: ["added_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "confidential_reviewers_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      kb_article_sources: {
+        Row: {
+          article_id: string
+          created_at: string
+          message_ids: string[]
+          published_by: string | null
           ticket_id: string
-          transcript: string | null
         }
         Insert: {
-          content?: string | null
+          article_id: string
           created_at?: string
-          id?: string
-          message_type: string
-          sender_id: string
+          message_ids?: string[]
+          published_by?: string | null
           ticket_id: string
-          transcript?: string | null
         }
         Update: {
-          content?: string | null
+          article_id?: string
           created_at?: string
-          id?: string
-          message_type?: string
-          sender_id?: string
+          message_ids?: string[]
+          published_by?: string | null
           ticket_id?: string
-          transcript?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "messages_sender_id_fkey"
-            columns: ["sender_id"]
+            foreignKeyName: "kb_article_sources_article_id_fkey"
+            columns: ["article_id"]
+            isOneToOne: true
+            referencedRelation: "kb_articles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kb_article_sources_published_by_fkey"
+            columns: ["published_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "messages_ticket_id_fkey"
+            foreignKeyName: "kb_article_sources_ticket_id_fkey"
             columns: ["ticket_id"]
             isOneToOne: false
             referencedRelation: "tickets"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "kb_article_sources_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_details"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kb_article_sources_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_list"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      profiles: {
+      kb_article_views: {
         Row: {
+          article_id: string
           created_at: string
-          email: string
+          draft_id: string | null
           id: string
-          name: string
+          source: string
+          ticket_id: string | null
+          viewer_id: string | null
         }
         Insert: {
+          article_id: string
           created_at?: string
-          email: string
-          id: string
-          name: string
+          draft_id?: string | null
+          id?: string
+          source: string
+          ticket_id?: string | null
+          viewer_id?: string | null
         }
         Update: {
+          article_id?: string
           created_at?: string
-          email?: string
+          draft_id?: string | null
           id?: string
-          name?: string
+          source?: string
+          ticket_id?: string | null
+          viewer_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "kb_article_views_article_id_fkey"
+            columns: ["article_id"]
+            isOneToOne: false
+            referencedRelation: "kb_articles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kb_article_views_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kb_article_views_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_details"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kb_article_views_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_list"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kb_article_views_viewer_id_fkey"
+            columns: ["viewer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      security_audit_log: {
+      kb_articles: {
         Row: {
-          action: string
-          created_at: string | null
-          details: Json | null
+          author_id: string | null
+          body: string
+          category_id: string | null
+          created_at: string
           id: string
-          ip_address: string | null
-          user_id: string | null
+          is_published: boolean
+          search: unknown | null
+          slug: string
+          title: string
+          updated_at: string
+          updated_by: string | null
         }
         Insert: {
-          action: string
-          created_at?: string | null
-          details?: Json | null
+          author_id?: string | null
+          body: string
+          category_id?: string | null
+          created_at?: string
           id?: string
-          ip_address?: string | null
-          user_id?: string | null
+          is_published?: boolean
+          search?: unknown | null
+          slug: string
+          title: string
+          updated_at?: string
+          updated_by?: string | null
         }
         Update: {
-          action?: string
-          created_at?: string | null
-          details?: Json | null
+          author_id?: string | null
+          body?: string
+          category_id?: string | null
+          created_at?: string
           id?: string
-          ip_address?: string | null
-          user_id?: string | null
+          is_published?: boolean
+          search?: unknown | null
+          slug?: string
+          title?: string
+          updated_at?: string
+          updated_by?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "kb_articles_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kb_articles_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "kb_articles_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      tickets: {
+      media_assets: {
         Row: {
           created_at: string
+          file_type: string
           id: string
-          status: Database["public"]["Enums"]["ticket_status"]
-          student_id: string
-          subject: string
-          updated_at: string
+          message_id: string
+          storage_path: string
         }
         Insert: {
           created_at?: string
+          file_type: string
           id?: string
-          status?: Database["public"]["Enums"]["ticket_status"]
-          student_id: string
-          subject: string
-          updated_at?: string
+          message_id: string
+          storage_path: string
         }
         Update: {
           created_at?: string
+          file_type?: string
           id?: string
-          status?: Database["public"]["Enums"]["ticket_status"]
-          student_id?: string
-          subject?: string
-          updated_at?: string
+          message_id?: string
+          storage_path?: string
         }
         Relationships: [
           {
-            foreignKeyName: "tickets_student_id_fkey"
-            columns: ["student_id"]
+            foreignKeyName: "media_assets_message_id_fkey"
+            columns: ["message_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "media_assets_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "message_details"
             referencedColumns: ["id"]
           },
         ]
       }
-      user_roles: {
+      message_revisions: {
         Row: {
+          action: string
+          content: string | null
           created_at: string
           id: string
-          role: Database["public"]["Enums"]["app_role"]
-          user_id: string
+          message_id: string
+          revised_by: string | null
         }
         Insert: {
+          action: string
+          content?: string | null
           created_at?: string
           id?: string
-          role: Database["public"]["Enums"]["app_role"]
-          user_id: string
+          message_id: string
+          revised_by?: string | null
         }
         Update: {
+          action?: string
+          content?: string | null
           created_at?: string
           id?: string
-          role?: Database["public"]["Enums"]["app_role"]
-          user_id?: string
+          message_id?: string
+          revised_by?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "user_roles_user_id_fkey"
-            columns: ["user_id"]
+            foreignKeyName: "message_revisions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_revisions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "message_details"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_revisions_revised_by_fkey"
+            columns: ["revised_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
         ]
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      can_invite_staff: { Args: { _user_id: string }; Returns: boolean }
-      has_role: {
-        Args: {
-          _role: Database["public"]["Enums"]["app_role"]
-          _user_id: string
+      messages: {
+        Row: {
+          content: string | null
+          created_at: string
+          deleted_at: string | null
+          edited_at: string | null
+          id: string
+          is_internal: boolean
+          message_type: string
+          search: unknown | null
+          sender_id: string | null
+          ticket_id: string
+          transcript: string | null
         }
-        Returns: boolean
-      }
+        Insert: {
+          content?: string | null
+          created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
+          id?: string
+          is_internal?: boolean
+          message_type: string
+          search?: unknown | null
+          sender_id?: string | null
+          ticket_id: string
+          transcript?: string | null
+        }
+        Update: {
+          content?: string | null
+          created_at?: string
+          deleted_at?: string | null
+          edited_at?: string | null
+          id?: string
+          is_internal?: boolean
+          message_type?: string
+          search?: unknown | null
+          sender_id?: string | null
+          ticket_id?: string
+          transcript?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_sender_id_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_details"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_list"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          is_available: boolean
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id: string
+          is_available?: boolean
+          name: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          is_available?: boolean
+          name?: string
+        }
+        Relationships: []
+      }
+      routing_settings: {
+        Row: {
+          id: boolean
+          last_assigned_staff_id: string | null
+          mode: string
+          updated_at: string
+        }
+        Insert: {
+          id?: boolean
+          last_assigned_staff_id?: string | null
+          mode?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: boolean
+          last_assigned_staff_id?: string | null
+          mode?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "routing_settings_last_assigned_staff_id_fkey"
+            columns: ["last_assigned_staff_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_ticket_view_pins: {
+        Row: {
+          created_at: string
+          user_id: string
+          view_id: string
+        }
+        Insert: {
+          created_at?: string
+          user_id: string
+          view_id: string
+        }
+        Update: {
+          created_at?: string
+          user_id?: string
+          view_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_ticket_view_pins_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "saved_ticket_view_pins_view_id_fkey"
+            columns: ["view_id"]
+            isOneToOne: false
+            referencedRelation: "saved_ticket_views"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      saved_ticket_views: {
+        Row: {
+          created_at: string
+          id: string
+          is_shared: boolean
+          name: string
+          owner_id: string
+          query: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_shared?: boolean
+          name: string
+          owner_id: string
+          query?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_shared?: boolean
+          name?: string
+          owner_id?: string
+          query?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_ticket_views_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      security_audit_log: {
+        Row: {
+          action: string
+          created_at: string | null
+          details: Json | null
+          id: string
+          ip_address: string | null
+          user_id: string | null
+        }
+        Insert: {
+          action: string
+          created_at?: string | null
+          details?: Json | null
+          id?: string
+          ip_address?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          action?: string
+          created_at?: string | null
+          details?: Json | null
+          id?: string
+          ip_address?: string | null
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      sla_policies: {
+        Row: {
+          category_id: string | null
+          created_at: string
+          first_response_minutes: number
+          id: string
+          priority: Database["public"]["Enums"]["ticket_priority"]
+          resolution_minutes: number
+          updated_at: string
+        }
+        Insert: {
+          category_id?: string | null
+          created_at?: string
+          first_response_minutes: number
+          id?: string
+          priority: Database["public"]["Enums"]["ticket_priority"]
+          resolution_minutes: number
+          updated_at?: string
+        }
+        Update: {
+          category_id?: string | null
+          created_at?: string
+          first_response_minutes?: number
+          id?: string
+          priority?: Database["public"]["Enums"]["ticket_priority"]
+          resolution_minutes?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sla_policies_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tags: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tags_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_categories: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          parent_id: string | null
+          sort_order: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          parent_id?: string | null
+          sort_order?: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          parent_id?: string | null
+          sort_order?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_escalations: {
+        Row: {
+          created_at: string
+          escalated_by: string | null
+          id: string
+          level: Database["public"]["Enums"]["escalation_level"]
+          reason: string
+          ticket_id: string
+        }
+        Insert: {
+          created_at?: string
+          escalated_by?: string | null
+          id?: string
+          level: Database["public"]["Enums"]["escalation_level"]
+          reason: string
+          ticket_id: string
+        }
+        Update: {
+          created_at?: string
+          escalated_by?: string | null
+          id?: string
+          level?: Database["public"]["Enums"]["escalation_level"]
+          reason?: string
+          ticket_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_escalations_escalated_by_fkey"
+            columns: ["escalated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_escalations_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_escalations_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_details"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_escalations_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_list"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_events: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          event_type: string
+          id: string
+          new_value: string | null
+          old_value: string | null
+          ticket_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          event_type: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+          ticket_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          event_type?: string
+          id?: string
+          new_value?: string | null
+          old_value?: string | null
+          ticket_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_events_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_events_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_events_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_details"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_events_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_list"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_participants: {
+        Row: {
+          added_by: string | null
+          created_at: string
+          joined_via: string
+          student_id: string
+          ticket_id: string
+        }
+        Insert: {
+          added_by?: string | null
+          created_at?: string
+          joined_via: string
+          student_id: string
+          ticket_id: string
+        }
+        Update: {
+          added_by?: string | null
+          created_at?: string
+          joined_via?: string
+          student_id?: string
+          ticket_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_participants_added_by_fkey"
+            columns: ["added_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_participants_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_participants_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_participants_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_details"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_participants_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_list"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_ratings: {
+        Row: {
+          comment: string | null
+          created_at: string
+          id: string
+          rating: number
+          resolved_by: string | null
+          student_id: string
+          ticket_id: string
+          updated_at: string
+        }
+        Insert: {
+          comment?: string | null
+          created_at?: string
+          id?: string
+          rating: number
+          resolved_by?: string | null
+          student_id: string
+          ticket_id: string
+          updated_at?: string
+        }
+        Update: {
+          comment?: string | null
+          created_at?: string
+          id?: string
+          rating?: number
+          resolved_by?: string | null
+          student_id?: string
+          ticket_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_ratings_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_ratings_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_ratings_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: true
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_ratings_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: true
+            referencedRelation: "ticket_details"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_ratings_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: true
+            referencedRelation: "ticket_list"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_reads: {
+        Row: {
+          last_read_at: string
+          ticket_id: string
+          user_id: string
+        }
+        Insert: {
+          last_read_at?: string
+          ticket_id: string
+          user_id: string
+        }
+        Update: {
+          last_read_at?: string
+          ticket_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_reads_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_reads_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_details"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_reads_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_list"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_reads_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_settings: {
+        Row: {
+          auto_close_after_days: number
+          id: boolean
+          message_edit_window_minutes: number
+          reminder_after_days: number
+          reopen_window_days: number
+          updated_at: string
+        }
+        Insert: {
+          auto_close_after_days?: number
+          id?: boolean
+          message_edit_window_minutes?: number
+          reminder_after_days?: number
+          reopen_window_days?: number
+          updated_at?: string
+        }
+        Update: {
+          auto_close_after_days?: number
+          id?: boolean
+          message_edit_window_minutes?: number
+          reminder_after_days?: number
+          reopen_window_days?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      ticket_tags: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          tag_id: string
+          ticket_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          tag_id: string
+          ticket_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          tag_id?: string
+          ticket_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_tags_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_tags_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_tags_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_details"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_tags_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_list"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tickets: {
+        Row: {
+          assignee_id: string | null
+          awaiting_student_since: string | null
+          category_id: string | null
+          created_at: string
+          escalated_at: string | null
+          escalation_level: Database["public"]["Enums"]["escalation_level"] | null
+          finalized_at: string | null
+          first_responded_at: string | null
+          first_response_due_at: string | null
+          id: string
+          is_confidential: boolean
+          last_reminder_at: string | null
+          merged_into_id: string | null
+          number: number
+          priority: Database["public"]["Enums"]["ticket_priority"]
+          pseudonym: string | null
+          reopen_count: number
+          resolution_due_at: string | null
+          resolved_by: string | null
+          search: unknown | null
+          status: Database["public"]["Enums"]["ticket_status"]
+          student_id: string
+          subcategory_id: string | null
+          subject: string
+          updated_at: string
+        }
+        Insert: {
+          assignee_id?: string | null
+          awaiting_student_since?: string | null
+          category_id?: string | null
+          created_at?: string
+          escalated_at?: string | null
+          escalation_level?: Database["public"]["Enums"]["escalation_level"] | null
+          finalized_at?: string | null
+          first_responded_at?: string | null
+          first_response_due_at?: string | null
+          id?: string
+          is_confidential?: boolean
+          last_reminder_at?: string | null
+          merged_into_id?: string | null
+          number?: never
+          priority?: Database["public"]["Enums"]["ticket_priority"]
+          pseudonym?: string | null
+          reopen_count?: number
+          resolution_due_at?: string | null
+          resolved_by?: string | null
+          search?: unknown | null
+          status?: Database["public"]["Enums"]["ticket_status"]
+          student_id: string
+          subcategory_id?: string | null
+          subject: string
+          updated_at?: string
+        }
+        Update: {
+          assignee_id?: string | null
+          awaiting_student_since?: string | null
+          category_id?: string | null
+          created_at?: string
+          escalated_at?: string | null
+          escalation_level?: Database["public"]["Enums"]["escalation_level"] | null
+          finalized_at?: string | null
+          first_responded_at?: string | null
+          first_response_due_at?: string | null
+          id?: string
+          is_confidential?: boolean
+          last_reminder_at?: string | null
+          merged_into_id?: string | null
+          number?: never
+          priority?: Database["public"]["Enums"]["ticket_priority"]
+          pseudonym?: string | null
+          reopen_count?: number
+          resolution_due_at?: string | null
+          resolved_by?: string | null
+          search?: unknown | null
+          status?: Database["public"]["Enums"]["ticket_status"]
+          student_id?: string
+          subcategory_id?: string | null
+          subject?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tickets_assignee_id_fkey"
+            columns: ["assignee_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tickets_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tickets_merged_into_id_fkey"
+            columns: ["merged_into_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tickets_merged_into_id_fkey"
+            columns: ["merged_into_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_details"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tickets_merged_into_id_fkey"
+            columns: ["merged_into_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_list"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tickets_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tickets_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tickets_subcategory_id_fkey"
+            columns: ["subcategory_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_roles_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      kb_article_stats: {
+        Row: {
+          article_id: string | null
+          deflections: number | null
+          suggestion_opens: number | null
+          views: number | null
+        }
+        Relationships: []
+      }
+      message_details: {
+        Row: {
+          content: string | null
+          created_at: string | null
+          deleted_at: string | null
+          edited_at: string | null
+          id: string | null
+          is_internal: boolean | null
+          is_ticket_student: boolean | null
+          message_type: string | null
+          search: unknown | null
+          sender_id: string | null
+          sender_name: string | null
+          ticket_id: string | null
+          transcript: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_details"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_list"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_details: {
+        Row: {
+          assignee_id: string | null
+          awaiting_student_since: string | null
+          category_id: string | null
+          created_at: string | null
+          escalated_at: string | null
+          escalation_level: Database["public"]["Enums"]["escalation_level"] | null
+          finalized_at: string | null
+          first_responded_at: string | null
+          first_response_due_at: string | null
+          id: string | null
+          is_confidential: boolean | null
+          last_reminder_at: string | null
+          merged_into_id: string | null
+          number: number | null
+          priority: Database["public"]["Enums"]["ticket_priority"] | null
+          pseudonym: string | null
+          reopen_count: number | null
+          resolution_due_at: string | null
+          resolved_by: string | null
+          search: unknown | null
+          status: Database["public"]["Enums"]["ticket_status"] | null
+          student_id: string | null
+          student_name: string | null
+          subcategory_id: string | null
+          subject: string | null
+          updated_at: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tickets_assignee_id_fkey"
+            columns: ["assignee_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tickets_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tickets_merged_into_id_fkey"
+            columns: ["merged_into_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tickets_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tickets_subcategory_id_fkey"
+            columns: ["subcategory_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_event_details: {
+        Row: {
+          actor_id: string | null
+          actor_name: string | null
+          created_at: string | null
+          event_type: string | null
+          id: string | null
+          is_ticket_student: boolean | null
+          new_value: string | null
+          old_value: string | null
+          ticket_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ticket_events_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_details"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_events_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_list"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ticket_events_ticket_id_fkey"
+            columns: ["ticket_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ticket_list: {
+        Row: {
+          assignee_id: string | null
+          awaiting_student_since: string | null
+          category_id: string | null
+          created_at: string | null
+          escalated_at: string | null
+          escalation_level: Database["public"]["Enums"]["escalation_level"] | null
+          finalized_at: string | null
+          first_responded_at: string | null
+          first_response_due_at: string | null
+          id: string | null
+          is_confidential: boolean | null
+          last_activity_at: string | null
+          last_reminder_at: string | null
+          merged_into_id: string | null
+          message_count: number | null
+          number: number | null
+          priority: Database["public"]["Enums"]["ticket_priority"] | null
+          pseudonym: string | null
+          reopen_count: number | null
+          resolution_due_at: string | null
+          resolved_by: string | null
+          search: unknown | null
+          sla_due_at: string | null
+          status: Database["public"]["Enums"]["ticket_status"] | null
+          student_id: string | null
+          student_name: string | null
+          subcategory_id: string | null
+          subject: string | null
+          unread_count: number | null
+          updated_at: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tickets_assignee_id_fkey"
+            columns: ["assignee_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tickets_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tickets_merged_into_id_fkey"
+            columns: ["merged_into_id"]
+            isOneToOne: false
+            referencedRelation: "tickets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tickets_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tickets_subcategory_id_fkey"
+            columns: ["subcategory_id"]
+            isOneToOne: false
+            referencedRelation: "ticket_categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Functions: {
+      bulk_update_tickets: {
+        Args: { _action: string; _params?: Json; _ticket_ids: string[] }
+        Returns: {
+          error_message: string
+          succeeded: boolean
+          ticket_id: string
+        }[]
+      }
+      can_invite_staff: { Args: { _user_id: string }; Returns: boolean }
+      can_staff_access_ticket: {
+        Args: { _ticket_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_view_attachments: {
+        Args: { _message_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_view_profile: {
+        Args: { _profile_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_view_ticket: {
+        Args: { _ticket_id: string; _user_id: string }
+        Returns: boolean
+      }
+      delete_message: { Args: { _message_id: string }; Returns: undefined }
+      edit_message: { Args: { _content: string; _message_id: string }; Returns: undefined }
+      escalate_ticket: {
+        Args: {
+          _level: Database["public"]["Enums"]["escalation_level"]
+          _reason: string
+          _ticket_id: string
+        }
+        Returns: undefined
+      }
+      find_similar_tickets: {
+        Args: { _category_id?: string; _query: string }
+        Returns: {
+          affected_count: number
+          category_name: string
+          created_at: string
+          id: string
+          subject: string
+        }[]
+      }
+      find_student_by_email: {
+        Args: { _email: string }
+        Returns: {
+          email: string
+          id: string
+          name: string
+        }[]
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_confidential_reviewer: { Args: { _user_id: string }; Returns: boolean }
+      is_message_sender: {
+        Args: { _message_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_staff_member: { Args: { _user_id: string }; Returns: boolean }
+      is_ticket_participant: {
+        Args: { _ticket_id: string; _user_id: string }
+        Returns: boolean
+      }
+      join_ticket: { Args: { _ticket_id: string }; Returns: undefined }
+      link_kb_views_to_ticket: {
+        Args: { _draft_id: string; _ticket_id: string }
+        Returns: undefined
+      }
+      lock_own_message: {
+        Args: { _message_id: string }
+        Returns: {
+          content: string | null
+          created_at: string
+          deleted_at: string | null
+          edited_at: string | null
+          id: string
+          is_internal: boolean
+          message_type: string
+          search: unknown | null
+          sender_id: string | null
+          ticket_id: string
+          transcript: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "messages"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
       log_security_event: {
         Args: { _action: string; _details: Json; _ip_address?: string }
         Returns: undefined
       }
+      mark_ticket_read: { Args: { _ticket_id: string }; Returns: string }
+      process_ticket_lifecycle: { Args: never; Returns: undefined }
+      publish_ticket_as_faq: {
+        Args: {
+          _body: string
+          _category_id?: string
+          _is_published: boolean
+          _message_ids: string[]
+          _slug: string
+          _ticket_id: string
+          _title: string
+        }
+        Returns: string
+      }
+      rate_ticket: {
+        Args: { _comment?: string; _rating: number; _ticket_id: string }
+        Returns: undefined
+      }
+      record_kb_article_view: {
+        Args: { _article_id: string; _draft_id?: string; _source: string }
+        Returns: undefined
+      }
+      reopen_ticket: {
+        Args: { _reason: string; _ticket_id: string }
+        Returns: undefined
+      }
+      reveal_ticket_identity: {
+        Args: { _reason: string; _ticket_id: string }
+        Returns: {
+          email: string
+          name: string
+        }[]
+      }
+      search_kb_articles: {
+        Args: { _limit?: number; _query: string }
+        Returns: {
+          excerpt: string
+          id: string
+          is_published: boolean
+          rank: number
+          slug: string
+          title: string
+        }[]
+      }
+      search_tickets: {
+        Args: { _limit?: number; _query: string }
+        Returns: {
+          matched_in: string
+          message_id: string
+          rank: number
+          snippet: string
+          status: Database["public"]["Enums"]["ticket_status"]
+          subject: string
+          ticket_created_at: string
+          ticket_id: string
+        }[]
+      }
+      ticket_member_id: {
+        Args: { _ticket_id: string; _user_id: string }
+        Returns: string
+      }
+      ticket_member_name: {
+        Args: { _ticket_id: string; _user_id: string }
+        Returns: string
+      }
+      ticket_queue_counts: {
+        Args: {
+          _category_id?: string
+          _created_before?: string
+          _priority?: Database["public"]["Enums"]["ticket_priority"]
+          _tag_id?: string
+        }
+        Returns: {
+          assignee_id: string
+          is_awaiting: boolean
+          status: Database["public"]["Enums"]["ticket_status"]
+          ticket_count: number
+        }[]
+      }
+      unread_message_count: { Args: never; Returns: number }
+      update_ticket: {
+        Args: { _changes: Json; _ticket_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "student" | "staff" | "admin"
+      escalation_level: "senior_staff" | "admin"
+      ticket_priority: "low" | "normal" | "high" | "urgent"
       ticket_status: "pending" | "in_progress" | "completed"
     }
     CompositeTypes: {
@@ -352,6 +1830,8 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["student", "staff", "admin"],
+      escalation_level: ["senior_staff", "admin"],
+      ticket_priority: ["low", "normal", "high", "urgent"],
       ticket_status: ["pending", "in_progress", "completed"],
     },
   },
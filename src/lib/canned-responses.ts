@@ -0,0 +1,34 @@
+import { TicketPriority, TicketStatus } from '@/lib/tickets';
+
+export interface CannedResponse {
+  id: string;
+  owner_id: string;
+  is_shared: boolean;
+  title: string;
+  shortcut: string | null;
+  content: string;
+  set_status: TicketStatus | null;
+  set_priority: TicketPriority | null;
+  add_tag_id: string | null;
+}
+
+export interface CannedResponseContext {
+  studentName: string;
+  ticketSubject: string;
+}
+
+export const CANNED_RESPONSE_PLACEHOLDERS = ['{{student.name}}', '{{ticket.subject}}'];
+
+// Unknown placeholders are left as typed so mistakes stay visible in the draft
+export function renderCannedResponse(content: string, context: CannedResponseContext) {
+  const values: Record<string, string> = {
+    'student.name': context.studentName,
+    'ticket.subject': context.ticketSubject,
+  };
+
+  return content.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, key: string) => values[key] ?? match);
+}
+
+export function hasMacroActions(response: CannedResponse) {
+  return response.set_status !== null || response.set_priority !== null || response.add_tag_id !== null;
+}
@@ -0,0 +1,52 @@
+export interface KeyboardShortcut {
+  keys: string[];
+  description: string;
+}
+
+export interface KeyboardShortcutGroup {
+  title: string;
+  shortcuts: KeyboardShortcut[];
+}
+
+// Listed in the cheat-sheet dialog; keep in step with the handlers on each page
+export const KEYBOARD_SHORTCUT_GROUPS: KeyboardShortcutGroup[] = [
+  {
+    title: 'Anywhere',
+    shortcuts: [
+      { keys: ['Ctrl', 'K'], description: 'Open the command palette' },
+      { keys: ['?'], description: 'Show keyboard shortcuts' },
+    ],
+  },
+  {
+    title: 'Ticket list',
+    shortcuts: [
+      { keys: ['j'], description: 'Next ticket' },
+      { keys: ['k'], description: 'Previous ticket' },
+      { keys: ['o'], description: 'Open ticket' },
+      { keys: ['x'], description: 'Select ticket for bulk actions' },
+      { keys: ['r'], description: 'Open ticket and reply' },
+      { keys: ['e'], description: 'Complete ticket' },
+      { keys: ['a'], description: 'Assign ticket to me' },
+    ],
+  },
+  {
+    title: 'Ticket',
+    shortcuts: [
+      { keys: ['r'], description: 'Reply' },
+      { keys: ['e'], description: 'Complete ticket' },
+      { keys: ['a'], description: 'Assign ticket to me' },
+    ],
+  },
+];
+
+// Ticket numbers can be typed with or without the leading "#"
+export function parseTicketNumber(query: string) {
+  const match = query.trim().match(/^#?(\d+)$/);
+  return match ? Number(match[1]) : null;
+}
+
+// Single-key shortcuts must not fire while the user is typing
+export function isTypingTarget(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
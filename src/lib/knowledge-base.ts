@@ -0,0 +1,61 @@
+export interface KbArticle {
+  id: string;
+  title: string;
+  slug: string;
+  body: string;
+  category_id: string | null;
+  is_published: boolean;
+  updated_at: string;
+}
+
+export interface KbSearchResult {
+  id: string;
+  title: string;
+  slug: string;
+  excerpt: string;
+  is_published: boolean;
+}
+
+export type KbViewSource = 'help_center' | 'new_ticket';
+
+export function slugify(title: string) {
+  return title
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9\s-]/g, '')
+    .trim()
+    .replace(/[\s-]+/g, '-')
+    .slice(0, 80)
+    .replace(/-$/, '');
+}
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+const PHONE_PATTERN = /\+?\d[\d\s().-]{6,}\d/g;
+// Dates and short reference numbers also match the phone pattern, so require a phone-length run of digits
+const MIN_PHONE_DIGITS = 10;
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Best-effort removal of personal details before ticket text is published.
+// Names are matched whole and by their parts, since replies usually address people by first name.
+export function scrubPii(text: string, names: string[]) {
+  let scrubbed = text
+    .replace(EMAIL_PATTERN, '[email]')
+    .replace(PHONE_PATTERN, match =>
+      match.replace(/\D/g, '').length >= MIN_PHONE_DIGITS ? '[phone]' : match
+    );
+
+  const nameParts = names
+    .flatMap(name => [name, ...name.split(/\s+/)])
+    .map(part => part.trim())
+    .filter(part => part.length >= 3);
+
+  // Longest first so a full name is replaced once rather than part by part
+  for (const part of [...new Set(nameParts)].sort((a, b) => b.length - a.length)) {
+    scrubbed = scrubbed.replace(new RegExp(`\\b${escapeRegExp(part)}\\b`, 'gi'), '[name]');
+  }
+
+  return scrubbed;
+}
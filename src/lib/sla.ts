@@ -0,0 +1,25 @@
+import { differenceInMinutes } from 'date-fns';
+
+export type SlaState = 'on_track' | 'due_soon' | 'overdue' | 'met' | 'breached';
+
+// Targets due within this many minutes are flagged before they breach
+const DUE_SOON_MINUTES = 60;
+
+export function getSlaState(dueAt: string | null, metAt: string | null, now = new Date()): SlaState | null {
+  if (!dueAt) return null;
+
+  const due = new Date(dueAt);
+  if (metAt) {
+    return new Date(metAt) <= due ? 'met' : 'breached';
+  }
+
+  const minutesLeft = differenceInMinutes(due, now);
+  if (minutesLeft < 0) return 'overdue';
+  if (minutesLeft <= DUE_SOON_MINUTES) return 'due_soon';
+  return 'on_track';
+}
+
+export function isSlaBreached(dueAt: string | null, metAt: string | null, now = new Date()) {
+  const state = getSlaState(dueAt, metAt, now);
+  return state === 'breached' || state === 'overdue';
+}
@@ -0,0 +1,91 @@
+import { TICKET_PRIORITIES, TICKET_SORTS, TICKET_STATUSES, TicketPriority, TicketSort, TicketStatus } from '@/lib/tickets';
+import { TicketListFilters } from '@/hooks/use-ticket-list';
+
+export type QueueScope = 'mine' | 'unassigned' | 'all';
+
+const QUEUE_SCOPES: QueueScope[] = ['mine', 'unassigned', 'all'];
+
+export const TICKET_AGE_FILTER_DAYS = [1, 2, 7, 30];
+
+// Everything that shapes the staff ticket list. It lives in the URL query string,
+// so a view can be bookmarked, shared as a link or saved by name.
+export interface TicketViewState {
+  scope: QueueScope;
+  status: TicketStatus;
+  sort: TicketSort;
+  categoryId: string | null;
+  tagId: string | null;
+  // Only applies to the "all" scope
+  assigneeId: string | null;
+  priority: TicketPriority | null;
+  olderThanDays: number | null;
+}
+
+export const DEFAULT_TICKET_VIEW: TicketViewState = {
+  scope: 'mine',
+  status: 'pending',
+  sort: 'newest',
+  categoryId: null,
+  tagId: null,
+  assigneeId: null,
+  priority: null,
+  olderThanDays: null,
+};
+
+export interface SavedTicketView {
+  id: string;
+  owner_id: string;
+  name: string;
+  query: string;
+  is_shared: boolean;
+}
+
+const oneOf = <T extends string>(value: string | null, options: T[], fallback: T) =>
+  options.includes(value as T) ? (value as T) : fallback;
+
+export function parseTicketView(params: URLSearchParams): TicketViewState {
+  const olderThanDays = Number(params.get('older'));
+  const priority = params.get('priority');
+
+  return {
+    scope: oneOf(params.get('scope'), QUEUE_SCOPES, DEFAULT_TICKET_VIEW.scope),
+    status: oneOf(params.get('status'), TICKET_STATUSES, DEFAULT_TICKET_VIEW.status),
+    sort: oneOf(params.get('sort'), TICKET_SORTS, DEFAULT_TICKET_VIEW.sort),
+    categoryId: params.get('category'),
+    tagId: params.get('tag'),
+    assigneeId: params.get('assignee'),
+    priority: TICKET_PRIORITIES.includes(priority as TicketPriority) ? (priority as TicketPriority) : null,
+    olderThanDays: Number.isInteger(olderThanDays) && olderThanDays > 0 ? olderThanDays : null,
+  };
+}
+
+// Defaults are left out so the plain dashboard keeps a clean URL
+export function serializeTicketView(view: TicketViewState) {
+  const params = new URLSearchParams();
+
+  if (view.scope !== DEFAULT_TICKET_VIEW.scope) params.set('scope', view.scope);
+  if (view.status !== DEFAULT_TICKET_VIEW.status) params.set('status', view.status);
+  if (view.sort !== DEFAULT_TICKET_VIEW.sort) params.set('sort', view.sort);
+  if (view.categoryId) params.set('category', view.categoryId);
+  if (view.tagId) params.set('tag', view.tagId);
+  if (view.scope === 'all' && view.assigneeId) params.set('assignee', view.assigneeId);
+  if (view.priority) params.set('priority', view.priority);
+  if (view.olderThanDays) params.set('older', String(view.olderThanDays));
+
+  return params.toString();
+}
+
+// "Mine" is resolved against whoever opens the view, so shared views work for everyone
+export function toTicketListFilters(view: TicketViewState, userId: string | undefined): TicketListFilters {
+  return {
+    status: view.status,
+    categoryId: view.categoryId ?? undefined,
+    tagId: view.tagId ?? undefined,
+    priority: view.priority ?? undefined,
+    olderThanDays: view.olderThanDays ?? undefined,
+    assigneeId:
+      view.scope === 'mine' ? userId :
+      view.scope === 'unassigned' ? null :
+      view.assigneeId ?? undefined,
+  };
+}
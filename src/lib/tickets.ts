@@ -0,0 +1,112 @@
+import type { Enums } from '@/integrations/supabase/types';
+
+export type TicketStatus = Enums<'ticket_status'>;
+export type TicketPriority = Enums<'ticket_priority'>;
+export type EscalationLevel = Enums<'escalation_level'>;
+
+export const TICKET_STATUSES: TicketStatus[] = ['pending', 'in_progress', 'completed'];
+
+export const TICKET_STATUS_LABELS: Record<TicketStatus, string> = {
+  pending: 'Pending',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+};
+
+export const TICKET_PRIORITIES: TicketPriority[] = ['low', 'normal', 'high', 'urgent'];
+
+export const TICKET_PRIORITY_LABELS: Record<TicketPriority, string> = {
+  low: 'Low',
+  normal: 'Normal',
+  high: 'High',
+  urgent: 'Urgent',
+};
+
+export const ESCALATION_LEVELS: EscalationLevel[] = ['senior_staff', 'admin'];
+
+export const ESCALATION_LEVEL_LABELS: Record<EscalationLevel, string> = {
+  senior_staff: 'Senior Staff',
+  admin: 'Admin',
+};
+
+export type TicketSort = 'newest' | 'oldest' | 'last_activity' | 'sla_due';
+
+export const TICKET_SORTS: TicketSort[] = ['newest', 'oldest', 'last_activity', 'sla_due'];
+
+export const TICKET_SORT_LABELS: Record<TicketSort, string> = {
+  newest: 'Newest first',
+  oldest: 'Oldest first',
+  last_activity: 'Last activity',
+  sla_due: 'SLA due soonest',
+};
+
+export const CSAT_SCORES = [1, 2, 3, 4, 5];
+
+export const CSAT_LABELS: Record<number, string> = {
+  1: 'Very dissatisfied',
+  2: 'Dissatisfied',
+  3: 'Neutral',
+  4: 'Satisfied',
+  5: 'Very satisfied',
+};
+
+// Ratings at or below this are surfaced for follow-up in the analytics
+export const LOW_CSAT_THRESHOLD = 2;
+
+export type TicketEventType = 'created' | 'status_changed' | 'assignee_changed' | 'priority_changed' | 'subject_changed' | 'reopened' | 'escalated' | 'awaiting_student_changed' | 'finalized';
+
+export interface TicketEvent {
+  id: string;
+  ticket_id: string;
+  actor_id: string | null;
+  event_type: TicketEventType;
+  old_value: string | null;
+  new_value: string | null;
+  created_at: string;
+  actor_name: string | null;
+  // Whether the actor is the ticket's student, whose id may be left out
+  is_ticket_student: boolean;
+}
+
+export interface TicketCategory {
+  id: string;
+  name: string;
+  parent_id: string | null;
+  is_active: boolean;
+  sort_order: number;
+}
+
+export interface TicketTag {
+  id: string;
+  name: string;
+}
+
+export interface TicketRating {
+  rating: number;
+  comment: string | null;
+}
+
+interface StudentIdentity {
+  is_confidential: boolean;
+  pseudonym: string | null;
+  student_name: string | null;
+}
+
+// Staff see the pseudonym of confidential tickets instead of the student's name
+export const getStudentDisplayName = (ticket: StudentIdentity) =>
+  ticket.is_confidential ? ticket.pseudonym ?? 'Anonymous student' : ticket.student_name ?? 'Unknown';
+
+export type TicketSearchMatch = 'subject' | 'message' | 'student';
+
+export interface TicketSearchResult {
+  ticket_id: string;
+  subject: string;
+  status: TicketStatus;
+  ticket_created_at: string;
+  message_id: string | null;
+  matched_in: TicketSearchMatch;
+  snippet: string;
+  rank: number;
+}
+
+// search_tickets wraps matched words in these markers instead of HTML tags
+export const SEARCH_HIGHLIGHT_PATTERN = /⟦(.*?)⟧/g;
@@ -12,16 +12,34 @@ import { Button } from '@/components/ui/button';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { BarChart3, Clock, TrendingUp, Users, AlertCircle, CheckCircle, CalendarIcon, Filter, X } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { BarChart3, Clock, TrendingUp, Users, AlertCircle, CheckCircle, CalendarIcon, Filter, Star, X } from 'lucide-react';
 import { LineChart, Line, PieChart, Pie, Cell, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { formatDistanceToNow, format, differenceInHours, subDays, startOfDay, endOfDay } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
+import { useStaffMembers } from '@/hooks/use-staff-members';
+import { useTags } from '@/hooks/use-tags';
 import { cn } from '@/lib/utils';
+import {
+  CSAT_LABELS,
+  ESCALATION_LEVEL_LABELS,
+  LOW_CSAT_THRESHOLD,
+  EscalationLevel,
+  TICKET_PRIORITIES,
+  TICKET_PRIORITY_LABELS,
+  TICKET_STATUSES,
+  TICKET_STATUS_LABELS,
+  TicketPriority,
+  TicketStatus,
+  getStudentDisplayName,
+} from '@/lib/tickets';
+import { isSlaBreached } from '@/lib/sla';
 
 interface TicketMetrics {
   total: number;
   pending: number;
-  resolved: number;
+  inProgress: number;
+  completed: number;
   avgResolutionHours: number;
 }
 
@@ -31,9 +49,11 @@ interface TicketTrend {
 }
 
 interface CommonIssue {
-  subject: string;
+  category: string;
   count: number;
+  affectedStudents: number;
   percentage: number;
+  subcategories: { name: string; count: number }[];
 }
 
 interface StaffPerformance {
@@ -44,6 +64,53 @@ interface StaffPerformance {
   avgResponseMinutes: number;
   resolvedCount: number;
   resolutionRate: number;
+  reopenedCount: number;
+  reopenRate: number;
+  ratingsCount: number;
+  avgCsat: number | null;
+  csatResponseRate: number;
+  lowScores: LowScoreRating[];
+}
+
+interface LowScoreRating {
+  ticketId: string;
+  subject: string;
+  rating: number;
+  comment: string | null;
+  createdAt: string;
+}
+
+interface SlaCompliance {
+  responseTotal: number;
+  responseBreaches: number;
+  resolutionTotal: number;
+  resolutionBreaches: number;
+  byPriority: {
+    priority: TicketPriority;
+    total: number;
+    breaches: number;
+  }[];
+}
+
+interface EscalatedTicket {
+  id: string;
+  subject: string;
+  status: TicketStatus;
+  priority: TicketPriority;
+  escalation_level: EscalationLevel;
+  escalated_at: string | null;
+  is_confidential: boolean;
+  pseudonym: string | null;
+  student_name: string | null;
+  assignee: { name: string } | null;
+  category: { name: string } | null;
+}
+
+interface EscalationsByCategory {
+  category: string;
+  senior_staff: number;
+  admin: number;
+  total: number;
 }
 
 interface FilterState {
@@ -51,17 +118,15 @@ interface FilterState {
     from: Date | null;
     to: Date | null;
   };
-  status: 'all' | 'pending' | 'resolved';
+  status: 'all' | TicketStatus;
   staffMember: string | null;
+  tag: string | null;
 }
 
-interface StaffMember {
-  id: string;
-  name: string;
-  email: string;
-}
+const breachRate = (breaches: number, total: number) =>
+  total > 0 ? parseFloat(((breaches / total) * 100).toFixed(2)) : 0;
 
-const COLORS = ['hsl(var(--primary))', 'hsl(var(--warning))', 'hsl(var(--success))', 'hsl(var(--accent))'];
+const COLORS = ['hsl(var(--warning))', 'hsl(var(--primary))', 'hsl(var(--success))', 'hsl(var(--accent))'];
 
 const AdminDashboard = () => {
   const { userRole, loading: authLoading } = useAuth();
@@ -72,15 +137,21 @@ const AdminDashboard = () => {
   const [ticketTrends, setTicketTrends] = useState<TicketTrend[]>([]);
   const [commonIssues, setCommonIssues] = useState<CommonIssue[]>([]);
   const [staffPerformance, setStaffPerformance] = useState<StaffPerformance[]>([]);
+  const [slaCompliance, setSlaCompliance] = useState<SlaCompliance | null>(null);
+  const [escalationQueue, setEscalationQueue] = useState<EscalatedTicket[]>([]);
+  const [escalationsByCategory, setEscalationsByCategory] = useState<EscalationsByCategory[]>([]);
+  const [lowScoreStaff, setLowScoreStaff] = useState<StaffPerformance | null>(null);
   const [loading, setLoading] = useState(true);
-  const [staffList, setStaffList] = useState<StaffMember[]>([]);
+  const { staffMembers: staffList } = useStaffMembers(!authLoading && userRole === 'admin');
+  const { tags: tagList } = useTags(!authLoading && userRole === 'admin');
   const [filters, setFilters] = useState<FilterState>({
     dateRange: {
       from: subDays(new Date(), 30),
       to: new Date()
     },
     status: 'all',
-    staffMember: null
+    staffMember: null,
+    tag: null
   });
 
   useEffect(() => {
@@ -90,7 +161,6 @@ const AdminDashboard = () => {
     }
     
     if (!authLoading && userRole === 'admin') {
-      loadStaffList();
       fetchAllAnalytics();
       
       // Subscribe to realtime updates
@@ -106,22 +176,6 @@ const AdminDashboard = () => {
     }
   }, [userRole, authLoading, navigate]);
 
-  const loadStaffList = async () => {
-    const { data: staffRoles } = await supabase
-      .from('user_roles')
-      .select('user_id')
-      .in('role', ['staff', 'admin']);
-
-    const staffIds = staffRoles?.map(r => r.user_id) || [];
-
-    const { data: profiles } = await supabase
-      .from('profiles')
-      .select('id, name, email')
-      .in('id', staffIds);
-
-    setStaffList(profiles || []);
-  };
-
   const fetchAllAnalytics = async () => {
     setLoading(true);
     await Promise.all([
@@ -129,12 +183,14 @@ const AdminDashboard = () => {
       fetchTicketTrends(),
       fetchCommonIssues(),
       fetchStaffPerformance(),
+      fetchSlaCompliance(),
+      fetchEscalations(),
     ]);
     setLoading(false);
   };
 
   const fetchMetrics = async () => {
-    let query = supabase.from('tickets').select('id, status, created_at, updated_at');
+    let query = supabase.from('ticket_details').select('id, status, created_at');
 
     // Apply date range filter
     if (filters.dateRange.from) {
@@ -149,6 +205,16 @@ const AdminDashboard = () => {
       query = query.eq('status', filters.status);
     }
 
+    // Apply staff filter
+    if (filters.staffMember) {
+      query = query.eq('assignee_id', filters.staffMember);
+    }
+
+    // Apply tag filter
+    if (filters.tag) {
+      query = query.in('id', await fetchTaggedTicketIds(filters.tag));
+    }
+
     const { data: tickets, error } = await query;
 
     if (error) {
@@ -156,39 +222,54 @@ const AdminDashboard = () => {
       return;
     }
 
-    // Apply staff filter
-    let filteredTickets = tickets || [];
-    if (filters.staffMember) {
-      filteredTickets = await filterTicketsByStaff(filteredTickets, filters.staffMember);
-    }
+    const filteredTickets = tickets || [];
 
     const total = filteredTickets.length;
     const pending = filteredTickets.filter(t => t.status === 'pending').length;
-    const resolved = filteredTickets.filter(t => t.status === 'resolved').length;
+    const inProgress = filteredTickets.filter(t => t.status === 'in_progress').length;
     
-    const resolvedTickets = filteredTickets.filter(t => t.status === 'resolved');
-    const avgResolutionHours = resolvedTickets.length > 0
-      ? resolvedTickets.reduce((sum, t) => sum + differenceInHours(new Date(t.updated_at), new Date(t.created_at)), 0) / resolvedTickets.length
+    const completedTickets = filteredTickets.filter(t => t.status === 'completed');
+    const completionTimes = await fetchCompletionTimes(completedTickets.map(t => t.id));
+    const resolutionHours = completedTickets
+      .filter(t => completionTimes.has(t.id))
+      .map(t => differenceInHours(completionTimes.get(t.id)!, new Date(t.created_at)));
+    const avgResolutionHours = resolutionHours.length > 0
+      ? resolutionHours.reduce((sum, hours) => sum + hours, 0) / resolutionHours.length
       : 0;
 
-    setMetrics({ total, pending, resolved, avgResolutionHours });
+    setMetrics({ total, pending, inProgress, completed: completedTickets.length, avgResolutionHours });
   };
 
-  const filterTicketsByStaff = async (tickets: any[], staffId: string) => {
-    if (tickets.length === 0) return [];
-    
-    const { data: messages } = await supabase
-      .from('messages')
+  // Resolution time comes from the status history, since updated_at is
+  // overwritten by any later change to the ticket.
+  const fetchCompletionTimes = async (ticketIds: string[]) => {
+    const completionTimes = new Map<string, Date>();
+    if (ticketIds.length === 0) return completionTimes;
+
+    const { data: events } = await supabase
+      .from('ticket_events')
+      .select('ticket_id, created_at')
+      .eq('event_type', 'status_changed')
+      .eq('new_value', 'completed')
+      .in('ticket_id', ticketIds)
+      .order('created_at', { ascending: true });
+
+    // Keep the latest completion for tickets that were completed more than once
+    events?.forEach(event => completionTimes.set(event.ticket_id, new Date(event.created_at)));
+    return completionTimes;
+  };
+
+  const fetchTaggedTicketIds = async (tagId: string) => {
+    const { data } = await supabase
+      .from('ticket_tags')
       .select('ticket_id')
-      .eq('sender_id', staffId)
-      .in('ticket_id', tickets.map(t => t.id));
+      .eq('tag_id', tagId);
 
-    const ticketIdsWithStaffReply = new Set(messages?.map(m => m.ticket_id));
-    return tickets.filter(t => ticketIdsWithStaffReply.has(t.id));
+    return data?.map(row => row.ticket_id) || [];
   };
 
   const fetchTicketTrends = async () => {
-    let query = supabase.from('tickets').select('id, created_at').order('created_at', { ascending: true });
+    let query = supabase.from('ticket_details').select('id, created_at').order('created_at', { ascending: true });
 
     // Apply date range filter
     if (filters.dateRange.from) {
@@ -203,6 +284,16 @@ const AdminDashboard = () => {
       query = query.eq('status', filters.status);
     }
 
+    // Apply staff filter
+    if (filters.staffMember) {
+      query = query.eq('assignee_id', filters.staffMember);
+    }
+
+    // Apply tag filter
+    if (filters.tag) {
+      query = query.in('id', await fetchTaggedTicketIds(filters.tag));
+    }
+
     const { data: tickets, error } = await query;
 
     if (error) {
@@ -210,11 +301,7 @@ const AdminDashboard = () => {
       return;
     }
 
-    // Apply staff filter
-    let filteredTickets = tickets || [];
-    if (filters.staffMember) {
-      filteredTickets = await filterTicketsByStaff(filteredTickets, filters.staffMember);
-    }
+    const filteredTickets = tickets || [];
 
     const dateMap = new Map<string, number>();
     filteredTickets.forEach(ticket => {
@@ -227,7 +314,9 @@ const AdminDashboard = () => {
   };
 
   const fetchCommonIssues = async () => {
-    let query = supabase.from('tickets').select('id, subject, created_at');
+    let query = supabase
+      .from('ticket_details')
+      .select('id, created_at, student_id, ticket_participants(student_id), category:ticket_categories!tickets_category_id_fkey(name), subcategory:ticket_categories!tickets_subcategory_id_fkey(name)');
 
     // Apply date range filter
     if (filters.dateRange.from) {
@@ -242,6 +331,16 @@ const AdminDashboard = () => {
       query = query.eq('status', filters.status);
     }
 
+    // Apply staff filter
+    if (filters.staffMember) {
+      query = query.eq('assignee_id', filters.staffMember);
+    }
+
+    // Apply tag filter
+    if (filters.tag) {
+      query = query.in('id', await fetchTaggedTicketIds(filters.tag));
+    }
+
     const { data: tickets, error } = await query;
 
     if (error) {
@@ -249,31 +348,165 @@ const AdminDashboard = () => {
       return;
     }
 
-    // Apply staff filter
-    let filteredTickets = tickets || [];
-    if (filters.staffMember) {
-      filteredTickets = await filterTicketsByStaff(filteredTickets, filters.staffMember);
-    }
+    const filteredTickets = tickets || [];
 
-    const subjectMap = new Map<string, number>();
+    const categoryMap = new Map<string, { count: number; students: Set<string>; subcategories: Map<string, number> }>();
     filteredTickets.forEach(ticket => {
-      const subject = ticket.subject;
-      subjectMap.set(subject, (subjectMap.get(subject) || 0) + 1);
+      const category = ticket.category?.name ?? 'Uncategorized';
+      const entry = categoryMap.get(category) ?? { count: 0, students: new Set<string>(), subcategories: new Map<string, number>() };
+      entry.count += 1;
+      // A student who filed one ticket and joined another on the same issue is counted once.
+      // Confidential tickets have no student to compare, so each counts as its own.
+      entry.students.add(ticket.student_id ?? ticket.id);
+      ticket.ticket_participants.forEach(participant => entry.students.add(participant.student_id));
+      if (ticket.subcategory) {
+        entry.subcategories.set(ticket.subcategory.name, (entry.subcategories.get(ticket.subcategory.name) || 0) + 1);
+      }
+      categoryMap.set(category, entry);
     });
 
     const total = filteredTickets.length || 1;
-    const issues = Array.from(subjectMap.entries())
-      .map(([subject, count]) => ({
-        subject,
+    const issues = Array.from(categoryMap.entries())
+      .map(([category, { count, students, subcategories }]) => ({
+        category,
         count,
+        affectedStudents: students.size,
         percentage: parseFloat(((count / total) * 100).toFixed(2)),
+        subcategories: Array.from(subcategories.entries())
+          .map(([name, subcategoryCount]) => ({ name, count: subcategoryCount }))
+          .sort((a, b) => b.count - a.count),
       }))
-      .sort((a, b) => b.count - a.count)
-      .slice(0, 10);
+      .sort((a, b) => b.count - a.count);
 
     setCommonIssues(issues);
   };
 
+  const fetchSlaCompliance = async () => {
+    let query = supabase
+      .from('ticket_details')
+      .select('id, status, priority, created_at, first_response_due_at, first_responded_at, resolution_due_at');
+
+    // Apply date range filter
+    if (filters.dateRange.from) {
+      query = query.gte('created_at', startOfDay(filters.dateRange.from).toISOString());
+    }
+    if (filters.dateRange.to) {
+      query = query.lte('created_at', endOfDay(filters.dateRange.to).toISOString());
+    }
+
+    // Apply status filter
+    if (filters.status !== 'all') {
+      query = query.eq('status', filters.status);
+    }
+
+    // Apply staff filter
+    if (filters.staffMember) {
+      query = query.eq('assignee_id', filters.staffMember);
+    }
+
+    // Apply tag filter
+    if (filters.tag) {
+      query = query.in('id', await fetchTaggedTicketIds(filters.tag));
+    }
+
+    const { data: tickets, error } = await query;
+
+    if (error) {
+      toast({ title: 'Error fetching SLA compliance', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    const filteredTickets = tickets || [];
+    const completionTimes = await fetchCompletionTimes(
+      filteredTickets.filter(t => t.status === 'completed').map(t => t.id)
+    );
+
+    const withResponseTarget = filteredTickets.filter(t => t.first_response_due_at);
+    const withResolutionTarget = filteredTickets.filter(t => t.resolution_due_at);
+
+    const isResponseBreached = (t: typeof filteredTickets[number]) =>
+      isSlaBreached(t.first_response_due_at, t.first_responded_at);
+    const isResolutionBreached = (t: typeof filteredTickets[number]) =>
+      isSlaBreached(t.resolution_due_at, completionTimes.get(t.id)?.toISOString() ?? null);
+
+    setSlaCompliance({
+      responseTotal: withResponseTarget.length,
+      responseBreaches: withResponseTarget.filter(isResponseBreached).length,
+      resolutionTotal: withResolutionTarget.length,
+      resolutionBreaches: withResolutionTarget.filter(isResolutionBreached).length,
+      byPriority: TICKET_PRIORITIES.map(priority => {
+        const priorityTickets = withResolutionTarget.filter(t => t.priority === priority);
+        return {
+          priority,
+          total: priorityTickets.length,
+          breaches: priorityTickets.filter(t => isResponseBreached(t) || isResolutionBreached(t)).length,
+        };
+      }),
+    });
+  };
+
+  const fetchEscalations = async () => {
+    // The queue always shows every open escalation, regardless of filters
+    const { data: openTickets, error: queueError } = await supabase
+      .from('ticket_details')
+      .select('id, subject, status, priority, escalation_level, escalated_at, is_confidential, pseudonym, student_name, assignee:profiles!tickets_assignee_id_fkey(name), category:ticket_categories!tickets_category_id_fkey(name)')
+      .not('escalation_level', 'is', null)
+      .neq('status', 'completed')
+      .order('escalated_at', { ascending: true });
+
+    if (queueError) {
+      toast({ title: 'Error fetching escalations', description: queueError.message, variant: 'destructive' });
+      return;
+    }
+
+    setEscalationQueue((openTickets || []) as EscalatedTicket[]);
+
+    let query = supabase
+      .from('ticket_escalations')
+      .select('level, created_at, tickets:ticket_details!inner(status, assignee_id, category:ticket_categories!tickets_category_id_fkey(name))');
+
+    // Apply date range filter
+    if (filters.dateRange.from) {
+      query = query.gte('created_at', startOfDay(filters.dateRange.from).toISOString());
+    }
+    if (filters.dateRange.to) {
+      query = query.lte('created_at', endOfDay(filters.dateRange.to).toISOString());
+    }
+
+    // Apply status filter
+    if (filters.status !== 'all') {
+      query = query.eq('tickets.status', filters.status);
+    }
+
+    // Apply staff filter
+    if (filters.staffMember) {
+      query = query.eq('tickets.assignee_id', filters.staffMember);
+    }
+
+    // Apply tag filter
+    if (filters.tag) {
+      query = query.in('ticket_id', await fetchTaggedTicketIds(filters.tag));
+    }
+
+    const { data: escalations, error } = await query;
+
+    if (error) {
+      toast({ title: 'Error fetching escalations', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    const categoryMap = new Map<string, EscalationsByCategory>();
+    escalations?.forEach(escalation => {
+      const category = escalation.tickets.category?.name ?? 'Uncategorized';
+      const entry = categoryMap.get(category) ?? { category, senior_staff: 0, admin: 0, total: 0 };
+      entry[escalation.level] += 1;
+      entry.total += 1;
+      categoryMap.set(category, entry);
+    });
+
+    setEscalationsByCategory(Array.from(categoryMap.values()).sort((a, b) => b.total - a.total));
+  };
+
   const fetchStaffPerformance = async () => {
     const { data: staffRoles, error: rolesError } = await supabase
       .from('user_roles')
@@ -302,11 +535,13 @@ const AdminDashboard = () => {
       return;
     }
 
+    const taggedTicketIds = filters.tag ? await fetchTaggedTicketIds(filters.tag) : null;
+
     const performance = await Promise.all(
       (profiles || []).map(async (profile) => {
         let messagesQuery = supabase
-          .from('messages')
-          .select('ticket_id, created_at, tickets!inner(student_id, created_at, status)')
+          .from('message_details')
+          .select('ticket_id, created_at, is_internal, tickets:ticket_details!inner(student_id, created_at, status)')
           .eq('sender_id', profile.id);
 
         // Apply date range filter to messages
@@ -322,6 +557,11 @@ const AdminDashboard = () => {
           messagesQuery = messagesQuery.eq('tickets.status', filters.status);
         }
 
+        // Apply tag filter
+        if (taggedTicketIds) {
+          messagesQuery = messagesQuery.in('ticket_id', taggedTicketIds);
+        }
+
         const { data: messages } = await messagesQuery;
 
         const uniqueTickets = new Set(messages?.map(m => m.ticket_id) || []);
@@ -329,7 +569,8 @@ const AdminDashboard = () => {
 
         const responseTimes = messages?.map(m => {
           const ticket = m.tickets as unknown as { created_at: string; student_id: string; status: string };
-          if (ticket.student_id === profile.id) return null;
+          // Internal notes are not a response to the student
+          if (ticket.student_id === profile.id || m.is_internal) return null;
           return differenceInHours(new Date(m.created_at), new Date(ticket.created_at)) * 60;
         }).filter(t => t !== null) || [];
 
@@ -337,15 +578,80 @@ const AdminDashboard = () => {
           ? responseTimes.reduce((sum, t) => sum + (t || 0), 0) / responseTimes.length
           : 0;
 
-        const { data: resolvedTickets } = await supabase
-          .from('tickets')
-          .select('id')
-          .in('id', Array.from(uniqueTickets))
-          .eq('status', 'resolved');
+        const { data: handledTickets } = await supabase
+          .from('ticket_details')
+          .select('id, status')
+          .in('id', Array.from(uniqueTickets));
 
-        const resolvedCount = resolvedTickets?.length || 0;
+        const resolvedCount = handledTickets?.filter(t => t.status === 'completed').length || 0;
         const resolutionRate = ticketsHandled > 0 ? parseFloat(((resolvedCount / ticketsHandled) * 100).toFixed(2)) : 0;
 
+        // Satisfaction ratings are attributed to whoever completed the ticket
+        let resolvedQuery = supabase
+          .from('ticket_details')
+          .select('id', { count: 'exact', head: true })
+          .eq('resolved_by', profile.id)
+          .eq('status', 'completed');
+
+        // resolved_by stays on a ticket when it is reopened, until someone completes it again
+        let everResolvedQuery = supabase
+          .from('ticket_details')
+          .select('id, reopen_count')
+          .eq('resolved_by', profile.id);
+
+        let ratingsQuery = supabase
+          .from('ticket_ratings')
+          .select('ticket_id, rating, comment, created_at, tickets:ticket_details!inner(subject, created_at, status)')
+          .eq('resolved_by', profile.id)
+          .eq('tickets.status', 'completed');
+
+        if (filters.dateRange.from) {
+          resolvedQuery = resolvedQuery.gte('created_at', startOfDay(filters.dateRange.from).toISOString());
+          everResolvedQuery = everResolvedQuery.gte('created_at', startOfDay(filters.dateRange.from).toISOString());
+          ratingsQuery = ratingsQuery.gte('tickets.created_at', startOfDay(filters.dateRange.from).toISOString());
+        }
+        if (filters.dateRange.to) {
+          resolvedQuery = resolvedQuery.lte('created_at', endOfDay(filters.dateRange.to).toISOString());
+          everResolvedQuery = everResolvedQuery.lte('created_at', endOfDay(filters.dateRange.to).toISOString());
+          ratingsQuery = ratingsQuery.lte('tickets.created_at', endOfDay(filters.dateRange.to).toISOString());
+        }
+        if (filters.status !== 'all') {
+          resolvedQuery = resolvedQuery.eq('status', filters.status);
+          everResolvedQuery = everResolvedQuery.eq('status', filters.status);
+          ratingsQuery = ratingsQuery.eq('tickets.status', filters.status);
+        }
+        if (taggedTicketIds) {
+          resolvedQuery = resolvedQuery.in('id', taggedTicketIds);
+          everResolvedQuery = everResolvedQuery.in('id', taggedTicketIds);
+          ratingsQuery = ratingsQuery.in('ticket_id', taggedTicketIds);
+        }
+
+        const [{ count: ratableCount }, { data: everResolved }, { data: ratings }] = await Promise.all([
+          resolvedQuery,
+          everResolvedQuery,
+          ratingsQuery,
+        ]);
+
+        // Share of tickets this staff member completed that the student later reopened
+        const reopenedCount = everResolved?.filter(t => t.reopen_count > 0).length || 0;
+        const reopenRate = everResolved?.length ? parseFloat(((reopenedCount / everResolved.length) * 100).toFixed(2)) : 0;
+
+        const ratingsCount = ratings?.length || 0;
+        const avgCsat = ratingsCount > 0
+          ? parseFloat(((ratings || []).reduce((sum, r) => sum + r.rating, 0) / ratingsCount).toFixed(2))
+          : null;
+        const csatResponseRate = ratableCount ? parseFloat(((ratingsCount / ratableCount) * 100).toFixed(2)) : 0;
+        const lowScores = (ratings || [])
+          .filter(r => r.rating <= LOW_CSAT_THRESHOLD)
+          .map(r => ({
+            ticketId: r.ticket_id,
+            subject: r.tickets.subject,
+            rating: r.rating,
+            comment: r.comment,
+            createdAt: r.created_at,
+          }))
+          .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
         return {
           id: profile.id,
           name: profile.name,
@@ -354,6 +660,12 @@ const AdminDashboard = () => {
           avgResponseMinutes: parseFloat(avgResponseMinutes.toFixed(2)),
           resolvedCount,
           resolutionRate,
+          reopenedCount,
+          reopenRate,
+          ratingsCount,
+          avgCsat,
+          csatResponseRate,
+          lowScores,
         };
       })
     );
@@ -372,7 +684,8 @@ const AdminDashboard = () => {
         to: new Date()
       },
       status: 'all',
-      staffMember: null
+      staffMember: null,
+      tag: null
     });
   };
 
@@ -383,8 +696,9 @@ const AdminDashboard = () => {
   }, [filters]);
 
   const statusData = metrics ? [
-    { name: 'Pending', value: metrics.pending },
-    { name: 'Resolved', value: metrics.resolved },
+    { name: TICKET_STATUS_LABELS.pending, value: metrics.pending },
+    { name: TICKET_STATUS_LABELS.in_progress, value: metrics.inProgress },
+    { name: TICKET_STATUS_LABELS.completed, value: metrics.completed },
   ] : [];
 
   if (authLoading || loading) {
@@ -404,6 +718,7 @@ const AdminDashboard = () => {
   const hasActiveFilters = 
     filters.status !== 'all' || 
     filters.staffMember !== null ||
+    filters.tag !== null ||
     filters.dateRange.from?.getTime() !== subDays(new Date(), 30).setHours(0,0,0,0) ||
     filters.dateRange.to?.getTime() !== new Date().setHours(0,0,0,0);
 
@@ -424,10 +739,10 @@ const AdminDashboard = () => {
               <Filter className="h-5 w-5" />
               Filters
             </CardTitle>
-            <CardDescription>Filter analytics by date range, status, and staff member</CardDescription>
+            <CardDescription>Filter analytics by date range, status, staff member, and tag</CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
               {/* Date Range Filter */}
               <div className="space-y-2">
                 <label className="text-sm font-medium">Date Range</label>
@@ -483,14 +798,15 @@ const AdminDashboard = () => {
               {/* Status Filter */}
               <div className="space-y-2">
                 <label className="text-sm font-medium">Status</label>
-                <Select value={filters.status} onValueChange={(value: 'all' | 'pending' | 'resolved') => setFilters(prev => ({ ...prev, status: value }))}>
+                <Select value={filters.status} onValueChange={(value: 'all' | TicketStatus) => setFilters(prev => ({ ...prev, status: value }))}>
                   <SelectTrigger>
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">All Statuses</SelectItem>
-                    <SelectItem value="pending">Pending</SelectItem>
-                    <SelectItem value="resolved">Resolved</SelectItem>
+                    {TICKET_STATUSES.map(status => (
+                      <SelectItem key={status} value={status}>{TICKET_STATUS_LABELS[status]}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -512,6 +828,22 @@ const AdminDashboard = () => {
                   </SelectContent>
                 </Select>
               </div>
+
+              {/* Tag Filter */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Tag</label>
+                <Select value={filters.tag || 'all'} onValueChange={(value) => setFilters(prev => ({ ...prev, tag: value === 'all' ? null : value }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All Tags</SelectItem>
+                    {tagList.map(tag => (
+                      <SelectItem key={tag.id} value={tag.id}>#{tag.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
 
             {/* Active Filters Display */}
@@ -526,7 +858,7 @@ const AdminDashboard = () => {
                 )}
                 {filters.status !== 'all' && (
                   <Badge variant="secondary" className="gap-1">
-                    🎫 {filters.status}
+                    🎫 {TICKET_STATUS_LABELS[filters.status]}
                     <X className="h-3 w-3 cursor-pointer" onClick={() => setFilters(prev => ({ ...prev, status: 'all' }))} />
                   </Badge>
                 )}
@@ -536,6 +868,12 @@ const AdminDashboard = () => {
                     <X className="h-3 w-3 cursor-pointer" onClick={() => setFilters(prev => ({ ...prev, staffMember: null }))} />
                   </Badge>
                 )}
+                {filters.tag && (
+                  <Badge variant="secondary" className="gap-1">
+                    #{tagList.find(t => t.id === filters.tag)?.name}
+                    <X className="h-3 w-3 cursor-pointer" onClick={() => setFilters(prev => ({ ...prev, tag: null }))} />
+                  </Badge>
+                )}
                 <Button variant="ghost" size="sm" onClick={handleResetFilters}>
                   Reset All
                 </Button>
@@ -554,7 +892,7 @@ const AdminDashboard = () => {
             <CardContent>
               <div className="text-2xl font-bold">{metrics?.total || 0}</div>
               <p className="text-xs text-muted-foreground mt-1">
-                {metrics?.pending || 0} pending, {metrics?.resolved || 0} resolved
+                {metrics?.pending || 0} pending, {metrics?.inProgress || 0} in progress, {metrics?.completed || 0} completed
               </p>
             </CardContent>
           </Card>
@@ -595,10 +933,12 @@ const AdminDashboard = () => {
 
         {/* Analytics Tabs */}
         <Tabs defaultValue="trends" className="space-y-4">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="trends">Ticket Trends</TabsTrigger>
             <TabsTrigger value="distribution">Status Distribution</TabsTrigger>
             <TabsTrigger value="issues">Common Issues</TabsTrigger>
+            <TabsTrigger value="sla">SLA Compliance</TabsTrigger>
+            <TabsTrigger value="escalations">Escalations ({escalationQueue.length})</TabsTrigger>
             <TabsTrigger value="staff">Staff Performance</TabsTrigger>
           </TabsList>
 
@@ -669,22 +1009,31 @@ const AdminDashboard = () => {
             <Card>
               <CardHeader>
                 <CardTitle>Most Common Issues</CardTitle>
-                <CardDescription>Top 10 ticket subjects by frequency</CardDescription>
+                <CardDescription>Tickets and unique affected students per category, with sub-category breakdown</CardDescription>
               </CardHeader>
               <CardContent>
                 <Table>
                   <TableHeader>
                     <TableRow>
-                      <TableHead className="w-[60%]">Subject</TableHead>
+                      <TableHead className="w-[60%]">Category</TableHead>
                       <TableHead className="text-right">Count</TableHead>
+                      <TableHead className="text-right">Affected Students</TableHead>
                       <TableHead className="text-right">Percentage</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {commonIssues.map((issue, index) => (
                       <TableRow key={index}>
-                        <TableCell className="font-medium">{issue.subject}</TableCell>
+                        <TableCell>
+                          <div className="font-medium">{issue.category}</div>
+                          {issue.subcategories.length > 0 && (
+                            <div className="text-xs text-muted-foreground">
+                              {issue.subcategories.map(sub => `${sub.name} (${sub.count})`).join(', ')}
+                            </div>
+                          )}
+                        </TableCell>
                         <TableCell className="text-right">{issue.count}</TableCell>
+                        <TableCell className="text-right">{issue.affectedStudents}</TableCell>
                         <TableCell className="text-right">
                           <Badge variant="secondary">{issue.percentage}%</Badge>
                         </TableCell>
@@ -696,6 +1045,149 @@ const AdminDashboard = () => {
             </Card>
           </TabsContent>
 
+          <TabsContent value="sla" className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                  <CardTitle className="text-sm font-medium">First Response Breaches</CardTitle>
+                  <AlertCircle className="h-4 w-4 text-muted-foreground" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">
+                    {breachRate(slaCompliance?.responseBreaches || 0, slaCompliance?.responseTotal || 0)}%
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {slaCompliance?.responseBreaches || 0} of {slaCompliance?.responseTotal || 0} tickets missed the first response target
+                  </p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                  <CardTitle className="text-sm font-medium">Resolution Breaches</CardTitle>
+                  <Clock className="h-4 w-4 text-muted-foreground" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">
+                    {breachRate(slaCompliance?.resolutionBreaches || 0, slaCompliance?.resolutionTotal || 0)}%
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {slaCompliance?.resolutionBreaches || 0} of {slaCompliance?.resolutionTotal || 0} tickets missed the resolution target
+                  </p>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Breaches by Priority</CardTitle>
+                <CardDescription>Tickets that missed either SLA target in the selected date range</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Priority</TableHead>
+                      <TableHead className="text-right">Tickets</TableHead>
+                      <TableHead className="text-right">Breached</TableHead>
+                      <TableHead className="text-right">Breach Rate</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {slaCompliance?.byPriority.map(row => (
+                      <TableRow key={row.priority}>
+                        <TableCell className="font-medium">{TICKET_PRIORITY_LABELS[row.priority]}</TableCell>
+                        <TableCell className="text-right">{row.total}</TableCell>
+                        <TableCell className="text-right">{row.breaches}</TableCell>
+                        <TableCell className="text-right">
+                          <Badge
+                            variant={breachRate(row.breaches, row.total) > 10 ? 'destructive' : 'secondary'}
+                          >
+                            {breachRate(row.breaches, row.total)}%
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="escalations" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Escalation Queue</CardTitle>
+                <CardDescription>Open tickets escalated to senior staff or admin, oldest first</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {escalationQueue.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-6">No open escalations</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Ticket</TableHead>
+                        <TableHead>Level</TableHead>
+                        <TableHead>Assignee</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead className="text-right">Escalated</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {escalationQueue.map(ticket => (
+                        <TableRow key={ticket.id} className="cursor-pointer" onClick={() => navigate(`/ticket/${ticket.id}`)}>
+                          <TableCell>
+                            <div className="font-medium">{ticket.subject}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {getStudentDisplayName(ticket)}
+                              {ticket.category && ` • ${ticket.category.name}`}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={ticket.escalation_level === 'admin' ? 'destructive' : 'secondary'}>
+                              {ESCALATION_LEVEL_LABELS[ticket.escalation_level]}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>{ticket.assignee?.name ?? 'Unassigned'}</TableCell>
+                          <TableCell>{TICKET_STATUS_LABELS[ticket.status]}</TableCell>
+                          <TableCell className="text-right text-sm text-muted-foreground">
+                            {ticket.escalated_at && formatDistanceToNow(new Date(ticket.escalated_at), { addSuffix: true })}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Escalations by Category</CardTitle>
+                <CardDescription>Escalations raised in the selected date range</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={300}>
+                  <BarChart data={escalationsByCategory}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis dataKey="category" stroke="hsl(var(--muted-foreground))" />
+                    <YAxis allowDecimals={false} stroke="hsl(var(--muted-foreground))" />
+                    <Tooltip
+                      contentStyle={{
+                        backgroundColor: 'hsl(var(--card))',
+                        border: '1px solid hsl(var(--border))',
+                        borderRadius: '8px',
+                      }}
+                    />
+                    <Legend />
+                    <Bar dataKey="senior_staff" name={ESCALATION_LEVEL_LABELS.senior_staff} stackId="level" fill="hsl(var(--warning))" />
+                    <Bar dataKey="admin" name={ESCALATION_LEVEL_LABELS.admin} stackId="level" fill="hsl(var(--destructive))" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           <TabsContent value="staff" className="space-y-4">
             <Card>
               <CardHeader>
@@ -709,8 +1201,11 @@ const AdminDashboard = () => {
                       <TableHead>Name</TableHead>
                       <TableHead className="text-right">Tickets Handled</TableHead>
                       <TableHead className="text-right">Avg Response Time</TableHead>
-                      <TableHead className="text-right">Resolved</TableHead>
+                      <TableHead className="text-right">Completed</TableHead>
                       <TableHead className="text-right">Resolution Rate</TableHead>
+                      <TableHead className="text-right">Reopen Rate</TableHead>
+                      <TableHead className="text-right">Avg CSAT</TableHead>
+                      <TableHead className="text-right">CSAT Response Rate</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
@@ -737,6 +1232,38 @@ const AdminDashboard = () => {
                             {staff.resolutionRate}%
                           </Badge>
                         </TableCell>
+                        <TableCell className="text-right">
+                          <Badge variant={staff.reopenRate > 20 ? 'destructive' : 'secondary'}>
+                            {staff.reopenRate}%
+                          </Badge>
+                          <div className="text-xs text-muted-foreground mt-1">{staff.reopenedCount} reopened</div>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {staff.avgCsat !== null ? (
+                            <Badge
+                              variant={staff.avgCsat >= 4 ? 'default' : staff.avgCsat <= LOW_CSAT_THRESHOLD ? 'destructive' : 'secondary'}
+                              className={cn('gap-1', staff.avgCsat >= 4 && 'bg-success text-success-foreground')}
+                            >
+                              <Star className="h-3 w-3" />
+                              {staff.avgCsat.toFixed(1)}
+                            </Badge>
+                          ) : (
+                            'N/A'
+                          )}
+                          {staff.lowScores.length > 0 && (
+                            <button
+                              type="button"
+                              onClick={() => setLowScoreStaff(staff)}
+                              className="block ml-auto text-xs text-destructive hover:underline mt-1"
+                            >
+                              {staff.lowScores.length} low score{staff.lowScores.length !== 1 ? 's' : ''}
+                            </button>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {staff.csatResponseRate}%
+                          <div className="text-xs text-muted-foreground mt-1">{staff.ratingsCount} rated</div>
+                        </TableCell>
                       </TableRow>
                     ))}
                   </TableBody>
@@ -745,6 +1272,40 @@ const AdminDashboard = () => {
             </Card>
           </TabsContent>
         </Tabs>
+
+        <Dialog open={lowScoreStaff !== null} onOpenChange={(open) => !open && setLowScoreStaff(null)}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>Low satisfaction scores</DialogTitle>
+              <DialogDescription>
+                Tickets resolved by {lowScoreStaff?.name} rated {LOW_CSAT_THRESHOLD} or lower
+              </DialogDescription>
+            </DialogHeader>
+            <div className="max-h-[60vh] space-y-3 overflow-y-auto">
+              {lowScoreStaff?.lowScores.map(score => (
+                <div
+                  key={score.ticketId}
+                  onClick={() => navigate(`/ticket/${score.ticketId}`)}
+                  className="cursor-pointer rounded-lg border border-border p-3 hover:bg-muted/50"
+                >
+                  <div className="flex items-center justify-between gap-4">
+                    <span className="font-medium truncate">{score.subject}</span>
+                    <Badge variant="destructive" className="gap-1 shrink-0">
+                      <Star className="h-3 w-3" />
+                      {score.rating}/5
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground whitespace-pre-wrap mt-1">
+                    {score.comment ?? 'No comment'}
+                  </p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {CSAT_LABELS[score.rating]} • {formatDistanceToNow(new Date(score.createdAt), { addSuffix: true })}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </DialogContent>
+        </Dialog>
       </div>
     </Layout>
   );
@@ -0,0 +1,190 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Layout } from '@/components/Layout';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Switch } from '@/components/ui/switch';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Shuffle, UserCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useStaffMembers } from '@/hooks/use-staff-members';
+import { CategorySettings } from '@/components/CategorySettings';
+import { SlaPolicySettings } from '@/components/SlaPolicySettings';
+import { TicketLifecycleSettings } from '@/components/TicketLifecycleSettings';
+import { ConfidentialReviewerSettings } from '@/components/ConfidentialReviewerSettings';
+
+type RoutingMode = 'manual' | 'round_robin' | 'least_loaded' | 'category';
+
+const ROUTING_MODES: { value: RoutingMode; label: string; description: string }[] = [
+  { value: 'manual', label: 'Manual', description: 'New tickets stay unassigned until a staff member claims them' },
+  { value: 'round_robin', label: 'Round-robin', description: 'New tickets rotate through available staff in turn' },
+  { value: 'least_loaded', label: 'Least open tickets', description: 'New tickets go to the available staff member with the fewest open tickets' },
+  { value: 'category', label: 'Category teams', description: "New tickets go to the least loaded member of the category's team, or to all staff if the team is empty" },
+];
+
+const AdminSettings = () => {
+  const { userRole, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const isAdmin = !authLoading && userRole === 'admin';
+  const { staffMembers, refresh: refreshStaff } = useStaffMembers(isAdmin);
+
+  const [routingMode, setRoutingMode] = useState<RoutingMode | null>(null);
+  const [savingMode, setSavingMode] = useState(false);
+
+  const fetchRoutingSettings = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('routing_settings')
+      .select('mode')
+      .single();
+
+    if (error) {
+      toast({ title: 'Error fetching routing settings', description: error.message, variant: 'destructive' });
+      return;
+    }
+
+    setRoutingMode(data.mode as RoutingMode);
+  }, [toast]);
+
+  useEffect(() => {
+    if (!authLoading && userRole !== 'admin') {
+      navigate('/');
+      return;
+    }
+
+    if (isAdmin) {
+      fetchRoutingSettings();
+    }
+  }, [userRole, authLoading, isAdmin, navigate, fetchRoutingSettings]);
+
+  const handleRoutingModeChange = async (mode: RoutingMode) => {
+    setSavingMode(true);
+
+    const { error } = await supabase
+      .from('routing_settings')
+      .update({ mode })
+      .eq('id', true);
+
+    if (error) {
+      toast({ title: 'Error saving routing mode', description: error.message, variant: 'destructive' });
+    } else {
+      setRoutingMode(mode);
+      toast({ title: 'Routing updated', description: `New tickets will use ${ROUTING_MODES.find(m => m.value === mode)?.label.toLowerCase()} routing.` });
+    }
+
+    setSavingMode(false);
+  };
+
+  const handleAvailabilityChange = async (staffId: string, isAvailable: boolean) => {
+    const { error } = await supabase
+      .from('profiles')
+      .update({ is_available: isAvailable })
+      .eq('id', staffId);
+
+    if (error) {
+      toast({ title: 'Error updating availability', description: error.message, variant: 'destructive' });
+    } else {
+      refreshStaff();
+    }
+  };
+
+  if (authLoading || routingMode === null) {
+    return (
+      <Layout>
+        <div className="max-w-4xl mx-auto space-y-6">
+          <Skeleton className="h-12 w-64" />
+          <Skeleton className="h-64" />
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Settings</h1>
+          <p className="text-muted-foreground">Configure how the support desk handles tickets</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Shuffle className="h-5 w-5" />
+              Ticket Routing
+            </CardTitle>
+            <CardDescription>Choose how new tickets are assigned to staff</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <RadioGroup
+              value={routingMode}
+              onValueChange={(value) => handleRoutingModeChange(value as RoutingMode)}
+              disabled={savingMode}
+              className="space-y-3"
+            >
+              {ROUTING_MODES.map(mode => (
+                <div key={mode.value} className="flex items-start space-x-3">
+                  <RadioGroupItem value={mode.value} id={`routing-${mode.value}`} className="mt-1" />
+                  <Label htmlFor={`routing-${mode.value}`} className="font-normal cursor-pointer">
+                    <span className="font-medium">{mode.label}</span>
+                    <span className="block text-sm text-muted-foreground">{mode.description}</span>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserCheck className="h-5 w-5" />
+              Staff Availability
+            </CardTitle>
+            <CardDescription>Unavailable staff are skipped by automatic routing</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead className="text-right">Available</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {staffMembers.map(staff => (
+                  <TableRow key={staff.id}>
+                    <TableCell>
+                      <div className="font-medium">{staff.name}</div>
+                      <div className="text-xs text-muted-foreground">{staff.email}</div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Switch
+                        checked={staff.is_available}
+                        onCheckedChange={(checked) => handleAvailabilityChange(staff.id, checked)}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <CategorySettings staffMembers={staffMembers} />
+
+        <SlaPolicySettings />
+
+        <TicketLifecycleSettings />
+
+        <ConfidentialReviewerSettings />
+      </div>
+    </Layout>
+  );
+};
+
+export default AdminSettings;
@@ -0,0 +1,330 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Layout } from '@/components/Layout';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Hash, MessageSquareText, Pencil, Plus, Trash2, Zap } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useCannedResponses } from '@/hooks/use-canned-responses';
+import { useTags } from '@/hooks/use-tags';
+import { CANNED_RESPONSE_PLACEHOLDERS, CannedResponse } from '@/lib/canned-responses';
+import {
+  TICKET_PRIORITIES,
+  TICKET_PRIORITY_LABELS,
+  TICKET_STATUSES,
+  TICKET_STATUS_LABELS,
+  TicketPriority,
+  TicketStatus,
+} from '@/lib/tickets';
+
+const NO_CHANGE = 'none';
+
+interface ResponseForm {
+  title: string;
+  shortcut: string;
+  content: string;
+  isShared: boolean;
+  setStatus: TicketStatus | typeof NO_CHANGE;
+  setPriority: TicketPriority | typeof NO_CHANGE;
+  addTagId: string;
+}
+
+const EMPTY_FORM: ResponseForm = {
+  title: '',
+  shortcut: '',
+  content: '',
+  isShared: false,
+  setStatus: NO_CHANGE,
+  setPriority: NO_CHANGE,
+  addTagId: NO_CHANGE,
+};
+
+const CannedResponses = () => {
+  const { user, userRole, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const isStaff = userRole === 'staff' || userRole === 'admin';
+  const isAdmin = userRole === 'admin';
+  const { cannedResponses, refresh } = useCannedResponses(isStaff);
+  const { tags } = useTags(isStaff);
+
+  const [form, setForm] = useState<ResponseForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading && !isStaff) {
+      navigate('/');
+    }
+  }, [authLoading, isStaff, navigate]);
+
+  // Personal responses belong to their owner; shared ones are curated by admins
+  const canEdit = (response: CannedResponse) =>
+    isAdmin || (!response.is_shared && response.owner_id === user?.id);
+
+  const handleEdit = (response: CannedResponse) => {
+    setEditingId(response.id);
+    setForm({
+      title: response.title,
+      shortcut: response.shortcut ?? '',
+      content: response.content,
+      isShared: response.is_shared,
+      setStatus: response.set_status ?? NO_CHANGE,
+      setPriority: response.set_priority ?? NO_CHANGE,
+      addTagId: response.add_tag_id ?? NO_CHANGE,
+    });
+  };
+
+  const handleCancel = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !form.title.trim() || !form.content.trim()) return;
+
+    setIsSaving(true);
+
+    const values = {
+      title: form.title.trim(),
+      shortcut: form.shortcut.trim().toLowerCase() || null,
+      content: form.content.trim(),
+      is_shared: isAdmin && form.isShared,
+      set_status: form.setStatus === NO_CHANGE ? null : form.setStatus,
+      set_priority: form.setPriority === NO_CHANGE ? null : form.setPriority,
+      add_tag_id: form.addTagId === NO_CHANGE ? null : form.addTagId,
+    };
+
+    const { error } = editingId
+      ? await supabase.from('canned_responses').update(values).eq('id', editingId)
+      : await supabase.from('canned_responses').insert({ ...values, owner_id: user.id });
+
+    if (error) {
+      toast({ title: 'Error saving canned response', description: error.message, variant: 'destructive' });
+    } else {
+      toast({ title: editingId ? 'Canned response updated' : 'Canned response added' });
+      handleCancel();
+      refresh();
+    }
+
+    setIsSaving(false);
+  };
+
+  const handleDelete = async (responseId: string) => {
+    const { error } = await supabase
+      .from('canned_responses')
+      .delete()
+      .eq('id', responseId);
+
+    if (error) {
+      toast({ title: 'Error deleting canned response', description: error.message, variant: 'destructive' });
+    } else {
+      if (editingId === responseId) handleCancel();
+      refresh();
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Canned Responses</h1>
+          <p className="text-muted-foreground">
+            Reusable replies for the ticket composer. Type / in a reply or use the picker to insert one.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <MessageSquareText className="h-5 w-5" />
+              {editingId ? 'Edit Response' : 'New Response'}
+            </CardTitle>
+            <CardDescription>
+              Placeholders {CANNED_RESPONSE_PLACEHOLDERS.join(' and ')} are filled in when the response is inserted.
+              Actions make the response a macro that also updates the ticket when the reply is sent.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSave} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="response-title">Title</Label>
+                  <Input
+                    id="response-title"
+                    placeholder="Ask for fee receipt"
+                    value={form.title}
+                    onChange={(e) => setForm(prev => ({ ...prev, title: e.target.value }))}
+                    maxLength={80}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="response-shortcut">Shortcut</Label>
+                  <Input
+                    id="response-shortcut"
+                    placeholder="receipt"
+                    value={form.shortcut}
+                    onChange={(e) => setForm(prev => ({ ...prev, shortcut: e.target.value.replace(/[^a-zA-Z0-9_-]/g, '') }))}
+                    maxLength={30}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="response-content">Response</Label>
+                <Textarea
+                  id="response-content"
+                  placeholder="Hi {{student.name}}, please share your fee receipt so we can look into it."
+                  value={form.content}
+                  onChange={(e) => setForm(prev => ({ ...prev, content: e.target.value }))}
+                  rows={4}
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>Set status</Label>
+                  <Select
+                    value={form.setStatus}
+                    onValueChange={(value) => setForm(prev => ({ ...prev, setStatus: value as ResponseForm['setStatus'] }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_CHANGE}>No change</SelectItem>
+                      {TICKET_STATUSES.map(status => (
+                        <SelectItem key={status} value={status}>{TICKET_STATUS_LABELS[status]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Set priority</Label>
+                  <Select
+                    value={form.setPriority}
+                    onValueChange={(value) => setForm(prev => ({ ...prev, setPriority: value as ResponseForm['setPriority'] }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_CHANGE}>No change</SelectItem>
+                      {TICKET_PRIORITIES.map(priority => (
+                        <SelectItem key={priority} value={priority}>{TICKET_PRIORITY_LABELS[priority]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Add tag</Label>
+                  <Select
+                    value={form.addTagId}
+                    onValueChange={(value) => setForm(prev => ({ ...prev, addTagId: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_CHANGE}>No tag</SelectItem>
+                      {tags.map(tag => (
+                        <SelectItem key={tag.id} value={tag.id}>#{tag.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {isAdmin && (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="response-shared"
+                    checked={form.isShared}
+                    onCheckedChange={(checked) => setForm(prev => ({ ...prev, isShared: checked }))}
+                  />
+                  <Label htmlFor="response-shared" className="font-normal">Share with all staff</Label>
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <Button type="submit" disabled={isSaving || !form.title.trim() || !form.content.trim()} className="gap-2">
+                  {editingId ? <Pencil className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+                  {editingId ? 'Save Changes' : 'Add Response'}
+                </Button>
+                {editingId && (
+                  <Button type="button" variant="ghost" onClick={handleCancel}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <div className="space-y-3">
+          {cannedResponses.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center text-muted-foreground">
+                No canned responses yet
+              </CardContent>
+            </Card>
+          ) : (
+            cannedResponses.map(response => (
+              <Card key={response.id}>
+                <CardContent className="pt-6 space-y-2">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{response.title}</span>
+                      {response.shortcut && <Badge variant="outline">/{response.shortcut}</Badge>}
+                      <Badge variant="secondary">{response.is_shared ? 'Shared' : 'Personal'}</Badge>
+                      {response.set_status && (
+                        <Badge variant="outline" className="gap-1">
+                          <Zap className="h-3 w-3" />
+                          Status: {TICKET_STATUS_LABELS[response.set_status]}
+                        </Badge>
+                      )}
+                      {response.set_priority && (
+                        <Badge variant="outline" className="gap-1">
+                          <Zap className="h-3 w-3" />
+                          Priority: {TICKET_PRIORITY_LABELS[response.set_priority]}
+                        </Badge>
+                      )}
+                      {response.add_tag_id && (
+                        <Badge variant="outline" className="gap-1">
+                          <Hash className="h-3 w-3" />
+                          {tags.find(t => t.id === response.add_tag_id)?.name ?? 'Tag'}
+                        </Badge>
+                      )}
+                    </div>
+                    {canEdit(response) && (
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => handleEdit(response)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(response.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                  <p className="text-sm text-muted-foreground whitespace-pre-wrap">{response.content}</p>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default CannedResponses;
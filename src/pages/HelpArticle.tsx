@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Layout } from '@/components/Layout';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, Plus } from 'lucide-react';
+import { format } from 'date-fns';
+import { KbArticle } from '@/lib/knowledge-base';
+
+const HelpArticle = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const { user, userRole, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const signedIn = !!user;
+  const [article, setArticle] = useState<KbArticle | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchArticle = useCallback(async () => {
+    const { data } = await supabase
+      .from('kb_articles')
+      .select('id, title, slug, body, category_id, is_published, updated_at')
+      .eq('slug', slug)
+      .maybeSingle();
+
+    setArticle(data);
+    setLoading(false);
+
+    // Only signed-in readers are counted
+    if (data?.is_published && signedIn) {
+      await supabase.rpc('record_kb_article_view', { _article_id: data.id, _source: 'help_center' });
+    }
+  }, [slug, signedIn]);
+
+  useEffect(() => {
+    // Wait for the session so the view is attributed to the signed-in user
+    if (slug && !authLoading) {
+      fetchArticle();
+    }
+  }, [slug, authLoading, fetchArticle]);
+
+  return (
+    <Layout>
+      <div className="max-w-3xl mx-auto space-y-4">
+        <Button variant="ghost" onClick={() => navigate('/help')} className="gap-2">
+          <ArrowLeft className="h-4 w-4" />
+          Back to Help Center
+        </Button>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+          </div>
+        ) : !article ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              This article does not exist or is no longer available
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-2xl flex items-center gap-2">
+                {article.title}
+                {!article.is_published && <Badge variant="secondary">Draft</Badge>}
+              </CardTitle>
+              <CardDescription>Last updated {format(new Date(article.updated_at), 'PP')}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="text-sm leading-relaxed whitespace-pre-wrap">{article.body}</div>
+              {userRole === 'student' && (
+                <div className="flex items-center justify-between gap-4 rounded-lg border border-border p-4">
+                  <p className="text-sm text-muted-foreground">Didn't find what you were looking for?</p>
+                  <Button onClick={() => navigate('/new-ticket')} className="gap-2">
+                    <Plus className="h-4 w-4" />
+                    New Complaint
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default HelpArticle;
@@ -0,0 +1,140 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Layout } from '@/components/Layout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { BookOpen, Loader2, Search } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useKbSearch } from '@/hooks/use-kb-search';
+
+interface PublishedArticle {
+  id: string;
+  title: string;
+  slug: string;
+  category: { name: string } | null;
+}
+
+const HelpCenter = () => {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [articles, setArticles] = useState<PublishedArticle[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [query, setQuery] = useState('');
+  const { results, searching } = useKbSearch(query, 10);
+
+  const fetchArticles = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('kb_articles')
+      .select('id, title, slug, category:ticket_categories(name)')
+      .eq('is_published', true)
+      .order('title');
+
+    if (error) {
+      toast({ title: 'Error fetching articles', description: error.message, variant: 'destructive' });
+    } else {
+      setArticles(data || []);
+    }
+    setLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    fetchArticles();
+  }, [fetchArticles]);
+
+  const articlesByCategory = articles.reduce<Record<string, PublishedArticle[]>>((groups, article) => {
+    const category = article.category?.name ?? 'General';
+    (groups[category] ??= []).push(article);
+    return groups;
+  }, {});
+
+  const isSearching = query.trim().length >= 3;
+  const publishedResults = results.filter(r => r.is_published);
+
+  return (
+    <Layout>
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="text-center space-y-2">
+          <h1 className="text-3xl font-bold">Help Center</h1>
+          <p className="text-muted-foreground">Answers to common questions about leave, fees, equipment and more</p>
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search articles..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="pl-9 h-12"
+          />
+          {searching && <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 animate-spin text-muted-foreground" />}
+        </div>
+
+        {isSearching ? (
+          <div className="space-y-3">
+            {publishedResults.length === 0 && !searching ? (
+              <Card>
+                <CardContent className="py-12 text-center text-muted-foreground">
+                  No articles match "{query.trim()}"
+                </CardContent>
+              </Card>
+            ) : (
+              publishedResults.map(result => (
+                <Card
+                  key={result.id}
+                  className="cursor-pointer hover:shadow-md transition-shadow"
+                  onClick={() => navigate(`/help/${result.slug}`)}
+                >
+                  <CardHeader>
+                    <CardTitle className="text-lg">{result.title}</CardTitle>
+                    <CardDescription className="line-clamp-2">{result.excerpt}</CardDescription>
+                  </CardHeader>
+                </Card>
+              ))
+            )}
+          </div>
+        ) : loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+          </div>
+        ) : articles.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              No articles have been published yet
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {Object.entries(articlesByCategory).map(([category, categoryArticles]) => (
+              <Card key={category}>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-lg">
+                    <BookOpen className="h-5 w-5" />
+                    {category}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ul className="space-y-2">
+                    {categoryArticles.map(article => (
+                      <li key={article.id}>
+                        <button
+                          type="button"
+                          onClick={() => navigate(`/help/${article.slug}`)}
+                          className="text-left text-sm text-primary hover:underline"
+                        >
+                          {article.title}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default HelpCenter;
@@ -0,0 +1,340 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Layout } from '@/components/Layout';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BookOpen, ExternalLink, Eye, Pencil, Plus, ShieldCheck, Ticket, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useTicketCategories } from '@/hooks/use-ticket-categories';
+import { KbArticle, slugify } from '@/lib/knowledge-base';
+
+const NO_CATEGORY = 'none';
+
+interface ArticleStats {
+  views: number;
+  suggestion_opens: number;
+  deflections: number;
+}
+
+interface ArticleForm {
+  title: string;
+  slug: string;
+  body: string;
+  categoryId: string;
+  isPublished: boolean;
+}
+
+const EMPTY_FORM: ArticleForm = {
+  title: '',
+  slug: '',
+  body: '',
+  categoryId: NO_CATEGORY,
+  isPublished: false,
+};
+
+const KnowledgeBase = () => {
+  const { user, userRole, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const isStaff = userRole === 'staff' || userRole === 'admin';
+  const { topLevelCategories } = useTicketCategories();
+
+  const [articles, setArticles] = useState<KbArticle[]>([]);
+  const [stats, setStats] = useState<Record<string, ArticleStats>>({});
+  // Ticket each FAQ was published from, keyed by article
+  const [sourceTickets, setSourceTickets] = useState<Record<string, string>>({});
+  const [form, setForm] = useState<ArticleForm>(EMPTY_FORM);
+  const [slugEdited, setSlugEdited] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading && !isStaff) {
+      navigate('/');
+    }
+  }, [authLoading, isStaff, navigate]);
+
+  const refresh = useCallback(async () => {
+    const [articlesResult, statsResult, sourcesResult] = await Promise.all([
+      supabase
+        .from('kb_articles')
+        .select('id, title, slug, body, category_id, is_published, updated_at')
+        .order('updated_at', { ascending: false }),
+      supabase
+        .from('kb_article_stats')
+        .select('article_id, views, suggestion_opens, deflections'),
+      supabase
+        .from('kb_article_sources')
+        .select('article_id, ticket_id'),
+    ]);
+
+    setArticles(articlesResult.data || []);
+    setStats(Object.fromEntries(
+      (statsResult.data || []).map(s => [s.article_id, {
+        views: s.views ?? 0,
+        suggestion_opens: s.suggestion_opens ?? 0,
+        deflections: s.deflections ?? 0,
+      }])
+    ));
+    setSourceTickets(Object.fromEntries(
+      (sourcesResult.data || []).map(s => [s.article_id, s.ticket_id])
+    ));
+  }, []);
+
+  useEffect(() => {
+    if (isStaff) refresh();
+  }, [isStaff, refresh]);
+
+  const handleTitleChange = (title: string) => {
+    setForm(prev => ({ ...prev, title, slug: slugEdited ? prev.slug : slugify(title) }));
+  };
+
+  const handleEdit = (article: KbArticle) => {
+    setEditingId(article.id);
+    setSlugEdited(true);
+    setForm({
+      title: article.title,
+      slug: article.slug,
+      body: article.body,
+      categoryId: article.category_id ?? NO_CATEGORY,
+      isPublished: article.is_published,
+    });
+  };
+
+  const handleCancel = () => {
+    setEditingId(null);
+    setSlugEdited(false);
+    setForm(EMPTY_FORM);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !form.title.trim() || !form.slug || !form.body.trim()) return;
+
+    setIsSaving(true);
+
+    const values = {
+      title: form.title.trim(),
+      slug: form.slug,
+      body: form.body.trim(),
+      category_id: form.categoryId === NO_CATEGORY ? null : form.categoryId,
+      is_published: form.isPublished,
+      updated_by: user.id,
+    };
+
+    const { error } = editingId
+      ? await supabase.from('kb_articles').update(values).eq('id', editingId)
+      : await supabase.from('kb_articles').insert({ ...values, author_id: user.id });
+
+    if (error) {
+      const description = error.code === '23505' ? 'Another article already uses this slug' : error.message;
+      toast({ title: 'Error saving article', description, variant: 'destructive' });
+    } else {
+      toast({ title: editingId ? 'Article updated' : 'Article added' });
+      handleCancel();
+      refresh();
+    }
+
+    setIsSaving(false);
+  };
+
+  const handleDelete = async (articleId: string) => {
+    const { error } = await supabase
+      .from('kb_articles')
+      .delete()
+      .eq('id', articleId);
+
+    if (error) {
+      toast({ title: 'Error deleting article', description: error.message, variant: 'destructive' });
+    } else {
+      if (editingId === articleId) handleCancel();
+      refresh();
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Knowledge Base</h1>
+          <p className="text-muted-foreground">
+            Published articles appear in the public Help Center and are suggested to students while they write a complaint.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BookOpen className="h-5 w-5" />
+              {editingId ? 'Edit Article' : 'New Article'}
+            </CardTitle>
+            <CardDescription>
+              The slug becomes the article's address at /help/slug and is generated from the title until you change it.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSave} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="article-title">Title</Label>
+                  <Input
+                    id="article-title"
+                    placeholder="How do I apply for leave?"
+                    value={form.title}
+                    onChange={(e) => handleTitleChange(e.target.value)}
+                    maxLength={120}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="article-slug">Slug</Label>
+                  <Input
+                    id="article-slug"
+                    placeholder="how-do-i-apply-for-leave"
+                    value={form.slug}
+                    onChange={(e) => {
+                      setSlugEdited(true);
+                      setForm(prev => ({ ...prev, slug: e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, '') }));
+                    }}
+                    maxLength={80}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select
+                  value={form.categoryId}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, categoryId: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_CATEGORY}>General</SelectItem>
+                    {topLevelCategories.map(category => (
+                      <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="article-body">Article</Label>
+                <Textarea
+                  id="article-body"
+                  placeholder="Explain the answer step by step..."
+                  value={form.body}
+                  onChange={(e) => setForm(prev => ({ ...prev, body: e.target.value }))}
+                  rows={10}
+                />
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="article-published"
+                  checked={form.isPublished}
+                  onCheckedChange={(checked) => setForm(prev => ({ ...prev, isPublished: checked }))}
+                />
+                <Label htmlFor="article-published" className="font-normal">Published</Label>
+              </div>
+
+              <div className="flex gap-2">
+                <Button
+                  type="submit"
+                  disabled={isSaving || !form.title.trim() || !form.slug || !form.body.trim()}
+                  className="gap-2"
+                >
+                  {editingId ? <Pencil className="h-4 w-4" /> : <Plus className="h-4 w-4" />}
+                  {editingId ? 'Save Changes' : 'Add Article'}
+                </Button>
+                {editingId && (
+                  <Button type="button" variant="ghost" onClick={handleCancel}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <div className="space-y-3">
+          {articles.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center text-muted-foreground">
+                No articles yet
+              </CardContent>
+            </Card>
+          ) : (
+            articles.map(article => {
+              const articleStats = stats[article.id];
+              const deflectionRate = articleStats?.suggestion_opens
+                ? Math.round((articleStats.deflections / articleStats.suggestion_opens) * 100)
+                : null;
+
+              return (
+                <Card key={article.id}>
+                  <CardContent className="pt-6 space-y-2">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="font-medium">{article.title}</span>
+                        <Badge variant={article.is_published ? 'default' : 'secondary'}>
+                          {article.is_published ? 'Published' : 'Draft'}
+                        </Badge>
+                        <Badge variant="outline">
+                          {topLevelCategories.find(c => c.id === article.category_id)?.name ?? 'General'}
+                        </Badge>
+                        {sourceTickets[article.id] && (
+                          <Badge
+                            variant="outline"
+                            className="gap-1 cursor-pointer"
+                            onClick={() => navigate(`/ticket/${sourceTickets[article.id]}`)}
+                          >
+                            <Ticket className="h-3 w-3" />
+                            From ticket
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => navigate(`/help/${article.slug}`)}>
+                          <ExternalLink className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleEdit(article)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(article.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+                      <span className="flex items-center gap-1">
+                        <Eye className="h-3 w-3" />
+                        {articleStats?.views ?? 0} views
+                      </span>
+                      <span>{articleStats?.suggestion_opens ?? 0} opened from suggestions</span>
+                      <span className="flex items-center gap-1">
+                        <ShieldCheck className="h-3 w-3" />
+                        {articleStats?.deflections ?? 0} deflected
+                        {deflectionRate !== null && ` (${deflectionRate}%)`}
+                      </span>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default KnowledgeBase;
@@ -15,9 +15,14 @@ const Landing = () => {
             </div>
             <span className="text-xl font-bold">Brototype Support Desk</span>
           </div>
-          <Link to="/auth">
-            <Button variant="outline">Sign In</Button>
-          </Link>
+          <div className="flex items-center gap-2">
+            <Link to="/help">
+              <Button variant="ghost">Help Center</Button>
+            </Link>
+            <Link to="/auth">
+              <Button variant="outline">Sign In</Button>
+            </Link>
+          </div>
         </div>
       </header>
 
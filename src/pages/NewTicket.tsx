@@ -7,18 +7,33 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { ArrowLeft, Loader2, Send, Paperclip, X, FileText, Image as ImageIcon } from 'lucide-react';
+import { ArrowLeft, Loader2, Send, Paperclip, X, FileText, Image as ImageIcon, ShieldCheck } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useTicketCategories } from '@/hooks/use-ticket-categories';
+import { CoSigner, CoSignerInput } from '@/components/CoSignerInput';
+import { SimilarTickets } from '@/components/SimilarTickets';
+import { KbSuggestions } from '@/components/KbSuggestions';
 
 const NewTicket = () => {
+  const [categoryId, setCategoryId] = useState<string | null>(null);
+  const [subcategoryId, setSubcategoryId] = useState<string | null>(null);
   const [subject, setSubject] = useState('');
   const [message, setMessage] = useState('');
+  const [isConfidential, setIsConfidential] = useState(false);
+  const [coSigners, setCoSigners] = useState<CoSigner[]>([]);
+  // Identifies this draft so help articles opened while writing it can be tied to the ticket
+  const [draftId] = useState(() => crypto.randomUUID());
   const [isLoading, setIsLoading] = useState(false);
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const { user } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { topLevelCategories, subcategoriesOf } = useTicketCategories();
+  const subcategories = subcategoriesOf(categoryId);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -54,7 +69,7 @@ const NewTicket = () => {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!user || !subject.trim() || !message.trim()) return;
+    if (!user || !categoryId || !subject.trim() || !message.trim()) return;
 
     setIsLoading(true);
 
@@ -64,14 +79,31 @@ const NewTicket = () => {
         .from('tickets')
         .insert({
           student_id: user.id,
+          category_id: categoryId,
+          subcategory_id: subcategoryId,
           subject: subject.trim(),
           status: 'pending',
+          is_confidential: isConfidential,
         })
         .select()
         .single();
 
       if (ticketError) throw ticketError;
 
+      // Add classmates who share this issue
+      if (!isConfidential && coSigners.length > 0) {
+        const { error: participantsError } = await supabase
+          .from('ticket_participants')
+          .insert(coSigners.map(coSigner => ({
+            ticket_id: ticket.id,
+            student_id: coSigner.id,
+            added_by: user.id,
+            joined_via: 'co_signer',
+          })));
+
+        if (participantsError) throw participantsError;
+      }
+
       // Create first message
       const { data: messageData, error: messageError } = await supabase
         .from('messages')
@@ -81,7 +113,7 @@ const NewTicket = () => {
           message_type: 'text',
           content: message.trim(),
         })
-        .select()
+        .select('id')
         .single();
 
       if (messageError) throw messageError;
@@ -90,7 +122,7 @@ const NewTicket = () => {
       if (selectedFiles.length > 0) {
         for (const file of selectedFiles) {
           const fileExt = file.name.split('.').pop();
-          const fileName = `${user.id}/${messageData.id}/${crypto.randomUUID()}.${fileExt}`;
+          const fileName = `${messageData.id}/${crypto.randomUUID()}.${fileExt}`;
           
           const { error: uploadError } = await supabase.storage
             .from('ticket-attachments')
@@ -112,16 +144,19 @@ const NewTicket = () => {
         }
       }
 
+      // The student read suggestions but still filed, so those views were not deflections
+      await supabase.rpc('link_kb_views_to_ticket', { _draft_id: draftId, _ticket_id: ticket.id });
+
       toast({
         title: 'Ticket created!',
         description: 'Your complaint has been submitted successfully.',
       });
 
       navigate(`/ticket/${ticket.id}`);
-    } catch (error: any) {
+    } catch (error: unknown) {
       toast({
         title: 'Error creating ticket',
-        description: error.message,
+        description: error instanceof Error ? error.message : 'The ticket could not be created',
         variant: 'destructive',
       });
     } finally {
@@ -150,6 +185,44 @@ const NewTicket = () => {
           </CardHeader>
           <CardContent>
             <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="category">Category *</Label>
+                  <Select
+                    value={categoryId ?? undefined}
+                    onValueChange={(value) => {
+                      setCategoryId(value);
+                      setSubcategoryId(null);
+                    }}
+                  >
+                    <SelectTrigger id="category">
+                      <SelectValue placeholder="Select a category" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {topLevelCategories.map(category => (
+                        <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {subcategories.length > 0 && (
+                  <div className="space-y-2">
+                    <Label htmlFor="subcategory">Sub-category</Label>
+                    <Select value={subcategoryId ?? undefined} onValueChange={setSubcategoryId}>
+                      <SelectTrigger id="subcategory">
+                        <SelectValue placeholder="Select a sub-category" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {subcategories.map(subcategory => (
+                          <SelectItem key={subcategory.id} value={subcategory.id}>{subcategory.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="subject">Subject *</Label>
                 <Input
@@ -162,6 +235,10 @@ const NewTicket = () => {
                 />
               </div>
 
+              <KbSuggestions query={subject} draftId={draftId} />
+
+              {!isConfidential && <SimilarTickets query={subject} categoryId={categoryId} />}
+
               <div className="space-y-2">
                 <Label htmlFor="message">Message *</Label>
                 <Textarea
@@ -178,6 +255,56 @@ const NewTicket = () => {
                 </p>
               </div>
 
+              <div className="flex items-start gap-3 rounded-lg border border-border p-4">
+                <Switch
+                  id="confidential"
+                  checked={isConfidential}
+                  onCheckedChange={setIsConfidential}
+                  disabled={isLoading}
+                />
+                <div className="space-y-1">
+                  <Label htmlFor="confidential" className="flex items-center gap-2">
+                    <ShieldCheck className="h-4 w-4" />
+                    File confidentially
+                  </Label>
+                  <p className="text-sm text-muted-foreground">
+                    Use this for complaints about mentors, staff or harassment. Your name is replaced with a pseudonym
+                    and only a small group of designated admins can see this ticket. Your identity is only revealed
+                    if strictly necessary, and every reveal is recorded.
+                  </p>
+                </div>
+              </div>
+
+              {!isConfidential && (
+                <div className="space-y-2">
+                  <Label>Classmates affected (optional)</Label>
+                  <CoSignerInput
+                    excludeIds={[user?.id ?? '', ...coSigners.map(c => c.id)]}
+                    onAdd={(coSigner) => setCoSigners(prev => [...prev, coSigner])}
+                    disabled={isLoading}
+                  />
+                  {coSigners.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {coSigners.map(coSigner => (
+                        <Badge key={coSigner.id} variant="secondary" className="gap-1">
+                          {coSigner.name}
+                          <button
+                            type="button"
+                            onClick={() => setCoSigners(prev => prev.filter(c => c.id !== coSigner.id))}
+                            className="hover:text-destructive"
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  <p className="text-sm text-muted-foreground">
+                    Classmates you add can follow and reply to this ticket
+                  </p>
+                </div>
+              )}
+
               {/* File attachments */}
               <div className="space-y-2">
                 <Label>Attachments (optional)</Label>
@@ -231,7 +358,7 @@ const NewTicket = () => {
               <div className="flex gap-3">
                 <Button
                   type="submit"
-                  disabled={isLoading || !subject.trim() || !message.trim()}
+                  disabled={isLoading || !categoryId || !subject.trim() || !message.trim()}
                   className="flex-1 gap-2"
                   size="lg"
                 >
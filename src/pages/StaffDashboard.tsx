@@ -1,32 +1,287 @@
-import { useEffect, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
 import { Layout } from '@/components/Layout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { MessageSquare, Clock, Users, UserPlus } from 'lucide-react';
-import { formatDistanceToNow } from 'date-fns';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MessageSquare, Clock, Users, UserPlus, UserCheck, Tag, Hash, AlertTriangle, Hourglass, ShieldCheck, ArrowUpDown, Loader2, CheckCircle, ExternalLink, ListFilter } from 'lucide-react';
+import { formatDistanceToNow, subDays } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
+import { useTicketCategories } from '@/hooks/use-ticket-categories';
+import { useTags } from '@/hooks/use-tags';
+import { useStaffMembers } from '@/hooks/use-staff-members';
+import { useTicketList } from '@/hooks/use-ticket-list';
+import { useKeyboardShortcuts } from '@/hooks/use-keyboard-shortcuts';
+import { TicketStatusBadge } from '@/components/TicketStatusBadge';
+import { PriorityBadge } from '@/components/PriorityBadge';
+import { SlaBadge } from '@/components/SlaBadge';
+import { TicketSearch } from '@/components/TicketSearch';
+import { SavedViewsSidebar } from '@/components/SavedViewsSidebar';
+import { BulkActionBar } from '@/components/BulkActionBar';
+import { PaletteCommand } from '@/components/CommandPalette';
+import { cn } from '@/lib/utils';
+import {
+  ESCALATION_LEVEL_LABELS,
+  EscalationLevel,
+  TICKET_PRIORITIES,
+  TICKET_PRIORITY_LABELS,
+  TICKET_SORTS,
+  TICKET_SORT_LABELS,
+  TICKET_STATUSES,
+  TICKET_STATUS_LABELS,
+  TicketPriority,
+  TicketSort,
+  TicketStatus,
+  getStudentDisplayName,
+} from '@/lib/tickets';
+import {
+  QueueScope,
+  TICKET_AGE_FILTER_DAYS,
+  TicketViewState,
+  parseTicketView,
+  serializeTicketView,
+  toTicketListFilters,
+} from '@/lib/ticket-views';
 
 interface Ticket {
   id: string;
+  number: number;
   subject: string;
-  status: 'pending' | 'resolved';
+  status: TicketStatus;
+  priority: TicketPriority;
   created_at: string;
-  profiles: { name: string; email: string };
-  messages: { id: string }[];
+  first_response_due_at: string | null;
+  first_responded_at: string | null;
+  resolution_due_at: string | null;
+  assignee_id: string | null;
+  category_id: string | null;
+  escalation_level: EscalationLevel | null;
+  awaiting_student_since: string | null;
+  is_confidential: boolean;
+  pseudonym: string | null;
+  student_name: string | null;
+  assignee: { name: string } | null;
+  category: { name: string } | null;
+  subcategory: { name: string } | null;
+  message_count: number;
+  unread_count: number;
+  last_activity_at: string;
+  sla_due_at: string;
+  ticket_tags: { tags: { id: string; name: string } | null }[];
+  ticket_participants: { student_id: string }[];
+}
+
+interface QueueCount {
+  status: TicketStatus;
+  is_awaiting: boolean;
+  assignee_id: string | null;
+  ticket_count: number;
 }
 
+const TICKET_SELECT = `
+  *,
+  assignee:profiles!tickets_assignee_id_fkey (name),
+  category:ticket_categories!tickets_category_id_fkey (name),
+  subcategory:ticket_categories!tickets_subcategory_id_fkey (name),
+  ticket_tags (tags (id, name)),
+  ticket_participants (student_id)
+`;
+
+// Select values standing in for "no filter", which Radix selects cannot hold as null
+const ANY = 'any';
+
+const EMPTY_STATES: Record<TicketStatus, { title: string; description: string }> = {
+  pending: { title: 'All caught up!', description: 'No pending tickets at the moment' },
+  in_progress: { title: 'Nothing in progress', description: 'Tickets you start working on will appear here' },
+  completed: { title: 'No completed tickets', description: 'Completed tickets will appear here' },
+};
+
 const StaffDashboard = () => {
-  const [tickets, setTickets] = useState<Ticket[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [counts, setCounts] = useState<QueueCount[]>([]);
+  const [isAvailable, setIsAvailable] = useState(true);
+  // Bumped on every realtime change so the saved view counts refresh with the list
+  const [changeCount, setChangeCount] = useState(0);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // Ticket highlighted by j/k, which the single-key shortcuts act on
+  const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { topLevelCategories } = useTicketCategories(true);
+  const { tags } = useTags();
+  const { staffMembers } = useStaffMembers();
+  const { user, userRole } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
 
+  // The whole view lives in the URL so it can be bookmarked, shared and saved
+  const view = parseTicketView(searchParams);
+  const { scope, status: statusTab, sort, categoryId, tagId, assigneeId, priority, olderThanDays } = view;
+  const currentQuery = serializeTicketView(view);
+
+  const updateView = (changes: Partial<TicketViewState>) => {
+    setSearchParams(serializeTicketView({ ...view, ...changes }), { replace: true });
+  };
+
+  const { tickets, loading, loadingMore, hasMore, loadMore, refresh } = useTicketList<Ticket>(
+    TICKET_SELECT,
+    toTicketListFilters(view, user?.id),
+    sort,
+    !!user
+  );
+
+  // A selection only makes sense for the list it was made in
+  useEffect(() => {
+    setSelectedIds([]);
+    setFocusedIndex(null);
+  }, [currentQuery]);
+
+  const selectedTickets = tickets.filter(t => selectedIds.includes(t.id));
+  const isAllSelected = tickets.length > 0 && selectedTickets.length === tickets.length;
+
+  const handleToggleSelected = (ticketId: string, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, ticketId] : prev.filter(id => id !== ticketId));
+  };
+
+  const handleBulkDone = (failedIds: string[]) => {
+    setSelectedIds(failedIds);
+    refresh();
+    fetchCounts();
+  };
+
+  const focusedTicket = focusedIndex !== null ? tickets[focusedIndex] ?? null : null;
+
+  const moveFocus = (delta: number) => {
+    if (tickets.length === 0) return;
+
+    const next = focusedIndex === null ? 0 : Math.min(Math.max(focusedIndex + delta, 0), tickets.length - 1);
+    setFocusedIndex(next);
+    document.getElementById(`ticket-card-${tickets[next].id}`)?.scrollIntoView({ block: 'nearest' });
+  };
+
+  const handleQuickUpdate = async (
+    ticket: Ticket,
+    changes: { status?: TicketStatus; assignee_id?: string },
+    successTitle: string
+  ) => {
+    const { error } = await supabase.rpc('update_ticket', { _ticket_id: ticket.id, _changes: changes });
+
+    if (error) {
+      toast({
+        title: 'Error updating ticket',
+        description: error.message,
+        variant: 'destructive',
+      });
+      refresh();
+    } else {
+      toast({ title: successTitle, description: `#${ticket.number} ${ticket.subject}` });
+      refresh();
+      fetchCounts();
+    }
+  };
+
+  // Same rule as in the thread: assigned tickets can only be changed by their assignee or an admin
+  const canManage = (ticket: Ticket) =>
+    ticket.status !== 'completed' && (!ticket.assignee_id || ticket.assignee_id === user?.id || userRole === 'admin');
+  const canManageFocused = focusedTicket !== null && canManage(focusedTicket);
+  const canAssignFocusedToMe = canManageFocused && !!user && focusedTicket.assignee_id !== user.id;
+
+  const completeTicket = (ticket: Ticket) =>
+    handleQuickUpdate(ticket, { status: 'completed' }, 'Ticket completed!');
+  const assignTicketToMe = (ticket: Ticket) =>
+    user && handleQuickUpdate(ticket, { assignee_id: user.id }, 'Ticket assigned to you');
+
+  useKeyboardShortcuts({
+    j: () => moveFocus(1),
+    k: () => moveFocus(-1),
+    ...(focusedTicket && {
+      o: () => navigate(`/ticket/${focusedTicket.id}`),
+      x: () => handleToggleSelected(focusedTicket.id, !selectedIds.includes(focusedTicket.id)),
+      r: () => navigate(`/ticket/${focusedTicket.id}#reply`),
+    }),
+    ...(canManageFocused && {
+      e: () => completeTicket(focusedTicket),
+    }),
+    ...(canAssignFocusedToMe && {
+      a: () => assignTicketToMe(focusedTicket),
+    }),
+  });
+
+  const paletteCommands: PaletteCommand[] = [
+    ...TICKET_STATUSES.map(status => ({
+      id: `status-${status}`,
+      group: 'Ticket list',
+      label: `Show ${TICKET_STATUS_LABELS[status].toLowerCase()} tickets`,
+      icon: ListFilter,
+      onSelect: () => updateView({ status }),
+    })),
+    ...(focusedTicket ? [
+      {
+        id: 'focused-open',
+        group: `#${focusedTicket.number} ${focusedTicket.subject}`,
+        label: 'Open ticket',
+        icon: ExternalLink,
+        shortcut: 'o',
+        onSelect: () => navigate(`/ticket/${focusedTicket.id}`),
+      },
+    ] : []),
+    ...(canManageFocused ? [
+      {
+        id: 'focused-complete',
+        group: `#${focusedTicket.number} ${focusedTicket.subject}`,
+        label: 'Complete ticket',
+        icon: CheckCircle,
+        shortcut: 'e',
+        onSelect: () => completeTicket(focusedTicket),
+      },
+    ] : []),
+    ...(canAssignFocusedToMe ? [
+      {
+        id: 'focused-assign',
+        group: `#${focusedTicket.number} ${focusedTicket.subject}`,
+        label: 'Assign to me',
+        icon: UserCheck,
+        shortcut: 'a',
+        onSelect: () => assignTicketToMe(focusedTicket),
+      },
+    ] : []),
+  ];
+
+  const fetchCounts = useCallback(async () => {
+    const { data, error } = await supabase.rpc('ticket_queue_counts', {
+      _category_id: categoryId ?? undefined,
+      _tag_id: tagId ?? undefined,
+      _priority: priority ?? undefined,
+      _created_before: olderThanDays ? subDays(new Date(), olderThanDays).toISOString() : undefined,
+    });
+
+    if (error) {
+      toast({
+        title: 'Error fetching ticket counts',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setCounts(data || []);
+    }
+  }, [categoryId, tagId, priority, olderThanDays, toast]);
+
+  useEffect(() => {
+    fetchCounts();
+  }, [fetchCounts]);
+
   useEffect(() => {
-    fetchTickets();
+    const handleChange = () => {
+      refresh();
+      fetchCounts();
+      setChangeCount(prev => prev + 1);
+    };
     
     // Subscribe to realtime updates
     const channel = supabase
@@ -38,79 +293,198 @@ const StaffDashboard = () => {
           schema: 'public',
           table: 'tickets'
         },
-        () => {
-          fetchTickets();
-        }
+        handleChange
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'ticket_tags'
+        },
+        handleChange
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'ticket_participants'
+        },
+        handleChange
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages'
+        },
+        // New replies change unread counts and last activity
+        handleChange
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'ticket_events'
+        },
+        // Reviewers get no tickets changes for confidential tickets, but do get their events
+        handleChange
       )
       .subscribe();
 
     return () => {
       supabase.removeChannel(channel);
     };
-  }, []);
-
-  const fetchTickets = async () => {
-    const { data, error } = await supabase
-      .from('tickets')
-      .select(`
-        *,
-        profiles (name, email),
-        messages (id)
-      `)
-      .order('created_at', { ascending: false });
+  }, [refresh, fetchCounts]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    supabase
+      .from('profiles')
+      .select('is_available')
+      .eq('id', user.id)
+      .single()
+      .then(({ data }) => {
+        if (data) setIsAvailable(data.is_available);
+      });
+  }, [user]);
+
+  const handleAvailabilityChange = async (checked: boolean) => {
+    if (!user) return;
+
+    setIsAvailable(checked);
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ is_available: checked })
+      .eq('id', user.id);
 
     if (error) {
+      setIsAvailable(!checked);
       toast({
-        title: 'Error fetching tickets',
+        title: 'Error updating availability',
         description: error.message,
         variant: 'destructive',
       });
-    } else {
-      setTickets(data || []);
     }
-    setLoading(false);
   };
 
-  const pendingTickets = tickets.filter(t => t.status === 'pending');
-  const resolvedTickets = tickets.filter(t => t.status === 'resolved');
+  const isInScope = (assigneeId: string | null, queueScope: QueueScope) => {
+    if (queueScope === 'mine') return assigneeId === user?.id;
+    if (queueScope === 'unassigned') return !assigneeId;
+    return !view.assigneeId || assigneeId === view.assigneeId;
+  };
+
+  const countWhere = (predicate: (count: QueueCount) => boolean) =>
+    counts.filter(predicate).reduce((sum, c) => sum + c.ticket_count, 0);
+  const scopeCount = (queueScope: QueueScope) => countWhere(c => isInScope(c.assignee_id, queueScope));
+  const scopedCount = (predicate: (count: QueueCount) => boolean) =>
+    countWhere(c => isInScope(c.assignee_id, scope) && predicate(c));
+  const statusCount = (status: TicketStatus) => scopedCount(c => c.status === status);
+  // Tickets waiting on the student are not actionable for staff, so they are counted separately
+  const isAwaitingStudent = (ticket: Ticket) => !!ticket.awaiting_student_since && ticket.status !== 'completed';
 
   const TicketCard = ({ ticket }: { ticket: Ticket }) => (
     <Card
-      className="cursor-pointer hover:shadow-lg transition-all duration-200 hover:-translate-y-1"
+      id={`ticket-card-${ticket.id}`}
+      className={cn(
+        'cursor-pointer hover:shadow-lg transition-all duration-200 hover:-translate-y-1',
+        ticket.escalation_level && ticket.status !== 'completed' && 'border-2 border-destructive',
+        focusedTicket?.id === ticket.id && 'ring-2 ring-primary'
+      )}
       onClick={() => navigate(`/ticket/${ticket.id}`)}
     >
       <CardHeader>
         <div className="flex items-start justify-between gap-4">
+          <Checkbox
+            checked={selectedIds.includes(ticket.id)}
+            onCheckedChange={(checked) => handleToggleSelected(ticket.id, checked === true)}
+            onClick={(e) => e.stopPropagation()}
+            aria-label={`Select ${ticket.subject}`}
+            className="mt-1.5"
+          />
           <div className="flex-1 min-w-0">
             <CardTitle className="text-lg mb-1 truncate">
+              <span className="text-muted-foreground font-normal mr-2">#{ticket.number}</span>
               {ticket.subject}
             </CardTitle>
             <CardDescription className="flex items-center gap-2">
-              <Users className="h-3 w-3" />
-              {ticket.profiles.name}
+              {ticket.is_confidential ? <ShieldCheck className="h-3 w-3" /> : <Users className="h-3 w-3" />}
+              {getStudentDisplayName(ticket)}
+              {ticket.category && (
+                <>
+                  <Tag className="h-3 w-3 ml-2" />
+                  {ticket.category.name}
+                  {ticket.subcategory && ` / ${ticket.subcategory.name}`}
+                </>
+              )}
             </CardDescription>
           </div>
-          <Badge
-            variant={ticket.status === 'resolved' ? 'default' : 'secondary'}
-            className={
-              ticket.status === 'resolved'
-                ? 'bg-success text-success-foreground'
-                : 'bg-warning text-warning-foreground'
-            }
-          >
-            {ticket.status === 'pending' ? 'Pending' : 'Resolved'}
-          </Badge>
+          <div className="flex items-center gap-2">
+            {ticket.escalation_level && ticket.status !== 'completed' && (
+              <Badge variant="destructive" className="gap-1">
+                <AlertTriangle className="h-3 w-3" />
+                {ESCALATION_LEVEL_LABELS[ticket.escalation_level]}
+              </Badge>
+            )}
+            {ticket.ticket_participants.length > 0 && (
+              <Badge variant="secondary" className="gap-1" title="Students affected by this issue">
+                <Users className="h-3 w-3" />
+                {ticket.ticket_participants.length + 1} affected
+              </Badge>
+            )}
+            {isAwaitingStudent(ticket) && (
+              <Badge variant="outline" className="gap-1 border-warning text-warning">
+                <Hourglass className="h-3 w-3" />
+                Awaiting Student
+              </Badge>
+            )}
+            <PriorityBadge priority={ticket.priority} />
+            <TicketStatusBadge status={ticket.status} />
+          </div>
         </div>
+        {ticket.ticket_tags.length > 0 && (
+          <div className="flex flex-wrap gap-1 pt-1">
+            {ticket.ticket_tags.map(({ tags: tag }) => tag && (
+              <Badge key={tag.id} variant="secondary" className="gap-1 font-normal">
+                <Hash className="h-3 w-3" />
+                {tag.name}
+              </Badge>
+            ))}
+          </div>
+        )}
+        {ticket.status !== 'completed' && (
+          <div className="pt-1">
+            {ticket.first_responded_at ? (
+              <SlaBadge label="Resolution" dueAt={ticket.resolution_due_at} metAt={null} />
+            ) : (
+              <SlaBadge label="Response" dueAt={ticket.first_response_due_at} metAt={null} />
+            )}
+          </div>
+        )}
       </CardHeader>
       <CardContent>
         <div className="flex items-center justify-between text-sm text-muted-foreground">
           <div className="flex items-center gap-2">
             <MessageSquare className="h-4 w-4" />
-            <span>{ticket.messages.length} message{ticket.messages.length !== 1 ? 's' : ''}</span>
+            <span>{ticket.message_count} message{ticket.message_count !== 1 ? 's' : ''}</span>
+            {ticket.unread_count > 0 && (
+              <Badge className="h-5 px-1.5">{ticket.unread_count} new</Badge>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <UserCheck className="h-3 w-3" />
+            {ticket.assignee_id === user?.id ? 'You' : ticket.assignee?.name ?? 'Unassigned'}
           </div>
           <div className="flex items-center gap-2">
             <Clock className="h-3 w-3" />
-            {formatDistanceToNow(new Date(ticket.created_at), { addSuffix: true })}
+            {sort === 'last_activity'
+              ? `Active ${formatDistanceToNow(new Date(ticket.last_activity_at), { addSuffix: true })}`
+              : formatDistanceToNow(new Date(ticket.created_at), { addSuffix: true })}
           </div>
         </div>
       </CardContent>
@@ -118,89 +492,237 @@ const StaffDashboard = () => {
   );
 
   return (
-    <Layout>
-      <div className="max-w-6xl mx-auto space-y-6">
+    <Layout commands={paletteCommands}>
+      <div className="max-w-7xl mx-auto space-y-6">
         <div className="flex items-center justify-between">
           <div>
             <h1 className="text-3xl font-bold">Staff Dashboard</h1>
             <p className="text-muted-foreground mt-1">Manage and respond to student tickets</p>
           </div>
-          <Button onClick={() => navigate('/invite-staff')} className="gap-2">
-            <UserPlus className="w-4 h-4" />
-            Invite Staff
-          </Button>
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Switch id="staff-available" checked={isAvailable} onCheckedChange={handleAvailabilityChange} />
+              <Label htmlFor="staff-available" className="text-sm">
+                {isAvailable ? 'Available for new tickets' : 'Unavailable'}
+              </Label>
+            </div>
+            <Button onClick={() => navigate('/invite-staff')} className="gap-2">
+              <UserPlus className="w-4 h-4" />
+              Invite Staff
+            </Button>
+          </div>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          <Card>
-            <CardHeader className="pb-3">
-              <CardDescription>Total Tickets</CardDescription>
-              <CardTitle className="text-3xl">{tickets.length}</CardTitle>
-            </CardHeader>
-          </Card>
-          <Card>
-            <CardHeader className="pb-3">
-              <CardDescription>Pending</CardDescription>
-              <CardTitle className="text-3xl text-warning">{pendingTickets.length}</CardTitle>
-            </CardHeader>
-          </Card>
-          <Card>
-            <CardHeader className="pb-3">
-              <CardDescription>Resolved</CardDescription>
-              <CardTitle className="text-3xl text-success">{resolvedTickets.length}</CardTitle>
-            </CardHeader>
-          </Card>
-        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-[240px_1fr] gap-6 items-start">
+          <SavedViewsSidebar
+            currentQuery={currentQuery}
+            onSelect={(query) => setSearchParams(query)}
+            refreshKey={changeCount}
+          />
+
+          <div className="space-y-6 min-w-0">
+            <TicketSearch />
 
-        {loading ? (
-          <div className="text-center py-12">
-            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
-            <p className="text-muted-foreground mt-4">Loading tickets...</p>
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <ToggleGroup
+                type="single"
+                value={scope}
+                onValueChange={(value) => value && updateView({ scope: value as QueueScope })}
+                className="justify-start"
+              >
+                <ToggleGroupItem value="mine">Mine ({scopeCount('mine')})</ToggleGroupItem>
+                <ToggleGroupItem value="unassigned">Unassigned ({scopeCount('unassigned')})</ToggleGroupItem>
+                <ToggleGroupItem value="all">All ({scopeCount('all')})</ToggleGroupItem>
+              </ToggleGroup>
+
+              <div className="flex flex-wrap gap-2">
+                {scope === 'all' && (
+                  <Select
+                    value={assigneeId ?? ANY}
+                    onValueChange={(value) => updateView({ assigneeId: value === ANY ? null : value })}
+                  >
+                    <SelectTrigger className="w-[180px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Any Assignee</SelectItem>
+                      {staffMembers.map(staff => (
+                        <SelectItem key={staff.id} value={staff.id}>{staff.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+
+                <Select
+                  value={categoryId ?? ANY}
+                  onValueChange={(value) => updateView({ categoryId: value === ANY ? null : value })}
+                >
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>All Categories</SelectItem>
+                    {topLevelCategories.map(category => (
+                      <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <Select
+                  value={tagId ?? ANY}
+                  onValueChange={(value) => updateView({ tagId: value === ANY ? null : value })}
+                >
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>All Tags</SelectItem>
+                    {tags.map(tag => (
+                      <SelectItem key={tag.id} value={tag.id}>#{tag.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <Select
+                  value={priority ?? ANY}
+                  onValueChange={(value) => updateView({ priority: value === ANY ? null : value as TicketPriority })}
+                >
+                  <SelectTrigger className="w-[150px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>All Priorities</SelectItem>
+                    {TICKET_PRIORITIES.map(option => (
+                      <SelectItem key={option} value={option}>{TICKET_PRIORITY_LABELS[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <Select
+                  value={olderThanDays ? String(olderThanDays) : ANY}
+                  onValueChange={(value) => updateView({ olderThanDays: value === ANY ? null : Number(value) })}
+                >
+                  <SelectTrigger className="w-[150px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Any Age</SelectItem>
+                    {TICKET_AGE_FILTER_DAYS.map(days => (
+                      <SelectItem key={days} value={String(days)}>
+                        Older than {days} day{days !== 1 ? 's' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <Select value={sort} onValueChange={(value) => updateView({ sort: value as TicketSort })}>
+                  <SelectTrigger className="w-[180px] gap-2">
+                    <ArrowUpDown className="h-4 w-4 text-muted-foreground" />
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TICKET_SORTS.map(option => (
+                      <SelectItem key={option} value={option}>{TICKET_SORT_LABELS[option]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardDescription>Total Tickets</CardDescription>
+                  <CardTitle className="text-3xl">{scopeCount(scope)}</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardDescription>Pending</CardDescription>
+                  <CardTitle className="text-3xl text-warning">{scopedCount(c => c.status === 'pending' && !c.is_awaiting)}</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardDescription>Awaiting Student</CardDescription>
+                  <CardTitle className="text-3xl text-muted-foreground">{scopedCount(c => c.is_awaiting)}</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardDescription>In Progress</CardDescription>
+                  <CardTitle className="text-3xl text-primary">{statusCount('in_progress')}</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardDescription>Completed</CardDescription>
+                  <CardTitle className="text-3xl text-success">{statusCount('completed')}</CardTitle>
+                </CardHeader>
+              </Card>
+            </div>
+
+            <Tabs value={statusTab} onValueChange={(value) => updateView({ status: value as TicketStatus })} className="w-full">
+              <TabsList className="grid w-full grid-cols-3">
+                {TICKET_STATUSES.map((status) => (
+                  <TabsTrigger key={status} value={status}>
+                    {TICKET_STATUS_LABELS[status]} ({statusCount(status)})
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+
+              {TICKET_STATUSES.map((status) => (
+                <TabsContent key={status} value={status} className="space-y-4 mt-6 animate-fade-in">
+                  {loading ? (
+                    <div className="text-center py-12">
+                      <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
+                      <p className="text-muted-foreground mt-4">Loading tickets...</p>
+                    </div>
+                  ) : tickets.length === 0 ? (
+                    <Card className="text-center py-12 border-dashed">
+                      <CardContent className="pt-6">
+                        <MessageSquare className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+                        <h3 className="text-xl font-semibold mb-2">{EMPTY_STATES[status].title}</h3>
+                        <p className="text-muted-foreground">
+                          {EMPTY_STATES[status].description}
+                        </p>
+                      </CardContent>
+                    </Card>
+                  ) : (
+                    <>
+                      <div className="flex items-center gap-2 px-1">
+                        <Checkbox
+                          id="select-all-tickets"
+                          checked={isAllSelected}
+                          onCheckedChange={(checked) => setSelectedIds(checked === true ? tickets.map(t => t.id) : [])}
+                        />
+                        <Label htmlFor="select-all-tickets" className="text-sm font-normal text-muted-foreground">
+                          Select all {tickets.length} shown
+                        </Label>
+                      </div>
+                      {selectedTickets.length > 0 && (
+                        <BulkActionBar
+                          tickets={selectedTickets}
+                          onClear={() => setSelectedIds([])}
+                          onDone={handleBulkDone}
+                        />
+                      )}
+                      {tickets.map((ticket) => <TicketCard key={ticket.id} ticket={ticket} />)}
+                      {hasMore && (
+                        <div className="flex justify-center">
+                          <Button variant="outline" onClick={loadMore} disabled={loadingMore} className="gap-2">
+                            {loadingMore && <Loader2 className="h-4 w-4 animate-spin" />}
+                            Load More
+                          </Button>
+                        </div>
+                      )}
+                    </>
+                  )}
+                </TabsContent>
+              ))}
+            </Tabs>
           </div>
-        ) : (
-          <Tabs defaultValue="pending" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
-              <TabsTrigger value="pending">
-                Pending ({pendingTickets.length})
-              </TabsTrigger>
-              <TabsTrigger value="resolved">
-                Resolved ({resolvedTickets.length})
-              </TabsTrigger>
-            </TabsList>
-
-            <TabsContent value="pending" className="space-y-4 mt-6 animate-fade-in">
-              {pendingTickets.length === 0 ? (
-                <Card className="text-center py-12 border-dashed">
-                  <CardContent className="pt-6">
-                    <MessageSquare className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
-                    <h3 className="text-xl font-semibold mb-2">All caught up!</h3>
-                    <p className="text-muted-foreground">
-                      No pending tickets at the moment
-                    </p>
-                  </CardContent>
-                </Card>
-              ) : (
-                pendingTickets.map((ticket) => <TicketCard key={ticket.id} ticket={ticket} />)
-              )}
-            </TabsContent>
-
-            <TabsContent value="resolved" className="space-y-4 mt-6 animate-fade-in">
-              {resolvedTickets.length === 0 ? (
-                <Card className="text-center py-12 border-dashed">
-                  <CardContent className="pt-6">
-                    <MessageSquare className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
-                    <h3 className="text-xl font-semibold mb-2">No resolved tickets</h3>
-                    <p className="text-muted-foreground">
-                      Resolved tickets will appear here
-                    </p>
-                  </CardContent>
-                </Card>
-              ) : (
-                resolvedTickets.map((ticket) => <TicketCard key={ticket.id} ticket={ticket} />)
-              )}
-            </TabsContent>
-          </Tabs>
-        )}
+        </div>
       </div>
     </Layout>
   );
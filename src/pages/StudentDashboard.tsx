@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
@@ -6,54 +6,65 @@ import { Layout } from '@/components/Layout';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Plus, MessageSquare, Clock } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, MessageSquare, Clock, Hourglass, Star, Users, ArrowUpDown, Loader2 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
-import { useToast } from '@/hooks/use-toast';
+import { TicketStatusBadge } from '@/components/TicketStatusBadge';
+import { TicketRatingForm } from '@/components/TicketRatingForm';
+import { TicketSearch } from '@/components/TicketSearch';
+import { TICKET_SORT_LABELS, TicketRating, TicketSort, TicketStatus } from '@/lib/tickets';
+import { useTicketList } from '@/hooks/use-ticket-list';
 
 interface Ticket {
   id: string;
   subject: string;
-  status: 'pending' | 'resolved';
+  status: TicketStatus;
+  student_id: string;
   created_at: string;
-  messages: { id: string }[];
+  awaiting_student_since: string | null;
+  message_count: number;
+  unread_count: number;
+  last_activity_at: string;
+  sla_due_at: string;
 }
 
+interface UnratedTicket {
+  id: string;
+  subject: string;
+  ticket_ratings: TicketRating | null;
+}
+
+// SLA deadlines are internal to staff, so students only get the time-based orders
+const STUDENT_SORTS: TicketSort[] = ['newest', 'oldest', 'last_activity'];
+
 const StudentDashboard = () => {
-  const [tickets, setTickets] = useState<Ticket[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [sort, setSort] = useState<TicketSort>('newest');
+  const [unratedTickets, setUnratedTickets] = useState<UnratedTicket[]>([]);
   const { user } = useAuth();
   const navigate = useNavigate();
-  const { toast } = useToast();
-
-  useEffect(() => {
-    if (user) {
-      fetchTickets();
-    }
-  }, [user]);
+  // RLS limits students to tickets they filed or joined
+  const { tickets, loading, loadingMore, hasMore, loadMore } = useTicketList<Ticket>('*', {}, sort, !!user);
 
-  const fetchTickets = async () => {
+  // Completed tickets the student filed and has not rated yet
+  const fetchUnratedTickets = useCallback(async () => {
     if (!user) return;
 
-    const { data, error } = await supabase
+    const { data } = await supabase
       .from('tickets')
-      .select(`
-        *,
-        messages (id)
-      `)
+      .select('id, subject, ticket_ratings (rating, comment)')
       .eq('student_id', user.id)
-      .order('created_at', { ascending: false });
+      .eq('status', 'completed')
+      .order('created_at', { ascending: false })
+      .limit(20);
 
-    if (error) {
-      toast({
-        title: 'Error fetching tickets',
-        description: error.message,
-        variant: 'destructive',
-      });
-    } else {
-      setTickets(data || []);
+    setUnratedTickets((data || []).filter(t => !t.ticket_ratings));
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      fetchUnratedTickets();
     }
-    setLoading(false);
-  };
+  }, [user, fetchUnratedTickets]);
 
   return (
     <Layout>
@@ -73,6 +84,34 @@ const StudentDashboard = () => {
           </Button>
         </div>
 
+        <TicketSearch placeholder="Search your tickets and replies..." />
+
+        {unratedTickets.length > 0 && (
+          <Card className="border-primary/50 bg-primary/5">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Star className="h-5 w-5 text-warning" />
+                How did we do?
+              </CardTitle>
+              <CardDescription>Rate your resolved tickets to help us improve our support</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {unratedTickets.slice(0, 3).map(ticket => (
+                <div key={ticket.id} className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                  <button
+                    type="button"
+                    onClick={() => navigate(`/ticket/${ticket.id}`)}
+                    className="text-sm font-medium truncate text-left hover:underline"
+                  >
+                    {ticket.subject}
+                  </button>
+                  <TicketRatingForm ticketId={ticket.id} rating={null} onRated={fetchUnratedTickets} showComment={false} />
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {loading ? (
           <div className="text-center py-12">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto"></div>
@@ -94,6 +133,19 @@ const StudentDashboard = () => {
           </Card>
         ) : (
           <div className="space-y-4 animate-fade-in">
+            <div className="flex justify-end">
+              <Select value={sort} onValueChange={(value) => setSort(value as TicketSort)}>
+                <SelectTrigger className="w-[180px] gap-2">
+                  <ArrowUpDown className="h-4 w-4 text-muted-foreground" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STUDENT_SORTS.map(option => (
+                    <SelectItem key={option} value={option}>{TICKET_SORT_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             {tickets.map((ticket) => (
               <Card
                 key={ticket.id}
@@ -111,26 +163,42 @@ const StudentDashboard = () => {
                         {formatDistanceToNow(new Date(ticket.created_at), { addSuffix: true })}
                       </CardDescription>
                     </div>
-                    <Badge
-                      variant={ticket.status === 'resolved' ? 'default' : 'secondary'}
-                      className={
-                        ticket.status === 'resolved'
-                          ? 'bg-success text-success-foreground'
-                          : 'bg-warning text-warning-foreground'
-                      }
-                    >
-                      {ticket.status === 'pending' ? 'Pending' : 'Resolved'}
-                    </Badge>
+                    <div className="flex items-center gap-2">
+                      {ticket.student_id !== user?.id && (
+                        <Badge variant="secondary" className="gap-1">
+                          <Users className="h-3 w-3" />
+                          Joined
+                        </Badge>
+                      )}
+                      {ticket.awaiting_student_since && ticket.status !== 'completed' && (
+                        <Badge variant="outline" className="gap-1 border-warning text-warning">
+                          <Hourglass className="h-3 w-3" />
+                          Awaiting your reply
+                        </Badge>
+                      )}
+                      <TicketStatusBadge status={ticket.status} />
+                    </div>
                   </div>
                 </CardHeader>
                 <CardContent>
                   <div className="flex items-center gap-2 text-sm text-muted-foreground">
                     <MessageSquare className="h-4 w-4" />
-                    <span>{ticket.messages.length} message{ticket.messages.length !== 1 ? 's' : ''}</span>
+                    <span>{ticket.message_count} message{ticket.message_count !== 1 ? 's' : ''}</span>
+                    {ticket.unread_count > 0 && (
+                      <Badge className="h-5 px-1.5">{ticket.unread_count} new</Badge>
+                    )}
                   </div>
                 </CardContent>
               </Card>
             ))}
+            {hasMore && (
+              <div className="flex justify-center">
+                <Button variant="outline" onClick={loadMore} disabled={loadingMore} className="gap-2">
+                  {loadingMore && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Load More
+                </Button>
+              </div>
+            )}
           </div>
         )}
       </div>
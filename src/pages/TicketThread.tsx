@@ -1,17 +1,42 @@
-import { useEffect, useState, useRef } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { Fragment, useEffect, useState, useRef } from 'react';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
+import { RealtimeChannel } from '@supabase/supabase-js';
 import { Layout } from '@/components/Layout';
+import { PaletteCommand } from '@/components/CommandPalette';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, Send, CheckCircle, Loader2, Paperclip, X, FileText, Image as ImageIcon } from 'lucide-react';
-import { formatDistanceToNow } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, Send, CheckCircle, Loader2, Paperclip, X, FileText, Image as ImageIcon, PlayCircle, UserCheck, Hand, RotateCcw, Lock, Zap, AlertTriangle, Hourglass, Star, ShieldCheck, GitMerge, Reply } from 'lucide-react';
+import { addDays, format, formatDistanceToNow } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
+import { useStaffMembers } from '@/hooks/use-staff-members';
+import { useCannedResponses } from '@/hooks/use-canned-responses';
+import { useTags } from '@/hooks/use-tags';
+import { useKeyboardShortcuts } from '@/hooks/use-keyboard-shortcuts';
 import { cn } from '@/lib/utils';
 import { MediaPreview } from '@/components/MediaPreview';
+import { TicketStatusBadge } from '@/components/TicketStatusBadge';
+import { PriorityBadge } from '@/components/PriorityBadge';
+import { SlaBadge } from '@/components/SlaBadge';
+import { TicketEventItem } from '@/components/TicketEventItem';
+import { CannedResponsePicker } from '@/components/CannedResponsePicker';
+import { TicketTagEditor } from '@/components/TicketTagEditor';
+import { EscalateTicketDialog } from '@/components/EscalateTicketDialog';
+import { TicketRatingForm } from '@/components/TicketRatingForm';
+import { TicketParticipant, TicketParticipants } from '@/components/TicketParticipants';
+import { RevealedIdentity, RevealIdentityDialog } from '@/components/RevealIdentityDialog';
+import { FaqReply, PublishFaqDialog } from '@/components/PublishFaqDialog';
+import { MessageActions } from '@/components/MessageActions';
+import { MessageHistoryDialog } from '@/components/MessageHistoryDialog';
+import { StaffPresence, TicketPresence, TicketViewer, TicketViewers, TypingIndicator } from '@/components/TicketPresence';
+import { CannedResponse, hasMacroActions, renderCannedResponse } from '@/lib/canned-responses';
+import { CSAT_LABELS, ESCALATION_LEVEL_LABELS, EscalationLevel, TICKET_PRIORITIES, TICKET_PRIORITY_LABELS, TICKET_STATUS_LABELS, TicketEvent, TicketPriority, TicketRating, TicketStatus, TicketTag, getStudentDisplayName } from '@/lib/tickets';
 
 interface MediaAsset {
   id: string;
@@ -23,51 +48,136 @@ interface Message {
   id: string;
   content: string | null;
   message_type: string;
+  is_internal: boolean;
+  created_at: string;
+  edited_at: string | null;
+  deleted_at: string | null;
+  sender_id: string | null;
+  sender_name: string | null;
+  is_ticket_student: boolean;
+  media_assets?: MediaAsset[];
+}
+
+interface Escalation {
+  level: EscalationLevel;
+  reason: string;
   created_at: string;
-  sender_id: string;
   profiles: {
     name: string;
-    email: string;
-  };
-  media_assets?: MediaAsset[];
+  } | null;
 }
 
 interface Ticket {
   id: string;
+  number: number;
   subject: string;
-  status: 'pending' | 'resolved';
+  status: TicketStatus;
+  priority: TicketPriority;
   created_at: string;
-  student_id: string;
-  profiles: {
+  first_response_due_at: string | null;
+  first_responded_at: string | null;
+  resolution_due_at: string | null;
+  reopen_count: number;
+  escalation_level: EscalationLevel | null;
+  awaiting_student_since: string | null;
+  finalized_at: string | null;
+  is_confidential: boolean;
+  pseudonym: string | null;
+  student_id: string | null;
+  student_name: string | null;
+  assignee_id: string | null;
+  category_id: string | null;
+  merged_into_id: string | null;
+  assignee: {
     name: string;
-    email: string;
-  };
+  } | null;
+  category: {
+    name: string;
+  } | null;
+  subcategory: {
+    name: string;
+  } | null;
 }
 
 const TicketThread = () => {
   const { id } = useParams<{ id: string }>();
   const [ticket, setTicket] = useState<Ticket | null>(null);
   const [messages, setMessages] = useState<Message[]>([]);
+  const [events, setEvents] = useState<TicketEvent[]>([]);
+  const [profileNames, setProfileNames] = useState<Record<string, string>>({});
+  const [ticketTags, setTicketTags] = useState<TicketTag[]>([]);
+  const [escalation, setEscalation] = useState<Escalation | null>(null);
   const [newMessage, setNewMessage] = useState('');
+  const [isInternalNote, setIsInternalNote] = useState(false);
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const [pendingMacro, setPendingMacro] = useState<CannedResponse | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isSending, setIsSending] = useState(false);
-  const [isResolving, setIsResolving] = useState(false);
+  const [updatingStatus, setUpdatingStatus] = useState<TicketStatus | null>(null);
+  const [isTogglingAwaiting, setIsTogglingAwaiting] = useState(false);
+  const [isAssigning, setIsAssigning] = useState(false);
+  const [reopenWindowDays, setReopenWindowDays] = useState<number | null>(null);
+  const [editWindowMinutes, setEditWindowMinutes] = useState(0);
+  // Where the user had read up to when they opened the ticket; null if they never had
+  const [readMarker, setReadMarker] = useState<string | null>(null);
+  // Everyone with this ticket open, as shared over the ticket's realtime channel
+  const [presence, setPresence] = useState<(TicketViewer & TicketPresence)[]>([]);
+  const [isPresenceReady, setIsPresenceReady] = useState(false);
+  const [staffPresence, setStaffPresence] = useState<StaffPresence[]>([]);
+  const [isStaffPresenceReady, setIsStaffPresenceReady] = useState(false);
+  const [typing, setTyping] = useState<StaffPresence['typing']>(null);
+  // Keyed per tab rather than by user id, which everyone on the ticket could read
+  const [presenceKey] = useState(() => crypto.randomUUID());
+  const [reopenReason, setReopenReason] = useState('');
+  const [rating, setRating] = useState<TicketRating | null>(null);
+  const [revealedIdentity, setRevealedIdentity] = useState<RevealedIdentity | null>(null);
+  const [participants, setParticipants] = useState<TicketParticipant[]>([]);
+  const [isReopening, setIsReopening] = useState(false);
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [isUploading, setIsUploading] = useState(false);
   const { user, userRole } = useAuth();
+  const isStaff = userRole === 'staff' || userRole === 'admin';
+  const { staffMembers } = useStaffMembers(isStaff);
+  const { cannedResponses } = useCannedResponses(isStaff);
+  const { tags: allTags, refresh: refreshTags } = useTags(isStaff);
   const navigate = useNavigate();
+  const location = useLocation();
+  // Search results link straight to the message that matched
+  const targetMessageId = location.hash.startsWith('#message-') ? location.hash.slice('#message-'.length) : null;
   const { toast } = useToast();
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const staffChannelRef = useRef<RealtimeChannel | null>(null);
 
   useEffect(() => {
     if (id && user) {
       fetchTicket();
       fetchMessages();
+      markTicketRead().then(setReadMarker);
+      fetchEvents();
+      fetchTicketSettings();
+      fetchRating();
+      fetchParticipants();
+      if (isStaff) {
+        fetchTicketTags();
+        fetchEscalation();
+      }
       
-      // Subscribe to realtime message updates
+      // Subscribe to realtime message and ticket history updates, and share presence.
+      // The channel is private, so only people who can see the ticket can join it.
       const channel = supabase
-        .channel(`messages-${id}`)
+        .channel(`ticket:${id}`, { config: { private: true, presence: { key: presenceKey } } })
+        .on('presence', { event: 'sync' }, () => {
+          const state = channel.presenceState<TicketPresence>();
+          setPresence(Object.entries(state).map(([key, metas]) => ({
+            key,
+            name: metas[0].name,
+            is_staff: metas[0].is_staff,
+            typing: metas[0].typing,
+          })));
+        })
         .on(
           'postgres_changes',
           {
@@ -78,26 +188,169 @@ const TicketThread = () => {
           },
           () => {
             fetchMessages();
+            // Messages arriving while the ticket is open are read as they come in
+            markTicketRead();
           }
         )
-        .subscribe();
+        .on(
+          'postgres_changes',
+          {
+            event: 'UPDATE',
+            schema: 'public',
+            table: 'messages',
+            filter: `ticket_id=eq.${id}`
+          },
+          () => {
+            // Edits and deletions by the sender
+            fetchMessages();
+          }
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: 'INSERT',
+            schema: 'public',
+            table: 'ticket_events',
+            filter: `ticket_id=eq.${id}`
+          },
+          () => {
+            // Every history event means the ticket itself changed too
+            fetchTicket();
+            fetchEvents();
+            if (isStaff) fetchEscalation();
+          }
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'ticket_participants',
+            filter: `ticket_id=eq.${id}`
+          },
+          () => {
+            fetchParticipants();
+          }
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'ticket_tags',
+            filter: `ticket_id=eq.${id}`
+          },
+          () => {
+            fetchTicketTags();
+          }
+        )
+        .subscribe((status) => {
+          setIsPresenceReady(status === 'SUBSCRIBED');
+        });
+      channelRef.current = channel;
 
       return () => {
+        channelRef.current = null;
+        setIsPresenceReady(false);
+        setPresence([]);
         supabase.removeChannel(channel);
       };
     }
-  }, [id, user]);
+  }, [id, user, isStaff, presenceKey]);
+
+  // Note typing and unsent replies are only shared with staff, on a private channel
+  useEffect(() => {
+    if (!id || !user || !isStaff) return;
+
+    const channel = supabase
+      .channel(`ticket-staff:${id}`, { config: { private: true, presence: { key: user.id } } })
+      .on('presence', { event: 'sync' }, () => {
+        // One entry per staff member, however many tabs they have the ticket open in
+        const state = channel.presenceState<StaffPresence>();
+        setStaffPresence(Object.values(state).map(metas => ({
+          ...metas[0],
+          typing: metas.find(meta => meta.typing)?.typing ?? null,
+          drafting: metas.some(meta => meta.drafting),
+        })));
+      })
+      .subscribe((status) => {
+        setIsStaffPresenceReady(status === 'SUBSCRIBED');
+      });
+    staffChannelRef.current = channel;
+
+    return () => {
+      staffChannelRef.current = null;
+      setIsStaffPresenceReady(false);
+      setStaffPresence([]);
+      supabase.removeChannel(channel);
+    };
+  }, [id, user, isStaff]);
+
+  // Typing stops counting after a few seconds without a keystroke
+  useEffect(() => {
+    if (!newMessage.trim()) {
+      setTyping(null);
+      return;
+    }
+
+    setTyping(isInternalNote ? 'note' : 'reply');
+    const timeout = setTimeout(() => setTyping(null), 4000);
+    return () => clearTimeout(timeout);
+  }, [newMessage, isInternalNote]);
+
+  // Everyone on the ticket sees these names, so students stay unnamed: joiners must not
+  // learn who filed the ticket, and staff must not learn who filed a confidential one
+  const presenceName = !user
+    ? null
+    : isStaff
+      ? staffMembers.find(s => s.id === user.id)?.name ?? 'Staff'
+      : 'Student';
+  const isDrafting = !isInternalNote && newMessage.trim() !== '';
+
+  useEffect(() => {
+    if (!isPresenceReady || !presenceName) return;
+
+    channelRef.current?.track({
+      name: presenceName,
+      is_staff: isStaff,
+      typing: typing === 'reply',
+    } satisfies TicketPresence);
+  }, [isPresenceReady, presenceName, isStaff, typing]);
+
+  useEffect(() => {
+    if (!isStaffPresenceReady || !user || !presenceName) return;
+
+    staffChannelRef.current?.track({
+      user_id: user.id,
+      name: presenceName,
+      typing,
+      drafting: isDrafting,
+    } satisfies StaffPresence);
+  }, [isStaffPresenceReady, user, presenceName, typing, isDrafting]);
+
+  useEffect(() => {
+    const targetMessage = targetMessageId && document.getElementById(`message-${targetMessageId}`);
+    if (targetMessage) {
+      targetMessage.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    } else {
+      messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }
+  }, [messages, events, targetMessageId]);
 
+  // "r" on the ticket list opens the ticket ready for a reply
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+    if (!isLoading && location.hash === '#reply') {
+      textareaRef.current?.focus();
+      navigate(location.pathname, { replace: true });
+    }
+  }, [isLoading, location.hash, location.pathname, navigate]);
 
   const fetchTicket = async () => {
     if (!id) return;
 
     const { data, error } = await supabase
-      .from('tickets')
-      .select('*, profiles(name, email)')
+      .from('ticket_details')
+      .select('*, assignee:profiles!tickets_assignee_id_fkey(name), category:ticket_categories!tickets_category_id_fkey(name), subcategory:ticket_categories!tickets_subcategory_id_fkey(name)')
       .eq('id', id)
       .single();
 
@@ -117,10 +370,9 @@ const TicketThread = () => {
     if (!id) return;
 
     const { data, error } = await supabase
-      .from('messages')
+      .from('message_details')
       .select(`
         *,
-        profiles(name, email),
         media_assets(*)
       `)
       .eq('ticket_id', id)
@@ -138,6 +390,129 @@ const TicketThread = () => {
     setIsLoading(false);
   };
 
+  const markTicketRead = async () => {
+    if (!id) return null;
+
+    const { data } = await supabase.rpc('mark_ticket_read', { _ticket_id: id });
+    return data ?? null;
+  };
+
+  const fetchEvents = async () => {
+    if (!id) return;
+
+    const { data, error } = await supabase
+      .from('ticket_event_details')
+      .select('*')
+      .eq('ticket_id', id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      toast({
+        title: 'Error fetching ticket history',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setEvents(data as TicketEvent[] || []);
+
+      // Resolve names for assignees referenced in the history
+      const assigneeIds = new Set<string>();
+      data?.filter(e => e.event_type === 'assignee_changed').forEach(e => {
+        if (e.old_value) assigneeIds.add(e.old_value);
+        if (e.new_value) assigneeIds.add(e.new_value);
+      });
+
+      if (assigneeIds.size > 0) {
+        const { data: profiles } = await supabase
+          .from('profiles')
+          .select('id, name')
+          .in('id', Array.from(assigneeIds));
+
+        setProfileNames(Object.fromEntries((profiles || []).map(p => [p.id, p.name])));
+      }
+    }
+  };
+
+  const fetchParticipants = async () => {
+    if (!id) return;
+
+    const { data, error } = await supabase
+      .from('ticket_participants')
+      .select('student_id, joined_via, profiles!ticket_participants_student_id_fkey(name)')
+      .eq('ticket_id', id)
+      .order('created_at');
+
+    if (!error) {
+      setParticipants(data || []);
+    }
+  };
+
+  const fetchTicketTags = async () => {
+    if (!id) return;
+
+    const { data, error } = await supabase
+      .from('ticket_tags')
+      .select('tags(id, name)')
+      .eq('ticket_id', id);
+
+    if (error) {
+      toast({
+        title: 'Error fetching tags',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      setTicketTags(
+        (data || [])
+          .map(row => row.tags)
+          .filter((tag): tag is TicketTag => tag !== null)
+          .sort((a, b) => a.name.localeCompare(b.name))
+      );
+    }
+  };
+
+  const fetchEscalation = async () => {
+    if (!id) return;
+
+    const { data, error } = await supabase
+      .from('ticket_escalations')
+      .select('level, reason, created_at, profiles(name)')
+      .eq('ticket_id', id)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (!error) {
+      setEscalation(data);
+    }
+  };
+
+  const fetchRating = async () => {
+    if (!id) return;
+
+    const { data, error } = await supabase
+      .from('ticket_ratings')
+      .select('rating, comment')
+      .eq('ticket_id', id)
+      .maybeSingle();
+
+    if (!error) {
+      setRating(data);
+    }
+  };
+
+  const fetchTicketSettings = async () => {
+    const { data, error } = await supabase
+      .from('ticket_settings')
+      .select('reopen_window_days, message_edit_window_minutes')
+      .single();
+
+    if (!error) {
+      setReopenWindowDays(data.reopen_window_days);
+      setEditWindowMinutes(data.message_edit_window_minutes);
+    }
+  };
+
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
     const validFiles = files.filter(file => {
@@ -185,8 +560,9 @@ const TicketThread = () => {
           sender_id: user.id,
           message_type: 'text',
           content: newMessage.trim() || null,
+          is_internal: isStaff && isInternalNote,
         })
-        .select()
+        .select('id')
         .single();
 
       if (messageError) throw messageError;
@@ -195,7 +571,7 @@ const TicketThread = () => {
       if (selectedFiles.length > 0) {
         for (const file of selectedFiles) {
           const fileExt = file.name.split('.').pop();
-          const fileName = `${user.id}/${messageData.id}/${crypto.randomUUID()}.${fileExt}`;
+          const fileName = `${messageData.id}/${crypto.randomUUID()}.${fileExt}`;
           
           const { error: uploadError } = await supabase.storage
             .from('ticket-attachments')
@@ -217,15 +593,26 @@ const TicketThread = () => {
         }
       }
 
+      if (pendingMacro) {
+        await applyMacroActions(pendingMacro);
+      }
+
       setNewMessage('');
+      setIsInternalNote(false);
+      setPendingMacro(null);
       setSelectedFiles([]);
+      setReadMarker(null);
+      // Follow the conversation again once the user joins it
+      if (targetMessageId) {
+        navigate(location.pathname, { replace: true });
+      }
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
       }
-    } catch (error: any) {
+    } catch (error: unknown) {
       toast({
         title: 'Error sending message',
-        description: error.message,
+        description: error instanceof Error ? error.message : 'The message could not be sent',
         variant: 'destructive',
       });
     } finally {
@@ -234,33 +621,239 @@ const TicketThread = () => {
     }
   };
 
-  const handleResolveTicket = async () => {
+  // Staff only learn who filed a confidential ticket by revealing it
+  const studentName = ticket
+    ? revealedIdentity?.name ?? (isStaff ? getStudentDisplayName(ticket) : ticket.student_name ?? 'Another student')
+    : '';
+
+  // Students who joined with "me too" see staff replies only, so the owner stays anonymous to them
+  // Students who joined with "me too" or whose ticket was merged in only see staff replies and their own messages
+  const limitedJoin = isStaff
+    ? null
+    : participants.find(p => p.student_id === user?.id && (p.joined_via === 'me_too' || p.joined_via === 'merged'))?.joined_via ?? null;
+
+  const handleSelectCannedResponse = (response: CannedResponse, canApplyActions: boolean) => {
+    if (!ticket) return;
+
+    const text = renderCannedResponse(response.content, {
+      studentName,
+      ticketSubject: ticket.subject,
+    });
+    setNewMessage(prev => (prev.trim() ? `${prev.trimEnd()}\n${text}` : text));
+    setPendingMacro(canApplyActions && hasMacroActions(response) ? response : null);
+    textareaRef.current?.focus();
+  };
+
+  // Typing "/" opens the picker, and "/shortcut " expands a response in place
+  const handleMessageChange = (value: string, canApplyActions: boolean) => {
+    if (isStaff && value === '/') {
+      setNewMessage('');
+      setIsPickerOpen(true);
+      return;
+    }
+
+    const shortcut = isStaff ? value.match(/^\/([a-z0-9_-]+)\s$/i)?.[1].toLowerCase() : undefined;
+    const response = shortcut ? cannedResponses.find(r => r.shortcut === shortcut) : undefined;
+    if (response) {
+      setNewMessage('');
+      handleSelectCannedResponse(response, canApplyActions);
+      return;
+    }
+
+    setNewMessage(value);
+  };
+
+  const applyMacroActions = async (macro: CannedResponse) => {
+    if (!id || !user) return;
+
+    const errors: string[] = [];
+
+    if (macro.set_status || macro.set_priority) {
+      const { error } = await supabase.rpc('update_ticket', {
+        _ticket_id: id,
+        _changes: {
+          ...(macro.set_status && { status: macro.set_status }),
+          ...(macro.set_priority && { priority: macro.set_priority }),
+        },
+      });
+
+      if (error) errors.push(error.message);
+    }
+
+    if (macro.add_tag_id) {
+      const { error } = await supabase
+        .from('ticket_tags')
+        .upsert({ ticket_id: id, tag_id: macro.add_tag_id, created_by: user.id }, { ignoreDuplicates: true });
+
+      if (error) errors.push(error.message);
+    }
+
+    if (errors.length > 0) {
+      toast({
+        title: 'Error applying macro',
+        description: errors.join(' '),
+        variant: 'destructive',
+      });
+    }
+
+    fetchTicket();
+  };
+
+  const handleUpdateStatus = async (status: TicketStatus) => {
     if (!id) return;
 
-    setIsResolving(true);
+    setUpdatingStatus(status);
 
-    const { error } = await supabase
-      .from('tickets')
-      .update({ status: 'resolved' })
-      .eq('id', id);
+    const { error } = await supabase.rpc('update_ticket', { _ticket_id: id, _changes: { status } });
 
     if (error) {
       toast({
-        title: 'Error resolving ticket',
+        title: 'Error updating ticket',
         description: error.message,
         variant: 'destructive',
       });
     } else {
       toast({
-        title: 'Ticket resolved!',
-        description: 'This ticket has been marked as resolved.',
+        title: status === 'completed' ? 'Ticket completed!' : 'Ticket in progress',
+        description: status === 'completed'
+          ? 'This ticket has been marked as completed.'
+          : 'This ticket has been moved to in progress.',
       });
       fetchTicket();
     }
 
-    setIsResolving(false);
+    setUpdatingStatus(null);
   };
 
+  const handleToggleAwaitingStudent = async () => {
+    if (!id || !ticket) return;
+
+    setIsTogglingAwaiting(true);
+
+    const awaiting = !ticket.awaiting_student_since;
+    const { error } = await supabase.rpc('update_ticket', {
+      _ticket_id: id,
+      _changes: {
+        awaiting_student_since: awaiting ? new Date().toISOString() : null,
+        last_reminder_at: null,
+      },
+    });
+
+    if (error) {
+      toast({
+        title: 'Error updating ticket',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: awaiting ? 'Awaiting student' : 'No longer awaiting student',
+        description: awaiting
+          ? 'The student will be reminded and the ticket closed automatically if they do not reply.'
+          : 'Reminders and auto-close have been stopped for this ticket.',
+      });
+      fetchTicket();
+    }
+
+    setIsTogglingAwaiting(false);
+  };
+
+  const handlePriorityChange = async (priority: TicketPriority) => {
+    if (!id) return;
+
+    const { error } = await supabase.rpc('update_ticket', { _ticket_id: id, _changes: { priority } });
+
+    if (error) {
+      toast({
+        title: 'Error updating priority',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      fetchTicket();
+    }
+  };
+
+  const handleAssign = async (assigneeId: string | null) => {
+    if (!id) return;
+
+    setIsAssigning(true);
+
+    const { error } = await supabase.rpc('update_ticket', { _ticket_id: id, _changes: { assignee_id: assigneeId } });
+
+    if (error) {
+      toast({
+        title: 'Error assigning ticket',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: assigneeId ? 'Ticket assigned' : 'Ticket unassigned',
+        description: assigneeId === user?.id
+          ? 'This ticket is now in your queue.'
+          : assigneeId
+            ? `This ticket is now assigned to ${staffMembers.find(s => s.id === assigneeId)?.name ?? 'another staff member'}.`
+            : 'This ticket is back in the unassigned queue.',
+      });
+      fetchTicket();
+    }
+
+    setIsAssigning(false);
+  };
+
+  const handleReopen = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!id || !reopenReason.trim()) return;
+
+    setIsReopening(true);
+
+    const { error } = await supabase.rpc('reopen_ticket', {
+      _ticket_id: id,
+      _reason: reopenReason.trim(),
+    });
+
+    if (error) {
+      toast({
+        title: 'Error reopening ticket',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Ticket reopened',
+        description: 'Your ticket has been sent back to the support team.',
+      });
+      setReopenReason('');
+      fetchTicket();
+    }
+
+    setIsReopening(false);
+  };
+
+  // Messages and status history share one chronological timeline
+  const timeline = [
+    ...messages.map(message => ({ type: 'message' as const, created_at: message.created_at, message })),
+    ...events.map(event => ({
+      type: 'event' as const,
+      created_at: event.created_at,
+      event: event.is_ticket_student ? { ...event, actor_name: studentName } : event,
+    })),
+  ].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+  // Assigned tickets can only be changed by their assignee or an admin
+  const canManage = isStaff && !!ticket && (!ticket.assignee_id || ticket.assignee_id === user?.id || userRole === 'admin');
+
+  useKeyboardShortcuts({
+    r: () => textareaRef.current?.focus(),
+    ...(canManage && ticket.status !== 'completed' && {
+      e: () => handleUpdateStatus('completed'),
+    }),
+    ...(canManage && user && ticket.assignee_id !== user.id && {
+      a: () => handleAssign(user.id),
+    }),
+  }, isStaff && !!ticket);
+
   if (isLoading || !ticket) {
     return (
       <Layout>
@@ -272,8 +865,107 @@ const TicketThread = () => {
     );
   }
 
+  // Latest completion in the history, used to judge the resolution SLA
+  const completedAt = ticket.status === 'completed'
+    ? [...events].reverse().find(e => e.event_type === 'status_changed' && e.new_value === 'completed')?.created_at ?? null
+    : null;
+
+  // Students can reopen their own ticket for a while after it was completed
+  const reopenDeadline = completedAt && reopenWindowDays !== null
+    ? addDays(new Date(completedAt), reopenWindowDays)
+    : null;
+  const canReopen = ticket.student_id === user?.id && !ticket.finalized_at && reopenDeadline !== null && reopenDeadline > new Date();
+
+  const paletteCommands: PaletteCommand[] = [
+    ...(ticket.status !== 'completed' ? [{
+      id: 'reply',
+      group: 'Ticket',
+      label: 'Reply',
+      icon: Reply,
+      shortcut: 'r',
+      onSelect: () => textareaRef.current?.focus(),
+    }] : []),
+    ...(canManage && ticket.status === 'pending' ? [{
+      id: 'start-progress',
+      group: 'Ticket',
+      label: 'Start progress',
+      icon: PlayCircle,
+      onSelect: () => handleUpdateStatus('in_progress'),
+    }] : []),
+    ...(canManage && ticket.status !== 'completed' ? [{
+      id: 'complete',
+      group: 'Ticket',
+      label: 'Complete ticket',
+      icon: CheckCircle,
+      shortcut: 'e',
+      onSelect: () => handleUpdateStatus('completed'),
+    }] : []),
+    ...(canManage && user && ticket.assignee_id !== user.id ? [{
+      id: 'assign-to-me',
+      group: 'Ticket',
+      label: 'Assign to me',
+      icon: UserCheck,
+      shortcut: 'a',
+      onSelect: () => handleAssign(user.id),
+    }] : []),
+    // Macros fill in the reply and apply their actions when it is sent, as from the picker
+    ...(canManage && ticket.status !== 'completed'
+      ? cannedResponses.filter(hasMacroActions).map(response => ({
+          id: `macro-${response.id}`,
+          group: 'Macros',
+          label: response.title,
+          icon: Zap,
+          onSelect: () => handleSelectCannedResponse(response, true),
+        }))
+      : []),
+  ];
+
+  // The "new messages" divider goes above the first reply from someone else since the last visit
+  const firstUnreadMessageId = readMarker
+    ? messages.find(m => m.sender_id !== user?.id && new Date(m.created_at) > new Date(readMarker))?.id ?? null
+    : null;
+
+  // Staff with the ticket open in several tabs are listed once
+  const otherViewers = presence
+    .filter(p => p.key !== presenceKey && !(isStaff && p.is_staff && p.name === presenceName))
+    .filter((p, index, all) => !p.is_staff || all.findIndex(other => other.is_staff && other.name === p.name) === index);
+  const otherStaff = staffPresence.filter(p => p.user_id !== user?.id);
+  // Staff also see who is writing a note. Student typing only comes over the shared channel.
+  const typists = isStaff
+    ? [
+        ...otherStaff.filter(p => p.typing).map(p => ({ name: p.name, is_staff: true })),
+        ...presence.filter(p => p.key !== presenceKey && !p.is_staff && p.typing),
+      ]
+    : presence.filter(p => p.key !== presenceKey && p.typing);
+  // Warns about an unsent reply for as long as it sits in the other composer
+  const otherStaffReplying = otherStaff.filter(p => p.drafting);
+
+  // Senders can fix or remove their own messages for a short while after sending
+  const canChangeMessage = (message: Message) =>
+    message.sender_id === user?.id
+    && !message.deleted_at
+    && !ticket.finalized_at
+    && editWindowMinutes > 0
+    && Date.now() - new Date(message.created_at).getTime() < editWindowMinutes * 60 * 1000;
+
+  // Public staff replies on a completed ticket can be turned into a help article
+  const faqReplies: FaqReply[] = isStaff && ticket.status === 'completed'
+    ? messages
+        .filter(m => !m.is_internal && m.content && staffMembers.some(s => s.id === m.sender_id))
+        .map(m => ({ id: m.id, content: m.content ?? '', authorName: m.sender_name ?? 'Staff' }))
+    : [];
+  // Only real names are scrubbed: a pseudonym identifies nobody, and scrubbing its
+  // parts would also remove every ordinary "Anonymous" from the article
+  const pseudonym = ticket.is_confidential ? getStudentDisplayName(ticket) : null;
+  const faqScrubNames = [
+    ticket.student_name ?? '',
+    revealedIdentity?.name ?? '',
+    ...participants.map(p => p.profiles?.name ?? ''),
+    ...messages.map(m => m.sender_name ?? ''),
+  ].filter(name => name && name !== pseudonym);
+
   return (
-    <Layout>
+    <Layout commands={paletteCommands}>
       <div className="max-w-4xl mx-auto space-y-4">
         <Button
           variant="ghost"
@@ -288,91 +980,417 @@ const TicketThread = () => {
           <CardHeader>
             <div className="flex items-start justify-between gap-4">
               <div className="flex-1 min-w-0">
-                <CardTitle className="text-xl mb-2">{ticket.subject}</CardTitle>
+                <CardTitle className="text-xl mb-2">
+                  <span className="text-muted-foreground font-normal mr-2">#{ticket.number}</span>
+                  {ticket.subject}
+                </CardTitle>
                 <CardDescription>
-                  Created by {ticket.profiles.name} • {formatDistanceToNow(new Date(ticket.created_at), { addSuffix: true })}
+                  Created by {studentName}
+                  {revealedIdentity && ` (${revealedIdentity.email})`} • {formatDistanceToNow(new Date(ticket.created_at), { addSuffix: true })}
+                  {ticket.category && ` • ${ticket.category.name}${ticket.subcategory ? ` / ${ticket.subcategory.name}` : ''}`}
+                  {isStaff && ticket.reopen_count > 0 && ` • Reopened ${ticket.reopen_count}×`}
                 </CardDescription>
+                {ticket.is_confidential && (
+                  <div className="flex items-center justify-between gap-2 mt-3 rounded-md border border-primary/50 bg-primary/5 px-3 py-2 text-sm">
+                    <div className="flex items-center gap-2">
+                      <ShieldCheck className="h-4 w-4 text-primary shrink-0" />
+                      <span>
+                        {!isStaff
+                          ? `You filed this ticket confidentially. Staff see you as ${ticket.pseudonym}.`
+                          : revealedIdentity
+                            ? 'Confidential complaint. You revealed the student\'s identity, and this has been recorded in the audit log.'
+                            : 'Confidential complaint. The student\'s identity is hidden.'}
+                      </span>
+                    </div>
+                    {userRole === 'admin' && !revealedIdentity && (
+                      <RevealIdentityDialog ticketId={ticket.id} onRevealed={setRevealedIdentity} />
+                    )}
+                  </div>
+                )}
+                <div className="flex items-center gap-2 mt-3 text-sm">
+                  <UserCheck className="h-4 w-4 text-muted-foreground" />
+                  {isStaff && canManage ? (
+                    <Select
+                      value={ticket.assignee_id ?? 'unassigned'}
+                      onValueChange={(value) => handleAssign(value === 'unassigned' ? null : value)}
+                      disabled={isAssigning}
+                    >
+                      <SelectTrigger className="h-8 w-[220px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="unassigned">Unassigned</SelectItem>
+                        {staffMembers.map(staff => (
+                          <SelectItem key={staff.id} value={staff.id}>
+                            {staff.id === user?.id ? `${staff.name} (me)` : staff.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <span className="text-muted-foreground">
+                      {ticket.assignee ? `Assigned to ${ticket.assignee.name}` : 'Unassigned'}
+                    </span>
+                  )}
+                  {isStaff && !ticket.assignee_id && (
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      onClick={() => handleAssign(user?.id ?? null)}
+                      disabled={isAssigning}
+                      className="gap-2 h-8"
+                    >
+                      {isAssigning ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Hand className="h-4 w-4" />
+                      )}
+                      Claim
+                    </Button>
+                  )}
+                </div>
+                {limitedJoin && (
+                  <p className="mt-3 text-sm text-muted-foreground">
+                    {limitedJoin === 'merged'
+                      ? 'Your ticket was merged into this one because it is about the same issue.'
+                      : 'You joined this ticket because it affects you too.'}
+                    {' '}You see staff replies and your own messages, but not those of other students.
+                  </p>
+                )}
+                {!ticket.is_confidential && (participants.length > 0 || ticket.student_id === user?.id) && (
+                  <div className="mt-3">
+                    <TicketParticipants
+                      ticketId={ticket.id}
+                      ownerId={ticket.student_id}
+                      ownerName={studentName}
+                      participants={participants}
+                      canAdd={ticket.status !== 'completed'}
+                      onChange={fetchParticipants}
+                    />
+                  </div>
+                )}
+                {isStaff && (
+                  <div className="flex flex-wrap items-center gap-2 mt-3">
+                    <SlaBadge label="Response" dueAt={ticket.first_response_due_at} metAt={ticket.first_responded_at} />
+                    <SlaBadge label="Resolution" dueAt={ticket.resolution_due_at} metAt={completedAt} />
+                  </div>
+                )}
+                {isStaff && (
+                  <div className="mt-3">
+                    <TicketTagEditor
+                      ticketId={ticket.id}
+                      tags={ticketTags}
+                      allTags={allTags}
+                      onChange={fetchTicketTags}
+                      onTagCreated={refreshTags}
+                    />
+                  </div>
+                )}
+                {isStaff && ticket.escalation_level && escalation && (
+                  <div className="flex items-start gap-2 mt-3 rounded-md border border-destructive/50 bg-destructive/5 px-3 py-2 text-sm">
+                    <AlertTriangle className="h-4 w-4 text-destructive mt-0.5 shrink-0" />
+                    <div>
+                      <span className="font-medium">
+                        Escalated to {ESCALATION_LEVEL_LABELS[ticket.escalation_level]}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {' '}by {escalation.profiles?.name ?? 'a staff member'} • {formatDistanceToNow(new Date(escalation.created_at), { addSuffix: true })}
+                      </span>
+                      <p className="text-muted-foreground whitespace-pre-wrap">{escalation.reason}</p>
+                    </div>
+                  </div>
+                )}
+                {ticket.merged_into_id && (
+                  <div className="flex items-center gap-2 mt-3 rounded-md border border-border bg-muted/50 px-3 py-2 text-sm">
+                    <GitMerge className="h-4 w-4 text-muted-foreground shrink-0" />
+                    <span className="text-muted-foreground">This ticket was merged into another ticket.</span>
+                    <Button
+                      variant="link"
+                      size="sm"
+                      className="h-auto p-0"
+                      onClick={() => navigate(`/ticket/${ticket.merged_into_id}`)}
+                    >
+                      Open it
+                    </Button>
+                  </div>
+                )}
               </div>
               <div className="flex items-center gap-2">
-                <Badge
-                  variant={ticket.status === 'resolved' ? 'default' : 'secondary'}
-                  className={
-                    ticket.status === 'resolved'
-                      ? 'bg-success text-success-foreground'
-                      : 'bg-warning text-warning-foreground'
-                  }
-                >
-                  {ticket.status === 'pending' ? 'Pending' : 'Resolved'}
-                </Badge>
-                {userRole === 'staff' && ticket.status === 'pending' && (
+                {canManage ? (
+                  <Select value={ticket.priority} onValueChange={(value) => handlePriorityChange(value as TicketPriority)}>
+                    <SelectTrigger className="h-8 w-[110px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TICKET_PRIORITIES.map(priority => (
+                        <SelectItem key={priority} value={priority}>{TICKET_PRIORITY_LABELS[priority]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  isStaff && <PriorityBadge priority={ticket.priority} />
+                )}
+                <TicketStatusBadge status={ticket.status} />
+                {ticket.awaiting_student_since && ticket.status !== 'completed' && (
+                  <Badge variant="outline" className="gap-1 border-warning text-warning">
+                    <Hourglass className="h-3 w-3" />
+                    {isStaff ? 'Awaiting student' : 'Awaiting your reply'}
+                  </Badge>
+                )}
+                {canManage && ticket.status !== 'completed' && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={handleToggleAwaitingStudent}
+                    disabled={isTogglingAwaiting}
+                    className="gap-2"
+                  >
+                    {isTogglingAwaiting ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Hourglass className="h-4 w-4" />
+                    )}
+                    {ticket.awaiting_student_since ? 'Stop Waiting' : 'Await Student'}
+                  </Button>
+                )}
+                {canManage && ticket.status === 'pending' && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleUpdateStatus('in_progress')}
+                    disabled={updatingStatus !== null}
+                    className="gap-2"
+                  >
+                    {updatingStatus === 'in_progress' ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <PlayCircle className="h-4 w-4" />
+                    )}
+                    Start Working
+                  </Button>
+                )}
+                {canManage && ticket.status !== 'completed' && (
                   <Button
                     size="sm"
                     variant="outline"
-                    onClick={handleResolveTicket}
-                    disabled={isResolving}
+                    onClick={() => handleUpdateStatus('completed')}
+                    disabled={updatingStatus !== null}
                     className="gap-2"
                   >
-                    {isResolving ? (
+                    {updatingStatus === 'completed' ? (
                       <Loader2 className="h-4 w-4 animate-spin" />
                     ) : (
                       <CheckCircle className="h-4 w-4" />
                     )}
-                    Mark Resolved
+                    Complete
                   </Button>
                 )}
+                {isStaff && ticket.status === 'completed' && (
+                  <PublishFaqDialog
+                    ticketId={ticket.id}
+                    subject={ticket.subject}
+                    categoryId={ticket.category_id}
+                    replies={faqReplies}
+                    names={faqScrubNames}
+                  />
+                )}
+                {isStaff && ticket.status !== 'completed' && (
+                  <EscalateTicketDialog
+                    ticketId={ticket.id}
+                    currentLevel={ticket.escalation_level}
+                    onEscalated={fetchTicket}
+                  />
+                )}
               </div>
             </div>
           </CardHeader>
           
           <CardContent>
+            {otherViewers.length > 0 && (
+              <div className="mb-3">
+                <TicketViewers viewers={otherViewers} />
+              </div>
+            )}
             <div className="space-y-4 mb-6 max-h-[500px] overflow-y-auto pr-2">
-              {messages.map((message) => {
+              {timeline.map((item) => {
+                if (item.type === 'event') {
+                  return <TicketEventItem key={item.event.id} event={item.event} profileNames={profileNames} />;
+                }
+
+                const { message } = item;
+                // Only messages without a sender are genuine notices from the system
+                if (message.message_type === 'system' && message.sender_id === null) {
+                  return (
+                    <div key={message.id} className="flex justify-center">
+                      <div className="max-w-[80%] rounded-lg bg-muted px-4 py-2 text-center text-xs text-muted-foreground">
+                        <p className="whitespace-pre-wrap">{message.content}</p>
+                        <span className="opacity-60">
+                          {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
+                        </span>
+                      </div>
+                    </div>
+                  );
+                }
+
                 const isOwnMessage = message.sender_id === user?.id;
                 return (
-                  <div
-                    key={message.id}
-                    className={cn(
-                      'flex gap-3 animate-slide-up',
-                      isOwnMessage ? 'justify-end' : 'justify-start'
+                  <Fragment key={message.id}>
+                    {message.id === firstUnreadMessageId && (
+                      <div className="flex items-center gap-3 text-xs font-medium text-primary">
+                        <div className="h-px flex-1 bg-primary/40" />
+                        New messages
+                        <div className="h-px flex-1 bg-primary/40" />
+                      </div>
                     )}
-                  >
                     <div
+                      id={`message-${message.id}`}
                       className={cn(
-                        'max-w-[70%] rounded-2xl px-4 py-3 shadow-sm',
-                        isOwnMessage
-                          ? 'bg-gradient-primary text-primary-foreground'
-                          : 'bg-secondary text-secondary-foreground'
+                        'flex gap-3 animate-slide-up',
+                        isOwnMessage ? 'justify-end' : 'justify-start'
                       )}
                     >
-                      <div className="flex items-center gap-2 mb-1">
-                        <span className="text-xs font-medium opacity-90">
-                          {message.profiles.name}
-                        </span>
-                        <span className="text-xs opacity-60">
-                          {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
-                        </span>
-                      </div>
-                      {message.content && (
-                        <p className="text-sm whitespace-pre-wrap break-words mb-2">{message.content}</p>
-                      )}
-                      
-                      {/* Display attached files */}
-                      {message.media_assets && message.media_assets.length > 0 && (
-                        <div className="space-y-2 mt-2">
-                          {message.media_assets.map((asset) => (
-                            <MediaPreview key={asset.id} asset={asset} />
-                          ))}
+                      <div
+                        className={cn(
+                          'max-w-[70%] rounded-2xl px-4 py-3 shadow-sm',
+                          message.id === targetMessageId && 'ring-2 ring-warning ring-offset-2',
+                          message.is_internal
+                            ? 'bg-warning/10 text-foreground border border-dashed border-warning'
+                            : isOwnMessage
+                              ? 'bg-gradient-primary text-primary-foreground'
+                              : 'bg-secondary text-secondary-foreground'
+                        )}
+                      >
+                        <div className="flex items-center gap-2 mb-1">
+                          {message.is_internal && (
+                            <span className="flex items-center gap-1 text-xs font-semibold text-warning">
+                              <Lock className="h-3 w-3" />
+                              Internal note
+                            </span>
+                          )}
+                          <span className="text-xs font-medium opacity-90">
+                            {message.is_ticket_student ? studentName : message.sender_name ?? 'Unknown'}
+                          </span>
+                          <span className="text-xs opacity-60">
+                            {formatDistanceToNow(new Date(message.created_at), { addSuffix: true })}
+                          </span>
+                          {message.edited_at && !message.deleted_at && (
+                            isStaff ? (
+                              <MessageHistoryDialog messageId={message.id} senderName={message.sender_name} content={message.content} isDeleted={false}>
+                                <button type="button" className="text-xs opacity-60 underline-offset-2 hover:underline">
+                                  edited
+                                </button>
+                              </MessageHistoryDialog>
+                            ) : (
+                              <span className="text-xs opacity-60" title={format(new Date(message.edited_at), 'PPp')}>
+                                edited
+                              </span>
+                            )
+                          )}
+                          {canChangeMessage(message) && (
+                            <span className="ml-auto">
+                              <MessageActions
+                                messageId={message.id}
+                                content={message.content}
+                                canEdit={message.message_type === 'text' && !!message.content}
+                                onChanged={fetchMessages}
+                              />
+                            </span>
+                          )}
                         </div>
-                      )}
+                        {message.deleted_at ? (
+                          isStaff ? (
+                            <MessageHistoryDialog messageId={message.id} senderName={message.sender_name} content={null} isDeleted>
+                              <button type="button" className="text-sm italic opacity-70 hover:underline">
+                                This message was deleted
+                              </button>
+                            </MessageHistoryDialog>
+                          ) : (
+                            <p className="text-sm italic opacity-70">This message was deleted</p>
+                          )
+                        ) : message.content && (
+                          <p className="text-sm whitespace-pre-wrap break-words mb-2">{message.content}</p>
+                        )}
+                        
+                        {/* Display attached files */}
+                        {!message.deleted_at && message.media_assets && message.media_assets.length > 0 && (
+                          <div className="space-y-2 mt-2">
+                            {message.media_assets.map((asset) => (
+                              <MediaPreview key={asset.id} asset={asset} />
+                            ))}
+                          </div>
+                        )}
+                      </div>
                     </div>
-                  </div>
+                  </Fragment>
                 );
               })}
+              <TypingIndicator typists={typists} isStaff={isStaff} />
               <div ref={messagesEndRef} />
             </div>
 
-            {ticket.status === 'pending' && (
+            {ticket.status === 'completed' && ticket.student_id === user?.id && (
+              <div className="space-y-2 rounded-lg border border-border p-4 mb-4">
+                <p className="text-sm font-medium">
+                  {rating ? 'Your rating' : 'How satisfied are you with how this ticket was handled?'}
+                </p>
+                <TicketRatingForm ticketId={ticket.id} rating={rating} onRated={fetchRating} />
+              </div>
+            )}
+
+            {isStaff && rating && (
+              <div className="flex items-start gap-2 rounded-lg border border-border p-3 mb-4 text-sm">
+                <Star className="h-4 w-4 mt-0.5 fill-warning text-warning shrink-0" />
+                <div>
+                  <span className="font-medium">Student rated this {rating.rating}/5</span>
+                  <span className="text-muted-foreground"> • {CSAT_LABELS[rating.rating]}</span>
+                  {rating.comment && (
+                    <p className="text-muted-foreground whitespace-pre-wrap">"{rating.comment}"</p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {canReopen && reopenDeadline && (
+              <form onSubmit={handleReopen} className="space-y-3 rounded-lg border border-border p-4">
+                <p className="text-sm text-muted-foreground">
+                  Still having this problem? You can reopen this ticket until {format(reopenDeadline, 'PPp')}.
+                </p>
+                <div className="flex gap-2">
+                  <Textarea
+                    placeholder="Tell us why the issue isn't resolved..."
+                    value={reopenReason}
+                    onChange={(e) => setReopenReason(e.target.value)}
+                    rows={2}
+                    className="resize-none flex-1"
+                    disabled={isReopening}
+                  />
+                  <Button
+                    type="submit"
+                    variant="outline"
+                    disabled={isReopening || !reopenReason.trim()}
+                    className="gap-2 self-end"
+                  >
+                    {isReopening ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <RotateCcw className="h-4 w-4" />
+                    )}
+                    Reopen
+                  </Button>
+                </div>
+              </form>
+            )}
+
+            {ticket.status !== 'completed' && (
               <form onSubmit={handleSendMessage} className="space-y-3">
+                {otherStaffReplying.length > 0 && (
+                  <div className="flex items-center gap-2 rounded-md border border-warning/50 bg-warning/5 px-3 py-2 text-sm">
+                    <AlertTriangle className="h-4 w-4 text-warning shrink-0" />
+                    <span>
+                      {otherStaffReplying.map(p => p.name).join(', ')} {otherStaffReplying.length === 1 ? 'is' : 'are'} already writing a reply to this ticket.
+                    </span>
+                  </div>
+                )}
                 {/* File preview */}
                 {selectedFiles.length > 0 && (
                   <div className="flex flex-wrap gap-2">
@@ -396,13 +1414,50 @@ const TicketThread = () => {
                   </div>
                 )}
                 
+                {isStaff && (
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="internal-note"
+                      checked={isInternalNote}
+                      onCheckedChange={setIsInternalNote}
+                      disabled={isSending}
+                    />
+                    <Label htmlFor="internal-note" className="flex items-center gap-1 font-normal text-sm">
+                      <Lock className="h-3 w-3" />
+                      Internal note (hidden from the student)
+                    </Label>
+                  </div>
+                )}
+
+                {pendingMacro && (
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Zap className="h-3 w-3 text-warning" />
+                    <span>
+                      On send:
+                      {[
+                        pendingMacro.set_status && ` status → ${TICKET_STATUS_LABELS[pendingMacro.set_status]}`,
+                        pendingMacro.set_priority && ` priority → ${TICKET_PRIORITY_LABELS[pendingMacro.set_priority]}`,
+                        pendingMacro.add_tag_id && ` tag #${allTags.find(t => t.id === pendingMacro.add_tag_id)?.name ?? 'tag'}`,
+                      ].filter(Boolean).join(',')}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => setPendingMacro(null)}
+                      className="hover:text-destructive"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </div>
+                )}
+
                 <div className="flex gap-2">
                   <Textarea
-                    placeholder="Type your message..."
+                    ref={textareaRef}
+                    placeholder={isInternalNote ? 'Write a note for other staff...' : isStaff ? 'Type your message, or / for canned responses...' : 'Type your message...'}
                     value={newMessage}
-                    onChange={(e) => setNewMessage(e.target.value)}
+                    onChange={(e) => handleMessageChange(e.target.value, canManage)}
                     rows={2}
-                    className="resize-none flex-1"
+                    className={cn('resize-none flex-1', isInternalNote && 'border-dashed border-warning bg-warning/5')}
                     disabled={isSending}
                   />
                   <div className="flex flex-col gap-2">
@@ -415,15 +1470,26 @@ const TicketThread = () => {
                       className="hidden"
                       id="file-upload"
                     />
-                    <Button
-                      type="button"
-                      variant="outline"
-                      size="icon"
-                      onClick={() => fileInputRef.current?.click()}
-                      disabled={isSending}
-                    >
-                      <Paperclip className="h-4 w-4" />
-                    </Button>
+                    <div className="flex gap-2">
+                      {isStaff && (
+                        <CannedResponsePicker
+                          responses={cannedResponses}
+                          open={isPickerOpen}
+                          onOpenChange={setIsPickerOpen}
+                          onSelect={(response) => handleSelectCannedResponse(response, canManage)}
+                          disabled={isSending}
+                        />
+                      )}
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="icon"
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={isSending}
+                      >
+                        <Paperclip className="h-4 w-4" />
+                      </Button>
+                    </div>
                     <Button
                       type="submit"
                       disabled={isSending || (!newMessage.trim() && selectedFiles.length === 0)}
@@ -0,0 +1,91 @@
+-- Helper to check if a user is staff or admin
+CREATE OR REPLACE FUNCTION public.is_staff_member(_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = _user_id
+      AND role IN ('staff', 'admin')
+  )
+$$;
+
+-- Create ticket events table (status history and other ticket changes)
+CREATE TABLE public.ticket_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id uuid REFERENCES public.tickets(id) ON DELETE CASCADE NOT NULL,
+  actor_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  event_type text NOT NULL CHECK (event_type IN ('created', 'status_changed', 'assignee_changed', 'priority_changed', 'subject_changed')),
+  old_value text,
+  new_value text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ticket_events ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_ticket_events_ticket_id ON public.ticket_events(ticket_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_ticket_events_type ON public.ticket_events(event_type, new_value);
+
+-- RLS: events are readable by whoever can read the ticket. Rows are only
+-- written by the trigger below, so there are no insert/update policies.
+CREATE POLICY "Users can view events from their tickets"
+  ON public.ticket_events FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.tickets
+      WHERE tickets.id = ticket_events.ticket_id
+      AND (tickets.student_id = auth.uid() OR public.is_staff_member(auth.uid()))
+    )
+  );
+
+-- Function to record ticket changes
+CREATE OR REPLACE FUNCTION public.log_ticket_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, new_value)
+    VALUES (NEW.id, auth.uid(), 'created', NEW.status::text);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'status_changed', OLD.status::text, NEW.status::text);
+  END IF;
+
+  IF NEW.subject IS DISTINCT FROM OLD.subject THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'subject_changed', OLD.subject, NEW.subject);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_ticket_events
+  AFTER INSERT OR UPDATE ON public.tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_ticket_event();
+
+-- Backfill history for existing tickets. The real completion time was never
+-- stored, so updated_at is the closest approximation we have.
+INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, new_value, created_at)
+SELECT id, NULL, 'created', 'pending', created_at
+FROM public.tickets;
+
+INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value, created_at)
+SELECT id, NULL, 'status_changed', 'pending', status::text, updated_at
+FROM public.tickets
+WHERE status <> 'pending';
+
+-- Enable realtime for ticket events
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ticket_events;
@@ -0,0 +1,106 @@
+-- Add assignee to tickets
+ALTER TABLE public.tickets
+  ADD COLUMN assignee_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_assignee_id ON public.tickets(assignee_id);
+
+-- Staff need to see who else is staff to reassign tickets
+CREATE POLICY "Staff can view staff roles"
+  ON public.user_roles FOR SELECT
+  TO authenticated
+  USING (public.is_staff_member(auth.uid()));
+
+-- Admins get the same ticket access as staff
+DROP POLICY IF EXISTS "Staff can view all tickets" ON public.tickets;
+
+CREATE POLICY "Staff can view all tickets"
+  ON public.tickets FOR SELECT
+  TO authenticated
+  USING (public.is_staff_member(auth.uid()));
+
+-- Only the assignee or an admin can change an assigned ticket. Unassigned
+-- tickets can be claimed by any staff member, and tickets can only be
+-- assigned to staff.
+DROP POLICY IF EXISTS "Staff can update ticket status" ON public.tickets;
+
+CREATE POLICY "Staff can update unassigned or own tickets"
+  ON public.tickets FOR UPDATE
+  TO authenticated
+  USING (
+    public.is_staff_member(auth.uid())
+    AND (
+      assignee_id IS NULL
+      OR assignee_id = auth.uid()
+      OR public.has_role(auth.uid(), 'admin')
+    )
+  )
+  WITH CHECK (
+    public.is_staff_member(auth.uid())
+    AND (assignee_id IS NULL OR public.is_staff_member(assignee_id))
+  );
+
+DROP POLICY IF EXISTS "Users can view messages from their tickets" ON public.messages;
+
+CREATE POLICY "Users can view messages from their tickets"
+  ON public.messages FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.tickets
+      WHERE tickets.id = messages.ticket_id
+      AND (tickets.student_id = auth.uid() OR public.is_staff_member(auth.uid()))
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can create messages in their tickets" ON public.messages;
+
+CREATE POLICY "Users can create messages in their tickets"
+  ON public.messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = sender_id
+    AND EXISTS (
+      SELECT 1 FROM public.tickets
+      WHERE tickets.id = messages.ticket_id
+      AND (tickets.student_id = auth.uid() OR public.is_staff_member(auth.uid()))
+    )
+  );
+
+-- Record assignment changes in the ticket history
+CREATE OR REPLACE FUNCTION public.log_ticket_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, new_value)
+    VALUES (NEW.id, auth.uid(), 'created', NEW.status::text);
+
+    IF NEW.assignee_id IS NOT NULL THEN
+      INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, new_value)
+      VALUES (NEW.id, auth.uid(), 'assignee_changed', NEW.assignee_id::text);
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'status_changed', OLD.status::text, NEW.status::text);
+  END IF;
+
+  IF NEW.assignee_id IS DISTINCT FROM OLD.assignee_id THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'assignee_changed', OLD.assignee_id::text, NEW.assignee_id::text);
+  END IF;
+
+  IF NEW.subject IS DISTINCT FROM OLD.subject THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'subject_changed', OLD.subject, NEW.subject);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
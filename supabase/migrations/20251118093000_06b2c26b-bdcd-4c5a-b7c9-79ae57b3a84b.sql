@@ -0,0 +1,150 @@
+-- Staff availability for automatic routing
+ALTER TABLE public.profiles
+  ADD COLUMN is_available boolean NOT NULL DEFAULT true;
+
+CREATE POLICY "Admins can update staff profiles"
+  ON public.profiles FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Routing settings (single row)
+CREATE TABLE public.routing_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  mode text NOT NULL DEFAULT 'manual' CHECK (mode IN ('manual', 'round_robin', 'least_loaded')),
+  last_assigned_staff_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.routing_settings ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.routing_settings (id, mode) VALUES (true, 'manual');
+
+CREATE POLICY "Staff can view routing settings"
+  ON public.routing_settings FOR SELECT
+  TO authenticated
+  USING (public.is_staff_member(auth.uid()));
+
+CREATE POLICY "Admins can update routing settings"
+  ON public.routing_settings FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_routing_settings_updated_at
+  BEFORE UPDATE ON public.routing_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Function to pick an assignee for a new ticket
+CREATE OR REPLACE FUNCTION public.route_ticket()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.routing_settings%ROWTYPE;
+  _assignee uuid;
+BEGIN
+  -- Students cannot pick their own assignee
+  IF NOT public.is_staff_member(auth.uid()) THEN
+    NEW.assignee_id := NULL;
+  END IF;
+
+  IF NEW.assignee_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Lock the settings row so concurrent tickets advance round-robin in order
+  SELECT * INTO _settings FROM public.routing_settings WHERE id FOR UPDATE;
+
+  IF NOT FOUND OR _settings.mode = 'manual' THEN
+    RETURN NEW;
+  END IF;
+
+  IF _settings.mode = 'round_robin' THEN
+    SELECT p.id INTO _assignee
+    FROM public.profiles p
+    JOIN public.user_roles r ON r.user_id = p.id AND r.role = 'staff'
+    WHERE p.is_available
+    ORDER BY (p.id <= COALESCE(_settings.last_assigned_staff_id, '00000000-0000-0000-0000-000000000000'::uuid)), p.id
+    LIMIT 1;
+  ELSIF _settings.mode = 'least_loaded' THEN
+    SELECT p.id INTO _assignee
+    FROM public.profiles p
+    JOIN public.user_roles r ON r.user_id = p.id AND r.role = 'staff'
+    LEFT JOIN public.tickets t ON t.assignee_id = p.id AND t.status <> 'completed'
+    WHERE p.is_available
+    GROUP BY p.id
+    ORDER BY count(t.id), p.id
+    LIMIT 1;
+  END IF;
+
+  IF _assignee IS NULL THEN
+    PERFORM public.log_security_event(
+      'ticket_auto_assign_skipped',
+      jsonb_build_object('ticket_id', NEW.id, 'mode', _settings.mode, 'reason', 'no_available_staff')
+    );
+    RETURN NEW;
+  END IF;
+
+  NEW.assignee_id := _assignee;
+
+  UPDATE public.routing_settings
+  SET last_assigned_staff_id = _assignee
+  WHERE id;
+
+  PERFORM public.log_security_event(
+    'ticket_auto_assigned',
+    jsonb_build_object('ticket_id', NEW.id, 'assignee_id', _assignee, 'mode', _settings.mode)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER route_new_tickets
+  BEFORE INSERT ON public.tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.route_ticket();
+
+-- Assignments made while a ticket is created come from routing, so the
+-- history records them without an actor
+CREATE OR REPLACE FUNCTION public.log_ticket_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, new_value)
+    VALUES (NEW.id, auth.uid(), 'created', NEW.status::text);
+
+    IF NEW.assignee_id IS NOT NULL THEN
+      INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, new_value)
+      VALUES (NEW.id, NULL, 'assignee_changed', NEW.assignee_id::text);
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'status_changed', OLD.status::text, NEW.status::text);
+  END IF;
+
+  IF NEW.assignee_id IS DISTINCT FROM OLD.assignee_id THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'assignee_changed', OLD.assignee_id::text, NEW.assignee_id::text);
+  END IF;
+
+  IF NEW.subject IS DISTINCT FROM OLD.subject THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'subject_changed', OLD.subject, NEW.subject);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
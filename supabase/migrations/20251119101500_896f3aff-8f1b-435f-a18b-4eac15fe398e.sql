@@ -0,0 +1,147 @@
+-- Create ticket categories table (top-level categories and sub-categories)
+CREATE TABLE public.ticket_categories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  parent_id uuid REFERENCES public.ticket_categories(id) ON DELETE CASCADE,
+  is_active boolean NOT NULL DEFAULT true,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ticket_categories ENABLE ROW LEVEL SECURITY;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ticket_categories_unique_name
+  ON public.ticket_categories (COALESCE(parent_id, '00000000-0000-0000-0000-000000000000'::uuid), lower(name));
+
+CREATE POLICY "Users can view ticket categories"
+  ON public.ticket_categories FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage ticket categories"
+  ON public.ticket_categories FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+INSERT INTO public.ticket_categories (name, sort_order) VALUES
+  ('Hostel', 1),
+  ('Fees', 2),
+  ('Batch/Academics', 3),
+  ('Placement', 4),
+  ('Facilities', 5);
+
+-- Add category to tickets. Existing tickets stay uncategorized.
+ALTER TABLE public.tickets
+  ADD COLUMN category_id uuid REFERENCES public.ticket_categories(id) ON DELETE SET NULL,
+  ADD COLUMN subcategory_id uuid REFERENCES public.ticket_categories(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_category_id ON public.tickets(category_id);
+
+-- Staff teams per category, used by category-based routing
+CREATE TABLE public.category_team_members (
+  category_id uuid REFERENCES public.ticket_categories(id) ON DELETE CASCADE NOT NULL,
+  staff_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (category_id, staff_id)
+);
+
+ALTER TABLE public.category_team_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view category teams"
+  ON public.category_team_members FOR SELECT
+  TO authenticated
+  USING (public.is_staff_member(auth.uid()));
+
+CREATE POLICY "Admins can manage category teams"
+  ON public.category_team_members FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Allow category-based routing
+ALTER TABLE public.routing_settings DROP CONSTRAINT IF EXISTS routing_settings_mode_check;
+ALTER TABLE public.routing_settings
+  ADD CONSTRAINT routing_settings_mode_check CHECK (mode IN ('manual', 'round_robin', 'least_loaded', 'category'));
+
+-- Category routing sends the ticket to the least loaded available member of
+-- the category's team, and falls back to all staff when the team is empty
+CREATE OR REPLACE FUNCTION public.route_ticket()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.routing_settings%ROWTYPE;
+  _assignee uuid;
+BEGIN
+  -- Students cannot pick their own assignee
+  IF NOT public.is_staff_member(auth.uid()) THEN
+    NEW.assignee_id := NULL;
+  END IF;
+
+  IF NEW.assignee_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Lock the settings row so concurrent tickets advance round-robin in order
+  SELECT * INTO _settings FROM public.routing_settings WHERE id FOR UPDATE;
+
+  IF NOT FOUND OR _settings.mode = 'manual' THEN
+    RETURN NEW;
+  END IF;
+
+  IF _settings.mode = 'round_robin' THEN
+    SELECT p.id INTO _assignee
+    FROM public.profiles p
+    JOIN public.user_roles r ON r.user_id = p.id AND r.role = 'staff'
+    WHERE p.is_available
+    ORDER BY (p.id <= COALESCE(_settings.last_assigned_staff_id, '00000000-0000-0000-0000-000000000000'::uuid)), p.id
+    LIMIT 1;
+  END IF;
+
+  IF _settings.mode = 'category' AND NEW.category_id IS NOT NULL THEN
+    SELECT p.id INTO _assignee
+    FROM public.profiles p
+    JOIN public.category_team_members m ON m.staff_id = p.id AND m.category_id = NEW.category_id
+    LEFT JOIN public.tickets t ON t.assignee_id = p.id AND t.status <> 'completed'
+    WHERE p.is_available
+    GROUP BY p.id
+    ORDER BY count(t.id), p.id
+    LIMIT 1;
+  END IF;
+
+  IF _assignee IS NULL AND _settings.mode IN ('least_loaded', 'category') THEN
+    SELECT p.id INTO _assignee
+    FROM public.profiles p
+    JOIN public.user_roles r ON r.user_id = p.id AND r.role = 'staff'
+    LEFT JOIN public.tickets t ON t.assignee_id = p.id AND t.status <> 'completed'
+    WHERE p.is_available
+    GROUP BY p.id
+    ORDER BY count(t.id), p.id
+    LIMIT 1;
+  END IF;
+
+  IF _assignee IS NULL THEN
+    PERFORM public.log_security_event(
+      'ticket_auto_assign_skipped',
+      jsonb_build_object('ticket_id', NEW.id, 'mode', _settings.mode, 'reason', 'no_available_staff')
+    );
+    RETURN NEW;
+  END IF;
+
+  NEW.assignee_id := _assignee;
+
+  UPDATE public.routing_settings
+  SET last_assigned_staff_id = _assignee
+  WHERE id;
+
+  PERFORM public.log_security_event(
+    'ticket_auto_assigned',
+    jsonb_build_object('ticket_id', NEW.id, 'assignee_id', _assignee, 'mode', _settings.mode, 'category_id', NEW.category_id)
+  );
+
+  RETURN NEW;
+END;
+$$;
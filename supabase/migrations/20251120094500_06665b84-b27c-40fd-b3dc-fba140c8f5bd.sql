@@ -0,0 +1,175 @@
+-- Create enum for ticket priority
+CREATE TYPE public.ticket_priority AS ENUM ('low', 'normal', 'high', 'urgent');
+
+-- Add priority and SLA tracking to tickets
+ALTER TABLE public.tickets
+  ADD COLUMN priority ticket_priority NOT NULL DEFAULT 'normal',
+  ADD COLUMN first_response_due_at timestamptz,
+  ADD COLUMN resolution_due_at timestamptz,
+  ADD COLUMN first_responded_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_priority ON public.tickets(priority);
+CREATE INDEX IF NOT EXISTS idx_tickets_resolution_due_at ON public.tickets(resolution_due_at);
+
+-- Create SLA policies table. A policy without a category applies to every
+-- category that has no policy of its own for that priority.
+CREATE TABLE public.sla_policies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  priority ticket_priority NOT NULL,
+  category_id uuid REFERENCES public.ticket_categories(id) ON DELETE CASCADE,
+  first_response_minutes integer NOT NULL CHECK (first_response_minutes > 0),
+  resolution_minutes integer NOT NULL CHECK (resolution_minutes > 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.sla_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sla_policies_unique
+  ON public.sla_policies (priority, COALESCE(category_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+CREATE POLICY "Staff can view SLA policies"
+  ON public.sla_policies FOR SELECT
+  TO authenticated
+  USING (public.is_staff_member(auth.uid()));
+
+CREATE POLICY "Admins can manage SLA policies"
+  ON public.sla_policies FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_sla_policies_updated_at
+  BEFORE UPDATE ON public.sla_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+INSERT INTO public.sla_policies (priority, first_response_minutes, resolution_minutes) VALUES
+  ('low', 24 * 60, 5 * 24 * 60),
+  ('normal', 8 * 60, 3 * 24 * 60),
+  ('high', 4 * 60, 24 * 60),
+  ('urgent', 60, 8 * 60);
+
+-- Function to compute SLA due dates from the matching policy
+CREATE OR REPLACE FUNCTION public.apply_sla_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _policy public.sla_policies%ROWTYPE;
+BEGIN
+  -- Priority is set by staff; student tickets always start as normal
+  IF TG_OP = 'INSERT' AND NOT public.is_staff_member(auth.uid()) THEN
+    NEW.priority := 'normal';
+  END IF;
+
+  SELECT * INTO _policy
+  FROM public.sla_policies
+  WHERE priority = NEW.priority
+    AND (category_id = NEW.category_id OR category_id IS NULL)
+  ORDER BY category_id IS NULL
+  LIMIT 1;
+
+  IF FOUND THEN
+    NEW.first_response_due_at := NEW.created_at + make_interval(mins => _policy.first_response_minutes);
+    NEW.resolution_due_at := NEW.created_at + make_interval(mins => _policy.resolution_minutes);
+  ELSE
+    NEW.first_response_due_at := NULL;
+    NEW.resolution_due_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_ticket_sla_policy
+  BEFORE INSERT OR UPDATE OF priority, category_id ON public.tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_sla_policy();
+
+-- Function to record the first staff response on a ticket
+CREATE OR REPLACE FUNCTION public.record_first_response()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.is_staff_member(NEW.sender_id) THEN
+    UPDATE public.tickets
+    SET first_responded_at = NEW.created_at
+    WHERE id = NEW.ticket_id
+      AND first_responded_at IS NULL
+      AND student_id <> NEW.sender_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_ticket_first_response
+  AFTER INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_first_response();
+
+-- Backfill SLA data for existing tickets without touching updated_at
+ALTER TABLE public.tickets DISABLE TRIGGER update_tickets_updated_at;
+
+UPDATE public.tickets t
+SET first_responded_at = (
+  SELECT min(m.created_at)
+  FROM public.messages m
+  WHERE m.ticket_id = t.id
+    AND m.sender_id <> t.student_id
+    AND public.is_staff_member(m.sender_id)
+);
+
+UPDATE public.tickets SET priority = priority;
+
+ALTER TABLE public.tickets ENABLE TRIGGER update_tickets_updated_at;
+
+-- Record priority changes in the ticket history
+CREATE OR REPLACE FUNCTION public.log_ticket_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, new_value)
+    VALUES (NEW.id, auth.uid(), 'created', NEW.status::text);
+
+    IF NEW.assignee_id IS NOT NULL THEN
+      INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, new_value)
+      VALUES (NEW.id, NULL, 'assignee_changed', NEW.assignee_id::text);
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'status_changed', OLD.status::text, NEW.status::text);
+  END IF;
+
+  IF NEW.assignee_id IS DISTINCT FROM OLD.assignee_id THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'assignee_changed', OLD.assignee_id::text, NEW.assignee_id::text);
+  END IF;
+
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'priority_changed', OLD.priority::text, NEW.priority::text);
+  END IF;
+
+  IF NEW.subject IS DISTINCT FROM OLD.subject THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'subject_changed', OLD.subject, NEW.subject);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,139 @@
+-- Ticket lifecycle settings (single row)
+CREATE TABLE public.ticket_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  reopen_window_days integer NOT NULL DEFAULT 7 CHECK (reopen_window_days >= 0),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ticket_settings ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.ticket_settings (id) VALUES (true);
+
+-- Students need the reopen window to know whether they can still reopen
+CREATE POLICY "Users can view ticket settings"
+  ON public.ticket_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can update ticket settings"
+  ON public.ticket_settings FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_ticket_settings_updated_at
+  BEFORE UPDATE ON public.ticket_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Track how often a ticket was reopened by its student
+ALTER TABLE public.tickets
+  ADD COLUMN reopen_count integer NOT NULL DEFAULT 0;
+
+ALTER TABLE public.ticket_events DROP CONSTRAINT IF EXISTS ticket_events_event_type_check;
+ALTER TABLE public.ticket_events
+  ADD CONSTRAINT ticket_events_event_type_check
+  CHECK (event_type IN ('created', 'status_changed', 'assignee_changed', 'priority_changed', 'subject_changed', 'reopened'));
+
+-- Function for a student to reopen their completed ticket. The reason is
+-- posted into the thread and the ticket goes back to whoever completed it.
+CREATE OR REPLACE FUNCTION public.reopen_ticket(_ticket_id uuid, _reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ticket public.tickets%ROWTYPE;
+  _window_days integer;
+  _completed_at timestamptz;
+  _completed_by uuid;
+BEGIN
+  IF _reason IS NULL OR length(trim(_reason)) = 0 THEN
+    RAISE EXCEPTION 'A reason is required to reopen a ticket';
+  END IF;
+
+  SELECT * INTO _ticket FROM public.tickets WHERE id = _ticket_id FOR UPDATE;
+
+  IF NOT FOUND OR _ticket.student_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Ticket not found';
+  END IF;
+
+  IF _ticket.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed tickets can be reopened';
+  END IF;
+
+  SELECT created_at, actor_id INTO _completed_at, _completed_by
+  FROM public.ticket_events
+  WHERE ticket_id = _ticket_id
+    AND event_type = 'status_changed'
+    AND new_value = 'completed'
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  SELECT reopen_window_days INTO _window_days FROM public.ticket_settings WHERE id;
+
+  IF now() > COALESCE(_completed_at, _ticket.updated_at) + make_interval(days => COALESCE(_window_days, 0)) THEN
+    RAISE EXCEPTION 'The reopen window for this ticket has passed';
+  END IF;
+
+  INSERT INTO public.messages (ticket_id, sender_id, message_type, content)
+  VALUES (_ticket_id, auth.uid(), 'text', trim(_reason));
+
+  UPDATE public.tickets
+  SET status = 'pending',
+      reopen_count = reopen_count + 1,
+      assignee_id = COALESCE(
+        assignee_id,
+        CASE WHEN public.is_staff_member(_completed_by) THEN _completed_by END
+      )
+  WHERE id = _ticket_id;
+END;
+$$;
+
+-- Reopens are logged as their own event instead of a plain status change
+CREATE OR REPLACE FUNCTION public.log_ticket_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, new_value)
+    VALUES (NEW.id, auth.uid(), 'created', NEW.status::text);
+
+    IF NEW.assignee_id IS NOT NULL THEN
+      INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, new_value)
+      VALUES (NEW.id, NULL, 'assignee_changed', NEW.assignee_id::text);
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.reopen_count > OLD.reopen_count THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'reopened', OLD.status::text, NEW.status::text);
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'status_changed', OLD.status::text, NEW.status::text);
+  END IF;
+
+  IF NEW.assignee_id IS DISTINCT FROM OLD.assignee_id THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'assignee_changed', OLD.assignee_id::text, NEW.assignee_id::text);
+  END IF;
+
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'priority_changed', OLD.priority::text, NEW.priority::text);
+  END IF;
+
+  IF NEW.subject IS DISTINCT FROM OLD.subject THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'subject_changed', OLD.subject, NEW.subject);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
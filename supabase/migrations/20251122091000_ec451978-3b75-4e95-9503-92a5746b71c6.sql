@@ -0,0 +1,100 @@
+-- Internal notes: staff-only messages inside a ticket thread
+ALTER TABLE public.messages
+  ADD COLUMN is_internal boolean NOT NULL DEFAULT false;
+
+-- RLS: students never see internal notes on their tickets
+DROP POLICY IF EXISTS "Users can view messages from their tickets" ON public.messages;
+
+CREATE POLICY "Users can view messages from their tickets"
+  ON public.messages FOR SELECT
+  TO authenticated
+  USING (
+    public.is_staff_member(auth.uid())
+    OR (
+      NOT messages.is_internal
+      AND EXISTS (
+        SELECT 1 FROM public.tickets
+        WHERE tickets.id = messages.ticket_id
+        AND tickets.student_id = auth.uid()
+      )
+    )
+  );
+
+-- RLS: only staff can write internal notes
+DROP POLICY IF EXISTS "Users can create messages in their tickets" ON public.messages;
+
+CREATE POLICY "Users can create messages in their tickets"
+  ON public.messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = sender_id
+    AND (
+      public.is_staff_member(auth.uid())
+      OR (
+        NOT messages.is_internal
+        AND EXISTS (
+          SELECT 1 FROM public.tickets
+          WHERE tickets.id = messages.ticket_id
+          AND tickets.student_id = auth.uid()
+        )
+      )
+    )
+  );
+
+-- Attachments on internal notes are hidden from students as well
+DROP POLICY IF EXISTS "Users can view media from accessible messages" ON public.media_assets;
+
+CREATE POLICY "Users can view media from accessible messages"
+  ON public.media_assets FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.messages
+      JOIN public.tickets ON messages.ticket_id = tickets.id
+      WHERE messages.id = media_assets.message_id
+      AND (
+        public.is_staff_member(auth.uid())
+        OR (tickets.student_id = auth.uid() AND NOT messages.is_internal)
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view files from accessible tickets" ON storage.objects;
+
+CREATE POLICY "Users can view files from accessible tickets"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'ticket-attachments' AND (
+    EXISTS (
+      SELECT 1 FROM public.messages
+      JOIN public.tickets ON messages.ticket_id = tickets.id
+      JOIN public.media_assets ON media_assets.message_id = messages.id
+      WHERE media_assets.storage_path = storage.objects.name
+      AND (
+        public.is_staff_member(auth.uid())
+        OR (tickets.student_id = auth.uid() AND NOT messages.is_internal)
+      )
+    )
+  )
+);
+
+-- Internal notes are not a response to the student
+CREATE OR REPLACE FUNCTION public.record_first_response()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT NEW.is_internal AND public.is_staff_member(NEW.sender_id) THEN
+    UPDATE public.tickets
+    SET first_responded_at = NEW.created_at
+    WHERE id = NEW.ticket_id
+      AND first_responded_at IS NULL
+      AND student_id <> NEW.sender_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,63 @@
+-- Create canned responses table. Shared responses are visible to all staff,
+-- personal ones only to their owner. Optional actions turn a response into
+-- a macro that also updates the ticket when the reply is sent.
+CREATE TABLE public.canned_responses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  is_shared boolean NOT NULL DEFAULT false,
+  title text NOT NULL,
+  shortcut text CHECK (shortcut ~ '^[a-z0-9_-]+$'),
+  content text NOT NULL,
+  set_status ticket_status,
+  set_priority ticket_priority,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.canned_responses ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_canned_responses_owner_id ON public.canned_responses(owner_id);
+
+CREATE POLICY "Staff can view shared and own canned responses"
+  ON public.canned_responses FOR SELECT
+  TO authenticated
+  USING (
+    public.is_staff_member(auth.uid())
+    AND (is_shared OR owner_id = auth.uid())
+  );
+
+-- Staff manage their personal responses. Only admins can publish or edit
+-- shared responses.
+CREATE POLICY "Staff can create canned responses"
+  ON public.canned_responses FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.is_staff_member(auth.uid())
+    AND owner_id = auth.uid()
+    AND (NOT is_shared OR public.has_role(auth.uid(), 'admin'))
+  );
+
+CREATE POLICY "Staff can update own canned responses"
+  ON public.canned_responses FOR UPDATE
+  TO authenticated
+  USING (
+    (owner_id = auth.uid() AND NOT is_shared)
+    OR public.has_role(auth.uid(), 'admin')
+  )
+  WITH CHECK (
+    (owner_id = auth.uid() AND NOT is_shared)
+    OR public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Staff can delete own canned responses"
+  ON public.canned_responses FOR DELETE
+  TO authenticated
+  USING (
+    (owner_id = auth.uid() AND NOT is_shared)
+    OR public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE TRIGGER update_canned_responses_updated_at
+  BEFORE UPDATE ON public.canned_responses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
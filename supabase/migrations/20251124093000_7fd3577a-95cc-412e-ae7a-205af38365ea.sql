@@ -0,0 +1,61 @@
+-- Create tags table (free-form labels, separate from categories)
+CREATE TABLE public.tags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (length(trim(name)) BETWEEN 1 AND 40),
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tags_unique_name ON public.tags (lower(name));
+
+CREATE POLICY "Staff can view tags"
+  ON public.tags FOR SELECT
+  TO authenticated
+  USING (public.is_staff_member(auth.uid()));
+
+CREATE POLICY "Staff can create tags"
+  ON public.tags FOR INSERT
+  TO authenticated
+  WITH CHECK (public.is_staff_member(auth.uid()) AND created_by = auth.uid());
+
+CREATE POLICY "Admins can delete tags"
+  ON public.tags FOR DELETE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Create ticket tags join table
+CREATE TABLE public.ticket_tags (
+  ticket_id uuid REFERENCES public.tickets(id) ON DELETE CASCADE NOT NULL,
+  tag_id uuid REFERENCES public.tags(id) ON DELETE CASCADE NOT NULL,
+  created_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (ticket_id, tag_id)
+);
+
+ALTER TABLE public.ticket_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_ticket_tags_tag_id ON public.ticket_tags(tag_id);
+
+-- Tags are an internal tool, so only staff can see or change them
+CREATE POLICY "Staff can view ticket tags"
+  ON public.ticket_tags FOR SELECT
+  TO authenticated
+  USING (public.is_staff_member(auth.uid()));
+
+CREATE POLICY "Staff can tag tickets"
+  ON public.ticket_tags FOR INSERT
+  TO authenticated
+  WITH CHECK (public.is_staff_member(auth.uid()) AND created_by = auth.uid());
+
+CREATE POLICY "Staff can untag tickets"
+  ON public.ticket_tags FOR DELETE
+  TO authenticated
+  USING (public.is_staff_member(auth.uid()));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ticket_tags;
+
+-- Macros can tag the ticket alongside the reply
+ALTER TABLE public.canned_responses
+  ADD COLUMN add_tag_id uuid REFERENCES public.tags(id) ON DELETE SET NULL;
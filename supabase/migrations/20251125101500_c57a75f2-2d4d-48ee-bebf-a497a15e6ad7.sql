@@ -0,0 +1,133 @@
+-- Create enum for escalation targets, lowest level first
+CREATE TYPE public.escalation_level AS ENUM ('senior_staff', 'admin');
+
+-- Current escalation state on the ticket
+ALTER TABLE public.tickets
+  ADD COLUMN escalation_level escalation_level,
+  ADD COLUMN escalated_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_escalation_level ON public.tickets(escalation_level) WHERE escalation_level IS NOT NULL;
+
+-- Create ticket escalations table (one row per escalation, with its reason)
+CREATE TABLE public.ticket_escalations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id uuid REFERENCES public.tickets(id) ON DELETE CASCADE NOT NULL,
+  escalated_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  level escalation_level NOT NULL,
+  reason text NOT NULL CHECK (length(trim(reason)) > 0),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.ticket_escalations ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_ticket_escalations_ticket_id ON public.ticket_escalations(ticket_id, created_at);
+
+-- RLS: escalations are internal. Rows are only written by escalate_ticket().
+CREATE POLICY "Staff can view ticket escalations"
+  ON public.ticket_escalations FOR SELECT
+  TO authenticated
+  USING (public.is_staff_member(auth.uid()));
+
+ALTER TABLE public.ticket_events DROP CONSTRAINT IF EXISTS ticket_events_event_type_check;
+ALTER TABLE public.ticket_events
+  ADD CONSTRAINT ticket_events_event_type_check
+  CHECK (event_type IN ('created', 'status_changed', 'assignee_changed', 'priority_changed', 'subject_changed', 'reopened', 'escalated'));
+
+-- Function for staff to escalate a ticket to a higher level
+CREATE OR REPLACE FUNCTION public.escalate_ticket(_ticket_id uuid, _level escalation_level, _reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ticket public.tickets%ROWTYPE;
+BEGIN
+  IF NOT public.is_staff_member(auth.uid()) THEN
+    RAISE EXCEPTION 'Only staff can escalate tickets';
+  END IF;
+
+  IF _reason IS NULL OR length(trim(_reason)) = 0 THEN
+    RAISE EXCEPTION 'A reason is required to escalate a ticket';
+  END IF;
+
+  SELECT * INTO _ticket FROM public.tickets WHERE id = _ticket_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ticket not found';
+  END IF;
+
+  IF _ticket.status = 'completed' THEN
+    RAISE EXCEPTION 'Completed tickets cannot be escalated';
+  END IF;
+
+  IF _ticket.escalation_level IS NOT NULL AND _ticket.escalation_level >= _level THEN
+    RAISE EXCEPTION 'This ticket is already escalated to that level';
+  END IF;
+
+  INSERT INTO public.ticket_escalations (ticket_id, escalated_by, level, reason)
+  VALUES (_ticket_id, auth.uid(), _level, trim(_reason));
+
+  UPDATE public.tickets
+  SET escalation_level = _level,
+      escalated_at = now()
+  WHERE id = _ticket_id;
+
+  PERFORM public.log_security_event(
+    'ticket_escalated',
+    jsonb_build_object('ticket_id', _ticket_id, 'level', _level)
+  );
+END;
+$$;
+
+-- Record escalations in the ticket history
+CREATE OR REPLACE FUNCTION public.log_ticket_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, new_value)
+    VALUES (NEW.id, auth.uid(), 'created', NEW.status::text);
+
+    IF NEW.assignee_id IS NOT NULL THEN
+      INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, new_value)
+      VALUES (NEW.id, NULL, 'assignee_changed', NEW.assignee_id::text);
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.reopen_count > OLD.reopen_count THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'reopened', OLD.status::text, NEW.status::text);
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'status_changed', OLD.status::text, NEW.status::text);
+  END IF;
+
+  IF NEW.assignee_id IS DISTINCT FROM OLD.assignee_id THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'assignee_changed', OLD.assignee_id::text, NEW.assignee_id::text);
+  END IF;
+
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'priority_changed', OLD.priority::text, NEW.priority::text);
+  END IF;
+
+  IF NEW.subject IS DISTINCT FROM OLD.subject THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'subject_changed', OLD.subject, NEW.subject);
+  END IF;
+
+  IF NEW.escalation_level IS DISTINCT FROM OLD.escalation_level AND NEW.escalation_level IS NOT NULL THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'escalated', OLD.escalation_level::text, NEW.escalation_level::text);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,273 @@
+-- Lifecycle intervals. Reminders and auto-close are turned off with 0.
+ALTER TABLE public.ticket_settings
+  ADD COLUMN reminder_after_days integer NOT NULL DEFAULT 3 CHECK (reminder_after_days >= 0),
+  ADD COLUMN auto_close_after_days integer NOT NULL DEFAULT 7 CHECK (auto_close_after_days >= 0);
+
+-- "Awaiting student" sub-state and lifecycle tracking on tickets
+ALTER TABLE public.tickets
+  ADD COLUMN awaiting_student_since timestamptz,
+  ADD COLUMN last_reminder_at timestamptz,
+  ADD COLUMN finalized_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_awaiting_student_since ON public.tickets(awaiting_student_since) WHERE awaiting_student_since IS NOT NULL;
+
+-- System messages are posted by the scheduled job and have no sender
+ALTER TABLE public.messages ALTER COLUMN sender_id DROP NOT NULL;
+
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_message_type_check;
+ALTER TABLE public.messages
+  ADD CONSTRAINT messages_message_type_check
+  CHECK (message_type IN ('text', 'voice', 'system') AND (sender_id IS NOT NULL OR message_type = 'system'));
+
+ALTER TABLE public.ticket_events DROP CONSTRAINT IF EXISTS ticket_events_event_type_check;
+ALTER TABLE public.ticket_events
+  ADD CONSTRAINT ticket_events_event_type_check
+  CHECK (event_type IN ('created', 'status_changed', 'assignee_changed', 'priority_changed', 'subject_changed', 'reopened', 'escalated', 'awaiting_student_changed', 'finalized'));
+
+-- Completing a ticket ends the wait for the student
+CREATE OR REPLACE FUNCTION public.reset_awaiting_student()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'completed' THEN
+    NEW.awaiting_student_since := NULL;
+    NEW.last_reminder_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_ticket_awaiting_student
+  BEFORE UPDATE OF status ON public.tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reset_awaiting_student();
+
+-- A reply from the student ends the wait as well
+CREATE OR REPLACE FUNCTION public.clear_awaiting_student()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.tickets
+  SET awaiting_student_since = NULL,
+      last_reminder_at = NULL
+  WHERE id = NEW.ticket_id
+    AND student_id = NEW.sender_id
+    AND awaiting_student_since IS NOT NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER clear_ticket_awaiting_student
+  AFTER INSERT ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.clear_awaiting_student();
+
+-- Finalized tickets can no longer be reopened
+CREATE OR REPLACE FUNCTION public.reopen_ticket(_ticket_id uuid, _reason text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ticket public.tickets%ROWTYPE;
+  _window_days integer;
+  _completed_at timestamptz;
+  _completed_by uuid;
+BEGIN
+  IF _reason IS NULL OR length(trim(_reason)) = 0 THEN
+    RAISE EXCEPTION 'A reason is required to reopen a ticket';
+  END IF;
+
+  SELECT * INTO _ticket FROM public.tickets WHERE id = _ticket_id FOR UPDATE;
+
+  IF NOT FOUND OR _ticket.student_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Ticket not found';
+  END IF;
+
+  IF _ticket.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed tickets can be reopened';
+  END IF;
+
+  IF _ticket.finalized_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This ticket has been finalized and can no longer be reopened';
+  END IF;
+
+  SELECT created_at, actor_id INTO _completed_at, _completed_by
+  FROM public.ticket_events
+  WHERE ticket_id = _ticket_id
+    AND event_type = 'status_changed'
+    AND new_value = 'completed'
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  SELECT reopen_window_days INTO _window_days FROM public.ticket_settings WHERE id;
+
+  IF now() > COALESCE(_completed_at, _ticket.updated_at) + make_interval(days => COALESCE(_window_days, 0)) THEN
+    RAISE EXCEPTION 'The reopen window for this ticket has passed';
+  END IF;
+
+  INSERT INTO public.messages (ticket_id, sender_id, message_type, content)
+  VALUES (_ticket_id, auth.uid(), 'text', trim(_reason));
+
+  UPDATE public.tickets
+  SET status = 'pending',
+      reopen_count = reopen_count + 1,
+      assignee_id = COALESCE(
+        assignee_id,
+        CASE WHEN public.is_staff_member(_completed_by) THEN _completed_by END
+      )
+  WHERE id = _ticket_id;
+END;
+$$;
+
+-- Scheduled job: remind students, auto-close tickets that never got a reply,
+-- and finalize completed tickets once the reopen window has passed
+CREATE OR REPLACE FUNCTION public.process_ticket_lifecycle()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.ticket_settings%ROWTYPE;
+  _ticket_id uuid;
+BEGIN
+  SELECT * INTO _settings FROM public.ticket_settings WHERE id;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF _settings.auto_close_after_days > 0 THEN
+    FOR _ticket_id IN
+      SELECT id FROM public.tickets
+      WHERE status <> 'completed'
+        AND awaiting_student_since <= now() - make_interval(days => _settings.auto_close_after_days)
+    LOOP
+      INSERT INTO public.messages (ticket_id, sender_id, message_type, content)
+      VALUES (
+        _ticket_id, NULL, 'system',
+        'This ticket was closed automatically because we did not hear back from you. You can reopen it if you still need help.'
+      );
+
+      UPDATE public.tickets SET status = 'completed' WHERE id = _ticket_id;
+    END LOOP;
+  END IF;
+
+  IF _settings.reminder_after_days > 0 THEN
+    FOR _ticket_id IN
+      SELECT id FROM public.tickets
+      WHERE status <> 'completed'
+        AND COALESCE(last_reminder_at, awaiting_student_since) <= now() - make_interval(days => _settings.reminder_after_days)
+    LOOP
+      INSERT INTO public.messages (ticket_id, sender_id, message_type, content)
+      VALUES (
+        _ticket_id, NULL, 'system',
+        'Reminder: the support team is waiting for your reply on this ticket.'
+      );
+
+      UPDATE public.tickets SET last_reminder_at = now() WHERE id = _ticket_id;
+    END LOOP;
+  END IF;
+
+  UPDATE public.tickets t
+  SET finalized_at = now()
+  WHERE t.status = 'completed'
+    AND t.finalized_at IS NULL
+    AND COALESCE(
+      (
+        SELECT max(e.created_at)
+        FROM public.ticket_events e
+        WHERE e.ticket_id = t.id
+          AND e.event_type = 'status_changed'
+          AND e.new_value = 'completed'
+      ),
+      t.updated_at
+    ) <= now() - make_interval(days => _settings.reopen_window_days);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.process_ticket_lifecycle() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'process-ticket-lifecycle',
+  '0 * * * *',
+  $$SELECT public.process_ticket_lifecycle()$$
+);
+
+-- Record awaiting-student changes and finalization in the ticket history
+CREATE OR REPLACE FUNCTION public.log_ticket_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, new_value)
+    VALUES (NEW.id, auth.uid(), 'created', NEW.status::text);
+
+    IF NEW.assignee_id IS NOT NULL THEN
+      INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, new_value)
+      VALUES (NEW.id, NULL, 'assignee_changed', NEW.assignee_id::text);
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.reopen_count > OLD.reopen_count THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'reopened', OLD.status::text, NEW.status::text);
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'status_changed', OLD.status::text, NEW.status::text);
+  END IF;
+
+  IF NEW.assignee_id IS DISTINCT FROM OLD.assignee_id THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'assignee_changed', OLD.assignee_id::text, NEW.assignee_id::text);
+  END IF;
+
+  IF NEW.priority IS DISTINCT FROM OLD.priority THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'priority_changed', OLD.priority::text, NEW.priority::text);
+  END IF;
+
+  IF NEW.subject IS DISTINCT FROM OLD.subject THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'subject_changed', OLD.subject, NEW.subject);
+  END IF;
+
+  IF NEW.escalation_level IS DISTINCT FROM OLD.escalation_level AND NEW.escalation_level IS NOT NULL THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value)
+    VALUES (NEW.id, auth.uid(), 'escalated', OLD.escalation_level::text, NEW.escalation_level::text);
+  END IF;
+
+  -- Completion clears the wait on its own, so only explicit changes are logged
+  IF (NEW.awaiting_student_since IS NULL) IS DISTINCT FROM (OLD.awaiting_student_since IS NULL)
+    AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type, old_value, new_value)
+    VALUES (
+      NEW.id, auth.uid(), 'awaiting_student_changed',
+      (OLD.awaiting_student_since IS NOT NULL)::text, (NEW.awaiting_student_since IS NOT NULL)::text
+    );
+  END IF;
+
+  IF NEW.finalized_at IS NOT NULL AND OLD.finalized_at IS NULL THEN
+    INSERT INTO public.ticket_events (ticket_id, actor_id, event_type)
+    VALUES (NEW.id, NULL, 'finalized');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,113 @@
+-- Track who resolved each ticket so satisfaction ratings can be attributed
+ALTER TABLE public.tickets
+  ADD COLUMN resolved_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_resolved_by ON public.tickets(resolved_by);
+
+-- Completing a ticket credits the staff member who did it; auto-closed tickets credit the assignee
+CREATE OR REPLACE FUNCTION public.set_ticket_resolved_by()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    NEW.resolved_by := CASE
+      WHEN public.is_staff_member(auth.uid()) THEN auth.uid()
+      ELSE NEW.assignee_id
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_ticket_resolved_by
+  BEFORE UPDATE OF status ON public.tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_ticket_resolved_by();
+
+-- Backfill from the latest completion in each ticket's history
+ALTER TABLE public.tickets DISABLE TRIGGER update_tickets_updated_at;
+
+UPDATE public.tickets t
+SET resolved_by = COALESCE(
+  (
+    SELECT e.actor_id
+    FROM public.ticket_events e
+    WHERE e.ticket_id = t.id
+      AND e.event_type = 'status_changed'
+      AND e.new_value = 'completed'
+      AND public.is_staff_member(e.actor_id)
+    ORDER BY e.created_at DESC
+    LIMIT 1
+  ),
+  t.assignee_id
+)
+WHERE t.status = 'completed';
+
+ALTER TABLE public.tickets ENABLE TRIGGER update_tickets_updated_at;
+
+-- Create ticket_ratings table for post-resolution satisfaction surveys
+CREATE TABLE public.ticket_ratings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ticket_id uuid NOT NULL UNIQUE REFERENCES public.tickets(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  resolved_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  rating smallint NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ticket_ratings_resolved_by ON public.ticket_ratings(resolved_by);
+
+ALTER TABLE public.ticket_ratings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Students can view their own ratings"
+  ON public.ticket_ratings FOR SELECT
+  USING (auth.uid() = student_id);
+
+CREATE POLICY "Staff can view all ratings"
+  ON public.ticket_ratings FOR SELECT
+  USING (public.is_staff_member(auth.uid()));
+
+CREATE TRIGGER update_ticket_ratings_updated_at
+  BEFORE UPDATE ON public.ticket_ratings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Students rate their own completed tickets. Rating again replaces the earlier answer,
+-- and the rating follows whoever resolved the ticket most recently.
+CREATE OR REPLACE FUNCTION public.rate_ticket(_ticket_id uuid, _rating integer, _comment text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ticket public.tickets%ROWTYPE;
+BEGIN
+  IF _rating IS NULL OR _rating < 1 OR _rating > 5 THEN
+    RAISE EXCEPTION 'Rating must be between 1 and 5';
+  END IF;
+
+  SELECT * INTO _ticket FROM public.tickets WHERE id = _ticket_id;
+
+  IF NOT FOUND OR _ticket.student_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Ticket not found';
+  END IF;
+
+  IF _ticket.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed tickets can be rated';
+  END IF;
+
+  INSERT INTO public.ticket_ratings (ticket_id, student_id, resolved_by, rating, comment)
+  VALUES (_ticket_id, auth.uid(), _ticket.resolved_by, _rating, NULLIF(trim(_comment), ''))
+  ON CONFLICT (ticket_id) DO UPDATE
+  SET rating = EXCLUDED.rating,
+      comment = COALESCE(EXCLUDED.comment, public.ticket_ratings.comment),
+      resolved_by = EXCLUDED.resolved_by;
+END;
+$$;
@@ -0,0 +1,395 @@
+-- Confidential complaints: the student's identity is hidden behind a pseudonym
+-- and the ticket is only visible to a designated group of admins
+ALTER TABLE public.tickets
+  ADD COLUMN is_confidential boolean NOT NULL DEFAULT false,
+  ADD COLUMN pseudonym text;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_is_confidential ON public.tickets(is_confidential) WHERE is_confidential;
+
+-- Create confidential_reviewers table for the admins who handle confidential tickets
+CREATE TABLE public.confidential_reviewers (
+  user_id uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  added_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.confidential_reviewers ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.is_confidential_reviewer(_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO public
+AS $$
+  SELECT public.has_role(_user_id, 'admin')
+    AND EXISTS (
+      SELECT 1
+      FROM public.confidential_reviewers
+      WHERE user_id = _user_id
+    )
+$$;
+
+-- Staff can access a ticket unless it is confidential and they are not a reviewer
+CREATE OR REPLACE FUNCTION public.can_staff_access_ticket(_user_id uuid, _ticket_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO public
+AS $$
+  SELECT public.is_staff_member(_user_id)
+    AND EXISTS (
+      SELECT 1
+      FROM public.tickets
+      WHERE id = _ticket_id
+        AND (NOT is_confidential OR public.is_confidential_reviewer(_user_id))
+    )
+$$;
+
+CREATE POLICY "Admins can view confidential reviewers"
+  ON public.confidential_reviewers FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Only reviewers can change the group. The first reviewer can be added by any admin.
+CREATE POLICY "Reviewers can add confidential reviewers"
+  ON public.confidential_reviewers FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.has_role(auth.uid(), 'admin')
+    AND public.has_role(user_id, 'admin')
+    AND added_by = auth.uid()
+    AND (
+      public.is_confidential_reviewer(auth.uid())
+      OR NOT EXISTS (SELECT 1 FROM public.confidential_reviewers)
+    )
+  );
+
+CREATE POLICY "Reviewers can remove confidential reviewers"
+  ON public.confidential_reviewers FOR DELETE
+  TO authenticated
+  USING (public.is_confidential_reviewer(auth.uid()));
+
+-- Changes to the group are audit-logged
+CREATE OR REPLACE FUNCTION public.log_confidential_reviewer_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.log_security_event(
+      'confidential_reviewer_added',
+      jsonb_build_object('reviewer_id', NEW.user_id)
+    );
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.log_security_event(
+    'confidential_reviewer_removed',
+    jsonb_build_object('reviewer_id', OLD.user_id)
+  );
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER log_confidential_reviewer_changes
+  AFTER INSERT OR DELETE ON public.confidential_reviewers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_confidential_reviewer_change();
+
+-- Confidential tickets get a pseudonym on creation, and the flag cannot be changed later
+CREATE OR REPLACE FUNCTION public.protect_ticket_confidentiality()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.pseudonym := CASE
+      WHEN NEW.is_confidential THEN 'Anonymous ' || upper(substr(md5(gen_random_uuid()::text), 1, 6))
+    END;
+  ELSE
+    NEW.is_confidential := OLD.is_confidential;
+    NEW.pseudonym := OLD.pseudonym;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_ticket_confidentiality
+  BEFORE INSERT OR UPDATE ON public.tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_ticket_confidentiality();
+
+-- Confidential tickets are never auto-assigned; a reviewer picks them up
+CREATE OR REPLACE FUNCTION public.route_ticket()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.routing_settings%ROWTYPE;
+  _assignee uuid;
+BEGIN
+  -- Students cannot pick their own assignee
+  IF NOT public.is_staff_member(auth.uid()) THEN
+    NEW.assignee_id := NULL;
+  END IF;
+
+  IF NEW.assignee_id IS NOT NULL OR NEW.is_confidential THEN
+    RETURN NEW;
+  END IF;
+
+  -- Lock the settings row so concurrent tickets advance round-robin in order
+  SELECT * INTO _settings FROM public.routing_settings WHERE id FOR UPDATE;
+
+  IF NOT FOUND OR _settings.mode = 'manual' THEN
+    RETURN NEW;
+  END IF;
+
+  IF _settings.mode = 'round_robin' THEN
+    SELECT p.id INTO _assignee
+    FROM public.profiles p
+    JOIN public.user_roles r ON r.user_id = p.id AND r.role = 'staff'
+    WHERE p.is_available
+    ORDER BY (p.id <= COALESCE(_settings.last_assigned_staff_id, '00000000-0000-0000-0000-000000000000'::uuid)), p.id
+    LIMIT 1;
+  END IF;
+
+  IF _settings.mode = 'category' AND NEW.category_id IS NOT NULL THEN
+    SELECT p.id INTO _assignee
+    FROM public.profiles p
+    JOIN public.category_team_members m ON m.staff_id = p.id AND m.category_id = NEW.category_id
+    LEFT JOIN public.tickets t ON t.assignee_id = p.id AND t.status <> 'completed'
+    WHERE p.is_available
+    GROUP BY p.id
+    ORDER BY count(t.id), p.id
+    LIMIT 1;
+  END IF;
+
+  IF _assignee IS NULL AND _settings.mode IN ('least_loaded', 'category') THEN
+    SELECT p.id INTO _assignee
+    FROM public.profiles p
+    JOIN public.user_roles r ON r.user_id = p.id AND r.role = 'staff'
+    LEFT JOIN public.tickets t ON t.assignee_id = p.id AND t.status <> 'completed'
+    WHERE p.is_available
+    GROUP BY p.id
+    ORDER BY count(t.id), p.id
+    LIMIT 1;
+  END IF;
+
+  IF _assignee IS NULL THEN
+    PERFORM public.log_security_event(
+      'ticket_auto_assign_skipped',
+      jsonb_build_object('ticket_id', NEW.id, 'mode', _settings.mode, 'reason', 'no_available_staff')
+    );
+    RETURN NEW;
+  END IF;
+
+  NEW.assignee_id := _assignee;
+
+  UPDATE public.routing_settings
+  SET last_assigned_staff_id = _assignee
+  WHERE id;
+
+  PERFORM public.log_security_event(
+    'ticket_auto_assigned',
+    jsonb_build_object('ticket_id', NEW.id, 'assignee_id', _assignee, 'mode', _settings.mode, 'category_id', NEW.category_id)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- RLS: restrict confidential tickets and everything attached to them to reviewers
+DROP POLICY IF EXISTS "Staff can view all tickets" ON public.tickets;
+
+CREATE POLICY "Staff can view all tickets"
+  ON public.tickets FOR SELECT
+  TO authenticated
+  USING (
+    public.is_staff_member(auth.uid())
+    AND (NOT is_confidential OR public.is_confidential_reviewer(auth.uid()))
+  );
+
+DROP POLICY IF EXISTS "Staff can update unassigned or own tickets" ON public.tickets;
+
+CREATE POLICY "Staff can update unassigned or own tickets"
+  ON public.tickets FOR UPDATE
+  TO authenticated
+  USING (
+    public.is_staff_member(auth.uid())
+    AND (NOT is_confidential OR public.is_confidential_reviewer(auth.uid()))
+    AND (
+      assignee_id IS NULL
+      OR assignee_id = auth.uid()
+      OR public.has_role(auth.uid(), 'admin')
+    )
+  )
+  WITH CHECK (
+    public.is_staff_member(auth.uid())
+    AND (assignee_id IS NULL OR public.is_staff_member(assignee_id))
+    AND (NOT is_confidential OR assignee_id IS NULL OR public.is_confidential_reviewer(assignee_id))
+  );
+
+DROP POLICY IF EXISTS "Users can view messages from their tickets" ON public.messages;
+
+CREATE POLICY "Users can view messages from their tickets"
+  ON public.messages FOR SELECT
+  TO authenticated
+  USING (
+    public.can_staff_access_ticket(auth.uid(), messages.ticket_id)
+    OR (
+      NOT messages.is_internal
+      AND EXISTS (
+        SELECT 1 FROM public.tickets
+        WHERE tickets.id = messages.ticket_id
+        AND tickets.student_id = auth.uid()
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can create messages in their tickets" ON public.messages;
+
+CREATE POLICY "Users can create messages in their tickets"
+  ON public.messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = sender_id
+    AND (
+      public.can_staff_access_ticket(auth.uid(), messages.ticket_id)
+      OR (
+        NOT messages.is_internal
+        AND EXISTS (
+          SELECT 1 FROM public.tickets
+          WHERE tickets.id = messages.ticket_id
+          AND tickets.student_id = auth.uid()
+        )
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view media from accessible messages" ON public.media_assets;
+
+CREATE POLICY "Users can view media from accessible messages"
+  ON public.media_assets FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.messages
+      JOIN public.tickets ON messages.ticket_id = tickets.id
+      WHERE messages.id = media_assets.message_id
+      AND (
+        public.can_staff_access_ticket(auth.uid(), tickets.id)
+        OR (tickets.student_id = auth.uid() AND NOT messages.is_internal)
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view files from accessible tickets" ON storage.objects;
+
+CREATE POLICY "Users can view files from accessible tickets"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'ticket-attachments' AND (
+    EXISTS (
+      SELECT 1 FROM public.messages
+      JOIN public.tickets ON messages.ticket_id = tickets.id
+      JOIN public.media_assets ON media_assets.message_id = messages.id
+      WHERE media_assets.storage_path = storage.objects.name
+      AND (
+        public.can_staff_access_ticket(auth.uid(), tickets.id)
+        OR (tickets.student_id = auth.uid() AND NOT messages.is_internal)
+      )
+    )
+  )
+);
+
+DROP POLICY IF EXISTS "Users can view events from their tickets" ON public.ticket_events;
+
+CREATE POLICY "Users can view events from their tickets"
+  ON public.ticket_events FOR SELECT
+  TO authenticated
+  USING (
+    public.can_staff_access_ticket(auth.uid(), ticket_events.ticket_id)
+    OR EXISTS (
+      SELECT 1 FROM public.tickets
+      WHERE tickets.id = ticket_events.ticket_id
+      AND tickets.student_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Staff can view ticket tags" ON public.ticket_tags;
+DROP POLICY IF EXISTS "Staff can tag tickets" ON public.ticket_tags;
+DROP POLICY IF EXISTS "Staff can untag tickets" ON public.ticket_tags;
+
+CREATE POLICY "Staff can view ticket tags"
+  ON public.ticket_tags FOR SELECT
+  TO authenticated
+  USING (public.can_staff_access_ticket(auth.uid(), ticket_id));
+
+CREATE POLICY "Staff can tag tickets"
+  ON public.ticket_tags FOR INSERT
+  TO authenticated
+  WITH CHECK (public.can_staff_access_ticket(auth.uid(), ticket_id) AND created_by = auth.uid());
+
+CREATE POLICY "Staff can untag tickets"
+  ON public.ticket_tags FOR DELETE
+  TO authenticated
+  USING (public.can_staff_access_ticket(auth.uid(), ticket_id));
+
+DROP POLICY IF EXISTS "Staff can view ticket escalations" ON public.ticket_escalations;
+
+CREATE POLICY "Staff can view ticket escalations"
+  ON public.ticket_escalations FOR SELECT
+  TO authenticated
+  USING (public.can_staff_access_ticket(auth.uid(), ticket_id));
+
+DROP POLICY IF EXISTS "Staff can view all ratings" ON public.ticket_ratings;
+
+CREATE POLICY "Staff can view all ratings"
+  ON public.ticket_ratings FOR SELECT
+  TO authenticated
+  USING (public.can_staff_access_ticket(auth.uid(), ticket_id));
+
+-- Reviewers can reveal who filed a confidential ticket. Every reveal is audit-logged with its reason.
+CREATE OR REPLACE FUNCTION public.reveal_ticket_identity(_ticket_id uuid, _reason text)
+RETURNS TABLE (name text, email text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ticket public.tickets%ROWTYPE;
+BEGIN
+  IF NOT public.is_confidential_reviewer(auth.uid()) THEN
+    RAISE EXCEPTION 'Only confidential reviewers can reveal a student''s identity';
+  END IF;
+
+  IF _reason IS NULL OR length(trim(_reason)) = 0 THEN
+    RAISE EXCEPTION 'A reason is required to reveal a student''s identity';
+  END IF;
+
+  SELECT * INTO _ticket FROM public.tickets WHERE id = _ticket_id;
+
+  IF NOT FOUND OR NOT _ticket.is_confidential THEN
+    RAISE EXCEPTION 'Ticket not found';
+  END IF;
+
+  PERFORM public.log_security_event(
+    'confidential_identity_revealed',
+    jsonb_build_object('ticket_id', _ticket_id, 'student_id', _ticket.student_id, 'reason', trim(_reason))
+  );
+
+  RETURN QUERY
+  SELECT p.name, p.email
+  FROM public.profiles p
+  WHERE p.id = _ticket.student_id;
+END;
+$$;
@@ -0,0 +1,261 @@
+-- Create ticket_participants table for students who share an issue with the ticket owner
+CREATE TABLE public.ticket_participants (
+  ticket_id uuid NOT NULL REFERENCES public.tickets(id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  added_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  joined_via text NOT NULL CHECK (joined_via IN ('co_signer', 'me_too')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (ticket_id, student_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ticket_participants_student_id ON public.ticket_participants(student_id);
+
+ALTER TABLE public.ticket_participants ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.is_ticket_participant(_user_id uuid, _ticket_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.ticket_participants
+    WHERE ticket_id = _ticket_id
+      AND student_id = _user_id
+  )
+$$;
+
+-- Owners and participants see who else is on the ticket, and so do staff who can see the ticket
+CREATE POLICY "Users can view participants of accessible tickets"
+  ON public.ticket_participants FOR SELECT
+  TO authenticated
+  USING (
+    public.can_staff_access_ticket(auth.uid(), ticket_id)
+    OR public.is_ticket_participant(auth.uid(), ticket_id)
+    OR EXISTS (
+      SELECT 1 FROM public.tickets
+      WHERE tickets.id = ticket_participants.ticket_id
+      AND tickets.student_id = auth.uid()
+    )
+  );
+
+-- Owners can add classmates as co-signers. Confidential tickets stay single-student.
+CREATE POLICY "Ticket owners can add co-signers"
+  ON public.ticket_participants FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    added_by = auth.uid()
+    AND joined_via = 'co_signer'
+    AND student_id <> auth.uid()
+    AND public.has_role(student_id, 'student')
+    AND EXISTS (
+      SELECT 1 FROM public.tickets
+      WHERE tickets.id = ticket_participants.ticket_id
+      AND tickets.student_id = auth.uid()
+      AND NOT tickets.is_confidential
+    )
+  );
+
+CREATE POLICY "Owners and participants can leave or remove participants"
+  ON public.ticket_participants FOR DELETE
+  TO authenticated
+  USING (
+    student_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM public.tickets
+      WHERE tickets.id = ticket_participants.ticket_id
+      AND tickets.student_id = auth.uid()
+    )
+  );
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ticket_participants;
+
+-- RLS: participants can read the ticket and its public thread, and reply to it
+CREATE POLICY "Participants can view tickets they joined"
+  ON public.tickets FOR SELECT
+  TO authenticated
+  USING (public.is_ticket_participant(auth.uid(), id));
+
+DROP POLICY IF EXISTS "Users can view messages from their tickets" ON public.messages;
+
+CREATE POLICY "Users can view messages from their tickets"
+  ON public.messages FOR SELECT
+  TO authenticated
+  USING (
+    public.can_staff_access_ticket(auth.uid(), messages.ticket_id)
+    OR (
+      NOT messages.is_internal
+      AND (
+        public.is_ticket_participant(auth.uid(), messages.ticket_id)
+        OR EXISTS (
+          SELECT 1 FROM public.tickets
+          WHERE tickets.id = messages.ticket_id
+          AND tickets.student_id = auth.uid()
+        )
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can create messages in their tickets" ON public.messages;
+
+CREATE POLICY "Users can create messages in their tickets"
+  ON public.messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = sender_id
+    AND (
+      public.can_staff_access_ticket(auth.uid(), messages.ticket_id)
+      OR (
+        NOT messages.is_internal
+        AND (
+          public.is_ticket_participant(auth.uid(), messages.ticket_id)
+          OR EXISTS (
+            SELECT 1 FROM public.tickets
+            WHERE tickets.id = messages.ticket_id
+            AND tickets.student_id = auth.uid()
+          )
+        )
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view media from accessible messages" ON public.media_assets;
+
+CREATE POLICY "Users can view media from accessible messages"
+  ON public.media_assets FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.messages
+      JOIN public.tickets ON messages.ticket_id = tickets.id
+      WHERE messages.id = media_assets.message_id
+      AND (
+        public.can_staff_access_ticket(auth.uid(), tickets.id)
+        OR (
+          NOT messages.is_internal
+          AND (tickets.student_id = auth.uid() OR public.is_ticket_participant(auth.uid(), tickets.id))
+        )
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view files from accessible tickets" ON storage.objects;
+
+CREATE POLICY "Users can view files from accessible tickets"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'ticket-attachments' AND (
+    EXISTS (
+      SELECT 1 FROM public.messages
+      JOIN public.tickets ON messages.ticket_id = tickets.id
+      JOIN public.media_assets ON media_assets.message_id = messages.id
+      WHERE media_assets.storage_path = storage.objects.name
+      AND (
+        public.can_staff_access_ticket(auth.uid(), tickets.id)
+        OR (
+          NOT messages.is_internal
+          AND (tickets.student_id = auth.uid() OR public.is_ticket_participant(auth.uid(), tickets.id))
+        )
+      )
+    )
+  )
+);
+
+DROP POLICY IF EXISTS "Users can view events from their tickets" ON public.ticket_events;
+
+CREATE POLICY "Users can view events from their tickets"
+  ON public.ticket_events FOR SELECT
+  TO authenticated
+  USING (
+    public.can_staff_access_ticket(auth.uid(), ticket_events.ticket_id)
+    OR public.is_ticket_participant(auth.uid(), ticket_events.ticket_id)
+    OR EXISTS (
+      SELECT 1 FROM public.tickets
+      WHERE tickets.id = ticket_events.ticket_id
+      AND tickets.student_id = auth.uid()
+    )
+  );
+
+-- A reply from any affected student ends the wait for the student
+CREATE OR REPLACE FUNCTION public.clear_awaiting_student()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.tickets
+  SET awaiting_student_since = NULL,
+      last_reminder_at = NULL
+  WHERE id = NEW.ticket_id
+    AND awaiting_student_since IS NOT NULL
+    AND (student_id = NEW.sender_id OR public.is_ticket_participant(NEW.sender_id, id));
+
+  RETURN NEW;
+END;
+$$;
+
+-- Open, non-confidential tickets a student could join instead of filing a duplicate.
+-- Only the subject and category are exposed, never who filed the ticket.
+CREATE OR REPLACE FUNCTION public.find_similar_tickets(_query text, _category_id uuid DEFAULT NULL)
+RETURNS TABLE (id uuid, subject text, category_name text, affected_count integer, created_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    t.id,
+    t.subject,
+    c.name,
+    1 + (SELECT count(*) FROM public.ticket_participants p WHERE p.ticket_id = t.id)::integer,
+    t.created_at
+  FROM public.tickets t
+  LEFT JOIN public.ticket_categories c ON c.id = t.category_id
+  WHERE t.status <> 'completed'
+    AND NOT t.is_confidential
+    AND t.student_id <> auth.uid()
+    AND NOT public.is_ticket_participant(auth.uid(), t.id)
+    AND (_category_id IS NULL OR t.category_id = _category_id)
+    AND length(trim(_query)) >= 3
+    AND t.subject ILIKE '%' || trim(_query) || '%'
+  ORDER BY t.created_at DESC
+  LIMIT 5
+$$;
+
+-- "This affects me too": a student joins an existing open ticket
+CREATE OR REPLACE FUNCTION public.join_ticket(_ticket_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ticket public.tickets%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'student') THEN
+    RAISE EXCEPTION 'Only students can join a ticket';
+  END IF;
+
+  SELECT * INTO _ticket FROM public.tickets WHERE id = _ticket_id;
+
+  IF NOT FOUND OR _ticket.is_confidential THEN
+    RAISE EXCEPTION 'Ticket not found';
+  END IF;
+
+  IF _ticket.status = 'completed' THEN
+    RAISE EXCEPTION 'This ticket has already been resolved';
+  END IF;
+
+  IF _ticket.student_id = auth.uid() THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.ticket_participants (ticket_id, student_id, added_by, joined_via)
+  VALUES (_ticket_id, auth.uid(), auth.uid(), 'me_too')
+  ON CONFLICT (ticket_id, student_id) DO NOTHING;
+END;
+$$;
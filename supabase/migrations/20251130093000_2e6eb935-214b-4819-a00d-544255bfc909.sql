@@ -0,0 +1,149 @@
+-- Create kb_articles table for the public knowledge base
+CREATE TABLE public.kb_articles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text NOT NULL CHECK (length(trim(title)) > 0),
+  slug text NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  body text NOT NULL,
+  category_id uuid REFERENCES public.ticket_categories(id) ON DELETE SET NULL,
+  is_published boolean NOT NULL DEFAULT false,
+  author_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  updated_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  search tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A')
+    || setweight(to_tsvector('english', coalesce(body, '')), 'B')
+  ) STORED,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_kb_articles_search ON public.kb_articles USING gin(search);
+CREATE INDEX IF NOT EXISTS idx_kb_articles_category_id ON public.kb_articles(category_id);
+
+ALTER TABLE public.kb_articles ENABLE ROW LEVEL SECURITY;
+
+-- Published articles are public, including to visitors who are not signed in
+CREATE POLICY "Anyone can view published articles"
+  ON public.kb_articles FOR SELECT
+  TO anon, authenticated
+  USING (is_published);
+
+CREATE POLICY "Staff can view all articles"
+  ON public.kb_articles FOR SELECT
+  TO authenticated
+  USING (public.is_staff_member(auth.uid()));
+
+CREATE POLICY "Staff can create articles"
+  ON public.kb_articles FOR INSERT
+  TO authenticated
+  WITH CHECK (public.is_staff_member(auth.uid()) AND author_id = auth.uid());
+
+CREATE POLICY "Staff can update articles"
+  ON public.kb_articles FOR UPDATE
+  TO authenticated
+  USING (public.is_staff_member(auth.uid()))
+  WITH CHECK (public.is_staff_member(auth.uid()));
+
+CREATE POLICY "Staff can delete articles"
+  ON public.kb_articles FOR DELETE
+  TO authenticated
+  USING (public.is_staff_member(auth.uid()));
+
+-- The help center groups articles by category for visitors who are not signed in
+CREATE POLICY "Visitors can view active ticket categories"
+  ON public.ticket_categories FOR SELECT
+  TO anon
+  USING (is_active);
+
+CREATE TRIGGER update_kb_articles_updated_at
+  BEFORE UPDATE ON public.kb_articles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Full-text search over the articles the caller can see
+CREATE OR REPLACE FUNCTION public.search_kb_articles(_query text, _limit integer DEFAULT 5)
+RETURNS TABLE (id uuid, title text, slug text, excerpt text, is_published boolean, rank real)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    a.id,
+    a.title,
+    a.slug,
+    left(regexp_replace(a.body, '\s+', ' ', 'g'), 200),
+    a.is_published,
+    ts_rank(a.search, q)
+  FROM public.kb_articles a,
+    websearch_to_tsquery('english', _query) q
+  WHERE a.search @@ q
+  ORDER BY ts_rank(a.search, q) DESC, a.updated_at DESC
+  LIMIT _limit
+$$;
+
+-- Create kb_article_views table to measure how often articles answer a question.
+-- Views opened from the new ticket form carry the id of that ticket draft; the
+-- draft is linked to the ticket if the student goes on to file it anyway.
+CREATE TABLE public.kb_article_views (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  article_id uuid NOT NULL REFERENCES public.kb_articles(id) ON DELETE CASCADE,
+  viewer_id uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  source text NOT NULL CHECK (source IN ('help_center', 'new_ticket')),
+  draft_id uuid,
+  ticket_id uuid REFERENCES public.tickets(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (source <> 'new_ticket' OR draft_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_kb_article_views_article_id ON public.kb_article_views(article_id);
+CREATE INDEX IF NOT EXISTS idx_kb_article_views_draft_id ON public.kb_article_views(draft_id) WHERE draft_id IS NOT NULL;
+
+ALTER TABLE public.kb_article_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can record article views"
+  ON public.kb_article_views FOR INSERT
+  TO anon, authenticated
+  WITH CHECK (
+    viewer_id IS NOT DISTINCT FROM auth.uid()
+    AND ticket_id IS NULL
+  );
+
+CREATE POLICY "Staff can view article views"
+  ON public.kb_article_views FOR SELECT
+  TO authenticated
+  USING (public.is_staff_member(auth.uid()));
+
+-- Filing the ticket after reading suggestions means the articles did not deflect it
+CREATE OR REPLACE FUNCTION public.link_kb_views_to_ticket(_draft_id uuid, _ticket_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.tickets
+    WHERE id = _ticket_id AND student_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Ticket not found';
+  END IF;
+
+  UPDATE public.kb_article_views
+  SET ticket_id = _ticket_id
+  WHERE draft_id = _draft_id
+    AND viewer_id = auth.uid();
+END;
+$$;
+
+-- Per-article usage and deflection. A deflection is a ticket draft in which the
+-- student opened the article and then never filed the ticket.
+CREATE VIEW public.kb_article_stats
+WITH (security_invoker = true)
+AS
+SELECT
+  a.id AS article_id,
+  count(v.id)::integer AS views,
+  count(DISTINCT v.draft_id)::integer AS suggestion_opens,
+  count(DISTINCT v.draft_id) FILTER (WHERE v.ticket_id IS NULL)::integer AS deflections
+FROM public.kb_articles a
+LEFT JOIN public.kb_article_views v ON v.article_id = a.id
+GROUP BY a.id;
@@ -0,0 +1,81 @@
+-- Create kb_article_sources table linking FAQ articles to the ticket they were written from
+-- Kept apart from kb_articles so the source ticket never reaches the public help center
+CREATE TABLE public.kb_article_sources (
+  article_id uuid PRIMARY KEY REFERENCES public.kb_articles(id) ON DELETE CASCADE,
+  ticket_id uuid NOT NULL REFERENCES public.tickets(id) ON DELETE CASCADE,
+  message_ids uuid[] NOT NULL DEFAULT '{}',
+  published_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_kb_article_sources_ticket_id ON public.kb_article_sources(ticket_id);
+
+ALTER TABLE public.kb_article_sources ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view article sources for tickets they can access"
+  ON public.kb_article_sources FOR SELECT
+  TO authenticated
+  USING (public.can_staff_access_ticket(auth.uid(), ticket_id));
+
+-- Publish staff replies from a completed ticket as a help article.
+-- The caller scrubs personal details and edits the text before it gets here.
+CREATE OR REPLACE FUNCTION public.publish_ticket_as_faq(
+  _ticket_id uuid,
+  _message_ids uuid[],
+  _title text,
+  _slug text,
+  _body text,
+  _is_published boolean,
+  _category_id uuid DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ticket public.tickets%ROWTYPE;
+  _article_id uuid;
+BEGIN
+  IF NOT public.can_staff_access_ticket(auth.uid(), _ticket_id) THEN
+    RAISE EXCEPTION 'Only staff with access to this ticket can publish it as an FAQ';
+  END IF;
+
+  SELECT * INTO _ticket FROM public.tickets WHERE id = _ticket_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ticket not found';
+  END IF;
+
+  IF _ticket.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed tickets can be published as an FAQ';
+  END IF;
+
+  IF _body IS NULL OR length(trim(_body)) = 0 THEN
+    RAISE EXCEPTION 'The article needs a body';
+  END IF;
+
+  -- Only public staff replies on this ticket may be quoted
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(_message_ids) AS selected(id)
+    LEFT JOIN public.messages m
+      ON m.id = selected.id
+      AND m.ticket_id = _ticket_id
+      AND NOT m.is_internal
+      AND public.is_staff_member(m.sender_id)
+    WHERE m.id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Only public staff replies on this ticket can be published';
+  END IF;
+
+  INSERT INTO public.kb_articles (title, slug, body, category_id, is_published, author_id, updated_by)
+  VALUES (trim(_title), _slug, trim(_body), _category_id, _is_published, auth.uid(), auth.uid())
+  RETURNING id INTO _article_id;
+
+  INSERT INTO public.kb_article_sources (article_id, ticket_id, message_ids, published_by)
+  VALUES (_article_id, _ticket_id, _message_ids, auth.uid());
+
+  RETURN _article_id;
+END;
+$$;
@@ -0,0 +1,93 @@
+-- Full-text search over tickets, their messages and the student who filed them
+ALTER TABLE public.tickets
+  ADD COLUMN search tsvector GENERATED ALWAYS AS (to_tsvector('english', coalesce(subject, ''))) STORED;
+
+ALTER TABLE public.messages
+  ADD COLUMN search tsvector GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_search ON public.tickets USING gin(search);
+CREATE INDEX IF NOT EXISTS idx_messages_search ON public.messages USING gin(search);
+
+-- Names and emails are not English prose, so they are indexed without stemming
+CREATE INDEX IF NOT EXISTS idx_profiles_search ON public.profiles
+  USING gin(to_tsvector('simple', coalesce(name, '') || ' ' || coalesce(email, '')));
+
+-- Search the tickets the caller can see, best match per ticket.
+-- Runs with the caller's rights, so ticket and message RLS decide what can match:
+-- students only find their own tickets and never internal notes.
+-- Matches are wrapped in ⟦ ⟧ so the client can highlight them without rendering HTML.
+CREATE OR REPLACE FUNCTION public.search_tickets(_query text, _limit integer DEFAULT 20)
+RETURNS TABLE (
+  ticket_id uuid,
+  subject text,
+  status ticket_status,
+  ticket_created_at timestamptz,
+  message_id uuid,
+  matched_in text,
+  snippet text,
+  rank real
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT
+      websearch_to_tsquery('english', _query) AS english,
+      websearch_to_tsquery('simple', _query) AS simple
+  ),
+  matches AS (
+    SELECT
+      t.id AS ticket_id,
+      NULL::uuid AS message_id,
+      'subject' AS matched_in,
+      ts_headline('english', t.subject, q.english, 'StartSel=⟦, StopSel=⟧, HighlightAll=true') AS snippet,
+      -- A hit in the subject says more about the ticket than one in a long thread
+      ts_rank(t.search, q.english) * 2 AS rank
+    FROM public.tickets t, q
+    WHERE t.search @@ q.english
+
+    UNION ALL
+
+    SELECT
+      m.ticket_id,
+      m.id,
+      'message',
+      ts_headline('english', m.content, q.english, 'StartSel=⟦, StopSel=⟧, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'),
+      ts_rank(m.search, q.english)
+    FROM public.messages m, q
+    WHERE m.search @@ q.english
+
+    UNION ALL
+
+    SELECT
+      t.id,
+      NULL::uuid,
+      'student',
+      ts_headline('simple', p.name || ' (' || p.email || ')', q.simple, 'StartSel=⟦, StopSel=⟧, HighlightAll=true'),
+      ts_rank(to_tsvector('simple', coalesce(p.name, '') || ' ' || coalesce(p.email, '')), q.simple)
+    FROM public.tickets t
+    JOIN public.profiles p ON p.id = t.student_id, q
+    WHERE to_tsvector('simple', coalesce(p.name, '') || ' ' || coalesce(p.email, '')) @@ q.simple
+      -- Searching by name must not tie a confidential ticket to its student
+      AND (NOT t.is_confidential OR t.student_id = auth.uid())
+  ),
+  best AS (
+    SELECT DISTINCT ON (ticket_id) *
+    FROM matches
+    ORDER BY ticket_id, rank DESC
+  )
+  SELECT
+    b.ticket_id,
+    t.subject,
+    t.status,
+    t.created_at,
+    b.message_id,
+    b.matched_in,
+    b.snippet,
+    b.rank
+  FROM best b
+  JOIN public.tickets t ON t.id = b.ticket_id
+  ORDER BY b.rank DESC, t.created_at DESC
+  LIMIT _limit;
+$$;
@@ -0,0 +1,55 @@
+CREATE INDEX IF NOT EXISTS idx_messages_ticket_id_created_at ON public.messages(ticket_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_tickets_created_at ON public.tickets(created_at);
+
+-- Ticket lists page, sort and filter on the server through this view instead of
+-- loading every ticket with its messages. It runs with the caller's rights, so
+-- tickets, messages and history are limited by their RLS policies as before.
+CREATE VIEW public.ticket_list
+WITH (security_invoker = true)
+AS
+SELECT
+  t.*,
+  coalesce(m.message_count, 0)::integer AS message_count,
+  greatest(t.created_at, m.last_message_at, e.last_event_at) AS last_activity_at,
+  -- The next SLA deadline still running; infinity keeps tickets without one last
+  -- in the SLA sort without special-casing nulls in the cursor
+  coalesce(
+    CASE
+      WHEN t.status = 'completed' THEN NULL
+      WHEN t.first_responded_at IS NULL THEN t.first_response_due_at
+      ELSE t.resolution_due_at
+    END,
+    'infinity'::timestamptz
+  ) AS sla_due_at
+FROM public.tickets t
+LEFT JOIN LATERAL (
+  SELECT count(*) AS message_count, max(created_at) AS last_message_at
+  FROM public.messages
+  WHERE ticket_id = t.id
+) m ON true
+LEFT JOIN LATERAL (
+  SELECT max(created_at) AS last_event_at
+  FROM public.ticket_events
+  WHERE ticket_id = t.id
+) e ON true;
+
+-- Counts behind the queue tabs and counters, grouped so the dashboard can
+-- add them up per scope and status without loading the tickets themselves
+CREATE OR REPLACE FUNCTION public.ticket_queue_counts(_category_id uuid DEFAULT NULL, _tag_id uuid DEFAULT NULL)
+RETURNS TABLE (status ticket_status, is_awaiting boolean, assignee_id uuid, ticket_count integer)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    t.status,
+    t.awaiting_student_since IS NOT NULL AND t.status <> 'completed',
+    t.assignee_id,
+    count(*)::integer
+  FROM public.tickets t
+  WHERE (_category_id IS NULL OR t.category_id = _category_id)
+    AND (_tag_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.ticket_tags tt WHERE tt.ticket_id = t.id AND tt.tag_id = _tag_id
+    ))
+  GROUP BY 1, 2, 3;
+$$;
@@ -0,0 +1,105 @@
+-- Create saved ticket views table. A view is a named staff dashboard filter,
+-- stored as the same query string the dashboard keeps in its URL. Shared views
+-- are visible to all staff, personal ones only to their owner.
+CREATE TABLE public.saved_ticket_views (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  query text NOT NULL DEFAULT '',
+  is_shared boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.saved_ticket_views ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_saved_ticket_views_owner_id ON public.saved_ticket_views(owner_id);
+
+CREATE POLICY "Staff can view shared and own ticket views"
+  ON public.saved_ticket_views FOR SELECT
+  TO authenticated
+  USING (
+    public.is_staff_member(auth.uid())
+    AND (is_shared OR owner_id = auth.uid())
+  );
+
+CREATE POLICY "Staff can create ticket views"
+  ON public.saved_ticket_views FOR INSERT
+  TO authenticated
+  WITH CHECK (public.is_staff_member(auth.uid()) AND owner_id = auth.uid());
+
+CREATE POLICY "Staff can update own ticket views"
+  ON public.saved_ticket_views FOR UPDATE
+  TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Staff can delete own ticket views"
+  ON public.saved_ticket_views FOR DELETE
+  TO authenticated
+  USING (owner_id = auth.uid());
+
+CREATE TRIGGER update_saved_ticket_views_updated_at
+  BEFORE UPDATE ON public.saved_ticket_views
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Create saved ticket view pins table for the views each staff member keeps in their sidebar
+CREATE TABLE public.saved_ticket_view_pins (
+  view_id uuid REFERENCES public.saved_ticket_views(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (view_id, user_id)
+);
+
+ALTER TABLE public.saved_ticket_view_pins ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_saved_ticket_view_pins_user_id ON public.saved_ticket_view_pins(user_id);
+
+CREATE POLICY "Staff can view own pins"
+  ON public.saved_ticket_view_pins FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- The view lookup runs under the caller's RLS, so only visible views can be pinned
+CREATE POLICY "Staff can pin visible views"
+  ON public.saved_ticket_view_pins FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.saved_ticket_views v WHERE v.id = view_id)
+  );
+
+CREATE POLICY "Staff can unpin views"
+  ON public.saved_ticket_view_pins FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Views can filter on priority and age, so the queue counters need to as well
+DROP FUNCTION IF EXISTS public.ticket_queue_counts(uuid, uuid);
+
+CREATE OR REPLACE FUNCTION public.ticket_queue_counts(
+  _category_id uuid DEFAULT NULL,
+  _tag_id uuid DEFAULT NULL,
+  _priority ticket_priority DEFAULT NULL,
+  _created_before timestamptz DEFAULT NULL
+)
+RETURNS TABLE (status ticket_status, is_awaiting boolean, assignee_id uuid, ticket_count integer)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    t.status,
+    t.awaiting_student_since IS NOT NULL AND t.status <> 'completed',
+    t.assignee_id,
+    count(*)::integer
+  FROM public.tickets t
+  WHERE (_category_id IS NULL OR t.category_id = _category_id)
+    AND (_tag_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.ticket_tags tt WHERE tt.ticket_id = t.id AND tt.tag_id = _tag_id
+    ))
+    AND (_priority IS NULL OR t.priority = _priority)
+    AND (_created_before IS NULL OR t.created_at < _created_before)
+  GROUP BY 1, 2, 3;
+$$;
@@ -0,0 +1,218 @@
+-- Merged duplicates point at the ticket that carries on the conversation
+ALTER TABLE public.tickets
+  ADD COLUMN merged_into_id uuid REFERENCES public.tickets(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tickets_merged_into_id ON public.tickets(merged_into_id);
+
+-- ticket_list expands t.* when it is created, so it is rebuilt to pick up the new column
+DROP VIEW public.ticket_list;
+
+CREATE VIEW public.ticket_list
+WITH (security_invoker = true)
+AS
+SELECT
+  t.*,
+  coalesce(m.message_count, 0)::integer AS message_count,
+  greatest(t.created_at, m.last_message_at, e.last_event_at) AS last_activity_at,
+  coalesce(
+    CASE
+      WHEN t.status = 'completed' THEN NULL
+      WHEN t.first_responded_at IS NULL THEN t.first_response_due_at
+      ELSE t.resolution_due_at
+    END,
+    'infinity'::timestamptz
+  ) AS sla_due_at
+FROM public.tickets t
+LEFT JOIN LATERAL (
+  SELECT count(*) AS message_count, max(created_at) AS last_message_at
+  FROM public.messages
+  WHERE ticket_id = t.id
+) m ON true
+LEFT JOIN LATERAL (
+  SELECT max(created_at) AS last_event_at
+  FROM public.ticket_events
+  WHERE ticket_id = t.id
+) e ON true;
+
+-- Students from merged tickets follow the surviving ticket as participants
+ALTER TABLE public.ticket_participants DROP CONSTRAINT IF EXISTS ticket_participants_joined_via_check;
+
+ALTER TABLE public.ticket_participants
+  ADD CONSTRAINT ticket_participants_joined_via_check
+  CHECK (joined_via IN ('co_signer', 'me_too', 'merged'));
+
+-- Apply one action to many tickets in a single transaction. Each ticket runs in
+-- its own subtransaction, so one failure is reported without undoing the rest.
+-- Every affected ticket gets its own audit log entry, tied together by a batch id.
+CREATE OR REPLACE FUNCTION public.bulk_update_tickets(_ticket_ids uuid[], _action text, _params jsonb DEFAULT '{}')
+RETURNS TABLE (ticket_id uuid, succeeded boolean, error_message text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  _batch_id uuid := gen_random_uuid();
+  _is_admin boolean := public.has_role(auth.uid(), 'admin');
+  _id uuid;
+  _ticket public.tickets%ROWTYPE;
+  _target public.tickets%ROWTYPE;
+  _response public.canned_responses%ROWTYPE;
+  _status ticket_status;
+  _assignee_id uuid;
+  _tag_id uuid;
+  _content text;
+BEGIN
+  IF NOT public.is_staff_member(auth.uid()) THEN
+    RAISE EXCEPTION 'Only staff can update tickets in bulk';
+  END IF;
+
+  IF _action NOT IN ('status', 'assign', 'tag', 'merge', 'reply') THEN
+    RAISE EXCEPTION 'Unknown bulk action: %', _action;
+  END IF;
+
+  -- Parameters are checked once up front; a bad one fails the whole batch
+  IF _action = 'status' THEN
+    _status := (_params->>'status')::ticket_status;
+  ELSIF _action = 'assign' THEN
+    _assignee_id := (_params->>'assignee_id')::uuid;
+    IF _assignee_id IS NOT NULL AND NOT public.is_staff_member(_assignee_id) THEN
+      RAISE EXCEPTION 'Tickets can only be assigned to staff';
+    END IF;
+  ELSIF _action = 'tag' THEN
+    _tag_id := (_params->>'tag_id')::uuid;
+    IF NOT EXISTS (SELECT 1 FROM public.tags WHERE id = _tag_id) THEN
+      RAISE EXCEPTION 'Tag not found';
+    END IF;
+  ELSIF _action = 'merge' THEN
+    SELECT * INTO _target FROM public.tickets WHERE id = (_params->>'target_ticket_id')::uuid FOR UPDATE;
+    IF NOT FOUND OR NOT public.can_staff_access_ticket(auth.uid(), _target.id) THEN
+      RAISE EXCEPTION 'Merge target not found';
+    END IF;
+    IF _target.is_confidential THEN
+      RAISE EXCEPTION 'Tickets cannot be merged into a confidential ticket';
+    END IF;
+    IF _target.merged_into_id IS NOT NULL THEN
+      RAISE EXCEPTION 'The merge target has itself been merged into another ticket';
+    END IF;
+  ELSIF _action = 'reply' THEN
+    SELECT * INTO _response
+    FROM public.canned_responses
+    WHERE id = (_params->>'canned_response_id')::uuid
+      AND (is_shared OR owner_id = auth.uid());
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Canned response not found';
+    END IF;
+  END IF;
+
+  FOREACH _id IN ARRAY _ticket_ids LOOP
+    -- The target is part of the selection when merging, but it is the one that stays
+    CONTINUE WHEN _action = 'merge' AND _id = _target.id;
+
+    BEGIN
+      SELECT * INTO _ticket FROM public.tickets WHERE id = _id FOR UPDATE;
+
+      IF NOT FOUND OR NOT public.can_staff_access_ticket(auth.uid(), _id) THEN
+        RAISE EXCEPTION 'Ticket not found';
+      END IF;
+
+      -- Same rule as the tickets update policy: assigned tickets belong to their assignee
+      IF _action <> 'tag'
+        AND _ticket.assignee_id IS NOT NULL
+        AND _ticket.assignee_id <> auth.uid()
+        AND NOT _is_admin THEN
+        RAISE EXCEPTION 'Assigned to another staff member';
+      END IF;
+
+      IF _action = 'status' THEN
+        IF _ticket.finalized_at IS NOT NULL THEN
+          RAISE EXCEPTION 'Ticket is finalized';
+        END IF;
+        UPDATE public.tickets SET status = _status WHERE id = _id;
+
+      ELSIF _action = 'assign' THEN
+        UPDATE public.tickets SET assignee_id = _assignee_id WHERE id = _id;
+
+      ELSIF _action = 'tag' THEN
+        INSERT INTO public.ticket_tags (ticket_id, tag_id, created_by)
+        VALUES (_id, _tag_id, auth.uid())
+        ON CONFLICT (ticket_id, tag_id) DO NOTHING;
+
+      ELSIF _action = 'merge' THEN
+        IF _ticket.is_confidential THEN
+          RAISE EXCEPTION 'Confidential tickets cannot be merged';
+        END IF;
+        IF _ticket.merged_into_id IS NOT NULL THEN
+          RAISE EXCEPTION 'Ticket was already merged';
+        END IF;
+
+        INSERT INTO public.ticket_participants (ticket_id, student_id, added_by, joined_via)
+        SELECT _target.id, student_id, auth.uid(), 'merged'
+        FROM (
+          SELECT _ticket.student_id AS student_id
+          UNION
+          SELECT p.student_id FROM public.ticket_participants p WHERE p.ticket_id = _id
+        ) students
+        WHERE student_id <> _target.student_id
+        ON CONFLICT (ticket_id, student_id) DO NOTHING;
+
+        INSERT INTO public.messages (ticket_id, sender_id, message_type, content)
+        VALUES
+          (_id, NULL, 'system', format('This ticket was merged into "%s". The conversation continues there.', _target.subject)),
+          (_target.id, NULL, 'system', format('"%s" was merged into this ticket.', _ticket.subject));
+
+        UPDATE public.tickets
+        SET status = 'completed',
+            merged_into_id = _target.id
+        WHERE id = _id;
+
+      ELSIF _action = 'reply' THEN
+        _content := replace(
+          replace(
+            _response.content,
+            '{{student.name}}',
+            CASE WHEN _ticket.is_confidential
+              THEN coalesce(_ticket.pseudonym, 'there')
+              ELSE coalesce((SELECT name FROM public.profiles WHERE id = _ticket.student_id), 'there')
+            END
+          ),
+          '{{ticket.subject}}',
+          _ticket.subject
+        );
+
+        INSERT INTO public.messages (ticket_id, sender_id, message_type, content, is_internal)
+        VALUES (_id, auth.uid(), 'text', _content, false);
+
+        -- Canned responses with actions behave as macros, as they do in the composer
+        IF _response.set_status IS NOT NULL OR _response.set_priority IS NOT NULL THEN
+          UPDATE public.tickets
+          SET status = coalesce(_response.set_status, status),
+              priority = coalesce(_response.set_priority, priority)
+          WHERE id = _id;
+        END IF;
+
+        IF _response.add_tag_id IS NOT NULL THEN
+          INSERT INTO public.ticket_tags (ticket_id, tag_id, created_by)
+          VALUES (_id, _response.add_tag_id, auth.uid())
+          ON CONFLICT (ticket_id, tag_id) DO NOTHING;
+        END IF;
+      END IF;
+
+      PERFORM public.log_security_event(
+        'ticket_bulk_' || _action,
+        jsonb_build_object('batch_id', _batch_id, 'ticket_id', _id, 'params', _params)
+      );
+
+      ticket_id := _id;
+      succeeded := true;
+      error_message := NULL;
+      RETURN NEXT;
+    EXCEPTION WHEN OTHERS THEN
+      ticket_id := _id;
+      succeeded := false;
+      error_message := SQLERRM;
+      RETURN NEXT;
+    END;
+  END LOOP;
+END;
+$$;
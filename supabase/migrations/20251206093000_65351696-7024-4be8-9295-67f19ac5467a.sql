@@ -0,0 +1,58 @@
+-- Short sequential numbers so staff can refer to and jump to a ticket ("#128")
+ALTER TABLE public.tickets ADD COLUMN number bigint;
+
+-- Existing tickets are numbered in the order they were raised. Triggers are
+-- paused so the backfill does not bump updated_at or trip the update guards.
+ALTER TABLE public.tickets DISABLE TRIGGER USER;
+
+UPDATE public.tickets t
+SET number = numbered.number
+FROM (
+  SELECT id, row_number() OVER (ORDER BY created_at, id) AS number
+  FROM public.tickets
+) numbered
+WHERE t.id = numbered.id;
+
+ALTER TABLE public.tickets ENABLE TRIGGER USER;
+
+ALTER TABLE public.tickets
+  ALTER COLUMN number SET NOT NULL,
+  ALTER COLUMN number ADD GENERATED BY DEFAULT AS IDENTITY,
+  ADD CONSTRAINT tickets_number_key UNIQUE (number);
+
+SELECT setval(
+  pg_get_serial_sequence('public.tickets', 'number'),
+  coalesce(max(number), 0) + 1,
+  false
+)
+FROM public.tickets;
+
+-- ticket_list expands t.* when it is created, so it is rebuilt to pick up the new column
+DROP VIEW public.ticket_list;
+
+CREATE VIEW public.ticket_list
+WITH (security_invoker = true)
+AS
+SELECT
+  t.*,
+  coalesce(m.message_count, 0)::integer AS message_count,
+  greatest(t.created_at, m.last_message_at, e.last_event_at) AS last_activity_at,
+  coalesce(
+    CASE
+      WHEN t.status = 'completed' THEN NULL
+      WHEN t.first_responded_at IS NULL THEN t.first_response_due_at
+      ELSE t.resolution_due_at
+    END,
+    'infinity'::timestamptz
+  ) AS sla_due_at
+FROM public.tickets t
+LEFT JOIN LATERAL (
+  SELECT count(*) AS message_count, max(created_at) AS last_message_at
+  FROM public.messages
+  WHERE ticket_id = t.id
+) m ON true
+LEFT JOIN LATERAL (
+  SELECT max(created_at) AS last_event_at
+  FROM public.ticket_events
+  WHERE ticket_id = t.id
+) e ON true;
@@ -0,0 +1,144 @@
+-- How long after sending a message its sender can still edit or delete it (0 turns it off)
+ALTER TABLE public.ticket_settings
+  ADD COLUMN message_edit_window_minutes integer NOT NULL DEFAULT 15 CHECK (message_edit_window_minutes >= 0);
+
+-- Deleted messages stay in the thread as a placeholder, so replies around them still make sense
+ALTER TABLE public.messages
+  ADD COLUMN edited_at timestamptz,
+  ADD COLUMN deleted_at timestamptz;
+
+-- Create message_revisions table for the versions edited or deleted messages replaced
+CREATE TABLE public.message_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  action text NOT NULL CHECK (action IN ('edited', 'deleted')),
+  content text,
+  revised_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_revisions_message_id ON public.message_revisions(message_id, created_at);
+
+ALTER TABLE public.message_revisions ENABLE ROW LEVEL SECURITY;
+
+-- RLS: only staff who can see the ticket can see what a message used to say
+CREATE POLICY "Staff can view revisions of messages on accessible tickets"
+  ON public.message_revisions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.messages
+      WHERE messages.id = message_revisions.message_id
+      AND public.can_staff_access_ticket(auth.uid(), messages.ticket_id)
+    )
+  );
+
+-- Every change to a message keeps the version it replaced
+CREATE OR REPLACE FUNCTION public.record_message_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.deleted_at IS NOT NULL AND OLD.deleted_at IS NULL THEN
+    INSERT INTO public.message_revisions (message_id, action, content, revised_by)
+    VALUES (OLD.id, 'deleted', coalesce(OLD.content, OLD.transcript), auth.uid());
+  ELSIF NEW.content IS DISTINCT FROM OLD.content THEN
+    INSERT INTO public.message_revisions (message_id, action, content, revised_by)
+    VALUES (OLD.id, 'edited', OLD.content, auth.uid());
+    NEW.edited_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_message_revisions
+  BEFORE UPDATE ON public.messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_message_revision();
+
+-- Locks a message the caller wants to change, after checking it is still theirs to change
+CREATE OR REPLACE FUNCTION public.lock_own_message(_message_id uuid)
+RETURNS public.messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _message public.messages%ROWTYPE;
+  _window_minutes integer;
+BEGIN
+  SELECT * INTO _message FROM public.messages WHERE id = _message_id FOR UPDATE;
+
+  IF NOT FOUND OR _message.sender_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You can only change your own messages';
+  END IF;
+
+  IF _message.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This message was deleted';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.tickets WHERE id = _message.ticket_id AND finalized_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'Ticket is finalized';
+  END IF;
+
+  SELECT message_edit_window_minutes INTO _window_minutes FROM public.ticket_settings WHERE id;
+
+  IF coalesce(_window_minutes, 0) = 0 THEN
+    RAISE EXCEPTION 'Editing messages is turned off';
+  END IF;
+
+  IF _message.created_at < now() - make_interval(mins => _window_minutes) THEN
+    RAISE EXCEPTION 'Messages can only be changed within % minutes of sending', _window_minutes;
+  END IF;
+
+  RETURN _message;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.lock_own_message(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.edit_message(_message_id uuid, _content text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _message public.messages%ROWTYPE;
+BEGIN
+  _message := public.lock_own_message(_message_id);
+
+  IF _message.message_type <> 'text' THEN
+    RAISE EXCEPTION 'Only text messages can be edited';
+  END IF;
+
+  IF coalesce(trim(_content), '') = '' THEN
+    RAISE EXCEPTION 'A message cannot be empty';
+  END IF;
+
+  UPDATE public.messages
+  SET content = trim(_content)
+  WHERE id = _message_id;
+END;
+$$;
+
+-- Attachments stay linked for staff, but the thread no longer shows them
+CREATE OR REPLACE FUNCTION public.delete_message(_message_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.lock_own_message(_message_id);
+
+  UPDATE public.messages
+  SET content = NULL,
+      transcript = NULL,
+      deleted_at = now()
+  WHERE id = _message_id;
+END;
+$$;
@@ -0,0 +1,120 @@
+-- Create ticket_reads table for how far each user has read each ticket
+CREATE TABLE public.ticket_reads (
+  ticket_id uuid NOT NULL REFERENCES public.tickets(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  last_read_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (ticket_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ticket_reads_user_id ON public.ticket_reads(user_id);
+
+ALTER TABLE public.ticket_reads ENABLE ROW LEVEL SECURITY;
+
+-- RLS: read state is private to its user, and only for tickets they can see
+CREATE POLICY "Users can view their own read state"
+  ON public.ticket_reads FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark tickets they can see as read"
+  ON public.ticket_reads FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.tickets WHERE tickets.id = ticket_reads.ticket_id)
+  );
+
+CREATE POLICY "Users can update their own read state"
+  ON public.ticket_reads FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ticket_reads;
+
+-- Existing conversations start out read for the people already following them,
+-- so nobody opens the app to every old reply flagged as new
+INSERT INTO public.ticket_reads (ticket_id, user_id)
+SELECT id, student_id FROM public.tickets
+UNION
+SELECT id, assignee_id FROM public.tickets WHERE assignee_id IS NOT NULL
+UNION
+SELECT ticket_id, student_id FROM public.ticket_participants
+ON CONFLICT DO NOTHING;
+
+-- Unread replies for the caller: messages from others since they last opened the
+-- ticket. Tickets they never opened count every message. Added at the end of the
+-- view so it can be replaced in place.
+CREATE OR REPLACE VIEW public.ticket_list
+WITH (security_invoker = true)
+AS
+SELECT
+  t.*,
+  coalesce(m.message_count, 0)::integer AS message_count,
+  greatest(t.created_at, m.last_message_at, e.last_event_at) AS last_activity_at,
+  coalesce(
+    CASE
+      WHEN t.status = 'completed' THEN NULL
+      WHEN t.first_responded_at IS NULL THEN t.first_response_due_at
+      ELSE t.resolution_due_at
+    END,
+    'infinity'::timestamptz
+  ) AS sla_due_at,
+  coalesce(u.unread_count, 0)::integer AS unread_count
+FROM public.tickets t
+LEFT JOIN LATERAL (
+  SELECT count(*) AS message_count, max(created_at) AS last_message_at
+  FROM public.messages
+  WHERE ticket_id = t.id
+) m ON true
+LEFT JOIN LATERAL (
+  SELECT max(created_at) AS last_event_at
+  FROM public.ticket_events
+  WHERE ticket_id = t.id
+) e ON true
+LEFT JOIN public.ticket_reads r ON r.ticket_id = t.id AND r.user_id = auth.uid()
+LEFT JOIN LATERAL (
+  SELECT count(*) AS unread_count
+  FROM public.messages
+  WHERE ticket_id = t.id
+    AND created_at > coalesce(r.last_read_at, '-infinity'::timestamptz)
+    AND sender_id IS DISTINCT FROM auth.uid()
+    AND deleted_at IS NULL
+) u ON true;
+
+-- Marks a ticket read up to now and returns where the caller had read up to
+-- before, so the thread can show where the new messages start
+CREATE OR REPLACE FUNCTION public.mark_ticket_read(_ticket_id uuid)
+RETURNS timestamptz
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _previous timestamptz;
+BEGIN
+  SELECT last_read_at INTO _previous
+  FROM public.ticket_reads
+  WHERE ticket_id = _ticket_id AND user_id = auth.uid();
+
+  INSERT INTO public.ticket_reads (ticket_id, user_id, last_read_at)
+  VALUES (_ticket_id, auth.uid(), now())
+  ON CONFLICT (ticket_id, user_id) DO UPDATE SET last_read_at = EXCLUDED.last_read_at;
+
+  RETURN _previous;
+END;
+$$;
+
+-- Total behind the header badge: unread replies on tickets the caller follows,
+-- meaning tickets they filed, joined or are assigned to
+CREATE OR REPLACE FUNCTION public.unread_message_count()
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce(sum(unread_count), 0)::integer
+  FROM public.ticket_list
+  WHERE student_id = auth.uid()
+    OR assignee_id = auth.uid()
+    OR public.is_ticket_participant(auth.uid(), id);
+$$;
@@ -0,0 +1,435 @@
+-- Confidential tickets must not reveal their student to staff, not even in API
+-- responses the UI never renders. Staff no longer read confidential rows from
+-- tickets directly: reviewers get them through ticket_details, which leaves out
+-- the student until reveal_ticket_identity is used, and change them through
+-- update_ticket.
+
+-- Anyone involved in a ticket: staff who can access it, its student and participants
+CREATE OR REPLACE FUNCTION public.can_view_ticket(_user_id uuid, _ticket_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO public
+AS $$
+  SELECT public.can_staff_access_ticket(_user_id, _ticket_id)
+    OR public.is_ticket_participant(_user_id, _ticket_id)
+    OR EXISTS (
+      SELECT 1
+      FROM public.tickets
+      WHERE id = _ticket_id
+        AND student_id = _user_id
+    )
+$$;
+
+DROP POLICY IF EXISTS "Staff can view all tickets" ON public.tickets;
+
+-- Reviewers see confidential tickets through ticket_details instead
+CREATE POLICY "Staff can view all tickets"
+  ON public.tickets FOR SELECT
+  TO authenticated
+  USING (
+    public.is_staff_member(auth.uid())
+    AND NOT is_confidential
+  );
+
+-- Every ticket the caller can see, with the student and their name left out of
+-- confidential tickets unless the caller filed it. Runs with the owner's rights
+-- so reviewers can read confidential tickets, hence the explicit visibility check
+-- and security_barrier.
+CREATE VIEW public.ticket_details
+WITH (security_barrier = true)
+AS
+SELECT
+  t.id,
+  t.number,
+  t.subject,
+  CASE WHEN NOT t.is_confidential OR t.student_id = auth.uid() THEN t.student_id END AS student_id,
+  CASE WHEN NOT t.is_confidential OR t.student_id = auth.uid() THEN p.name END AS student_name,
+  t.status,
+  t.priority,
+  t.category_id,
+  t.subcategory_id,
+  t.assignee_id,
+  t.resolved_by,
+  t.is_confidential,
+  t.pseudonym,
+  t.escalation_level,
+  t.escalated_at,
+  t.first_response_due_at,
+  t.first_responded_at,
+  t.resolution_due_at,
+  t.awaiting_student_since,
+  t.last_reminder_at,
+  t.reopen_count,
+  t.finalized_at,
+  t.merged_into_id,
+  t.search,
+  t.created_at,
+  t.updated_at
+FROM public.tickets t
+LEFT JOIN public.profiles p ON p.id = t.student_id
+WHERE (
+    public.is_staff_member(auth.uid())
+    AND (NOT t.is_confidential OR public.is_confidential_reviewer(auth.uid()))
+  )
+  OR t.student_id = auth.uid()
+  OR public.is_ticket_participant(auth.uid(), t.id);
+
+-- ticket_list builds on ticket_details so queues get the same masking
+DROP VIEW public.ticket_list;
+
+CREATE VIEW public.ticket_list
+WITH (security_invoker = true)
+AS
+SELECT
+  t.*,
+  coalesce(m.message_count, 0)::integer AS message_count,
+  greatest(t.created_at, m.last_message_at, e.last_event_at) AS last_activity_at,
+  coalesce(
+    CASE
+      WHEN t.status = 'completed' THEN NULL
+      WHEN t.first_responded_at IS NULL THEN t.first_response_due_at
+      ELSE t.resolution_due_at
+    END,
+    'infinity'::timestamptz
+  ) AS sla_due_at,
+  coalesce(u.unread_count, 0)::integer AS unread_count
+FROM public.ticket_details t
+LEFT JOIN LATERAL (
+  SELECT count(*) AS message_count, max(created_at) AS last_message_at
+  FROM public.messages
+  WHERE ticket_id = t.id
+) m ON true
+LEFT JOIN LATERAL (
+  SELECT max(created_at) AS last_event_at
+  FROM public.ticket_events
+  WHERE ticket_id = t.id
+) e ON true
+LEFT JOIN public.ticket_reads r ON r.ticket_id = t.id AND r.user_id = auth.uid()
+LEFT JOIN LATERAL (
+  SELECT count(*) AS unread_count
+  FROM public.messages
+  WHERE ticket_id = t.id
+    AND created_at > coalesce(r.last_read_at, '-infinity'::timestamptz)
+    AND sender_id IS DISTINCT FROM auth.uid()
+    AND deleted_at IS NULL
+) u ON true;
+
+CREATE OR REPLACE FUNCTION public.ticket_queue_counts(
+  _category_id uuid DEFAULT NULL,
+  _tag_id uuid DEFAULT NULL,
+  _priority ticket_priority DEFAULT NULL,
+  _created_before timestamptz DEFAULT NULL
+)
+RETURNS TABLE (status ticket_status, is_awaiting boolean, assignee_id uuid, ticket_count integer)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    t.status,
+    t.awaiting_student_since IS NOT NULL AND t.status <> 'completed',
+    t.assignee_id,
+    count(*)::integer
+  FROM public.ticket_details t
+  WHERE (_category_id IS NULL OR t.category_id = _category_id)
+    AND (_tag_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.ticket_tags tt WHERE tt.ticket_id = t.id AND tt.tag_id = _tag_id
+    ))
+    AND (_priority IS NULL OR t.priority = _priority)
+    AND (_created_before IS NULL OR t.created_at < _created_before)
+  GROUP BY 1, 2, 3;
+$$;
+
+-- Search the tickets the caller can see, best match per ticket.
+-- Runs with the caller's rights, so ticket_details and message RLS decide what can match:
+-- students only find their own tickets and never internal notes.
+-- Matches are wrapped in ⟦ ⟧ so the client can highlight them without rendering HTML.
+CREATE OR REPLACE FUNCTION public.search_tickets(_query text, _limit integer DEFAULT 20)
+RETURNS TABLE (
+  ticket_id uuid,
+  subject text,
+  status ticket_status,
+  ticket_created_at timestamptz,
+  message_id uuid,
+  matched_in text,
+  snippet text,
+  rank real
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT
+      websearch_to_tsquery('english', _query) AS english,
+      websearch_to_tsquery('simple', _query) AS simple
+  ),
+  matches AS (
+    SELECT
+      t.id AS ticket_id,
+      NULL::uuid AS message_id,
+      'subject' AS matched_in,
+      ts_headline('english', t.subject, q.english, 'StartSel=⟦, StopSel=⟧, HighlightAll=true') AS snippet,
+      -- A hit in the subject says more about the ticket than one in a long thread
+      ts_rank(t.search, q.english) * 2 AS rank
+    FROM public.ticket_details t, q
+    WHERE t.search @@ q.english
+
+    UNION ALL
+
+    SELECT
+      m.ticket_id,
+      m.id,
+      'message',
+      ts_headline('english', m.content, q.english, 'StartSel=⟦, StopSel=⟧, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'),
+      ts_rank(m.search, q.english)
+    FROM public.messages m, q
+    WHERE m.search @@ q.english
+
+    UNION ALL
+
+    -- ticket_details has no student on confidential tickets, so searching by name
+    -- cannot tie one to its student
+    SELECT
+      t.id,
+      NULL::uuid,
+      'student',
+      ts_headline('simple', p.name || ' (' || p.email || ')', q.simple, 'StartSel=⟦, StopSel=⟧, HighlightAll=true'),
+      ts_rank(to_tsvector('simple', coalesce(p.name, '') || ' ' || coalesce(p.email, '')), q.simple)
+    FROM public.ticket_details t
+    JOIN public.profiles p ON p.id = t.student_id, q
+    WHERE to_tsvector('simple', coalesce(p.name, '') || ' ' || coalesce(p.email, '')) @@ q.simple
+  ),
+  best AS (
+    SELECT DISTINCT ON (ticket_id) *
+    FROM matches
+    ORDER BY ticket_id, rank DESC
+  )
+  SELECT
+    b.ticket_id,
+    t.subject,
+    t.status,
+    t.created_at,
+    b.message_id,
+    b.matched_in,
+    b.snippet,
+    b.rank
+  FROM best b
+  JOIN public.ticket_details t ON t.id = b.ticket_id
+  ORDER BY b.rank DESC, t.created_at DESC
+  LIMIT _limit;
+$$;
+
+-- Policies that looked tickets up with the caller's rights would hide confidential
+-- tickets from reviewers now, so they check access with the helpers instead
+DROP POLICY IF EXISTS "Users can mark tickets they can see as read" ON public.ticket_reads;
+
+CREATE POLICY "Users can mark tickets they can see as read"
+  ON public.ticket_reads FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND public.can_view_ticket(auth.uid(), ticket_id)
+  );
+
+DROP POLICY IF EXISTS "Users can view media from accessible messages" ON public.media_assets;
+
+CREATE POLICY "Users can view media from accessible messages"
+  ON public.media_assets FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.messages
+      WHERE messages.id = media_assets.message_id
+      AND (
+        public.can_staff_access_ticket(auth.uid(), messages.ticket_id)
+        OR (NOT messages.is_internal AND public.can_view_ticket(auth.uid(), messages.ticket_id))
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view files from accessible tickets" ON storage.objects;
+
+CREATE POLICY "Users can view files from accessible tickets"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'ticket-attachments' AND (
+    EXISTS (
+      SELECT 1 FROM public.messages
+      JOIN public.media_assets ON media_assets.message_id = messages.id
+      WHERE media_assets.storage_path = storage.objects.name
+      AND (
+        public.can_staff_access_ticket(auth.uid(), messages.ticket_id)
+        OR (NOT messages.is_internal AND public.can_view_ticket(auth.uid(), messages.ticket_id))
+      )
+    )
+  )
+);
+
+-- Staff changes from the thread and the dashboard, with the same rules as the
+-- tickets update policy. Reviewers cannot update confidential tickets directly
+-- any more, since an update has to be able to read the row first.
+CREATE OR REPLACE FUNCTION public.update_ticket(_ticket_id uuid, _changes jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ticket public.tickets%ROWTYPE;
+  _assignee_id uuid;
+BEGIN
+  IF NOT public.can_staff_access_ticket(auth.uid(), _ticket_id) THEN
+    RAISE EXCEPTION 'Ticket not found';
+  END IF;
+
+  SELECT * INTO _ticket FROM public.tickets WHERE id = _ticket_id FOR UPDATE;
+
+  IF _ticket.assignee_id IS NOT NULL
+    AND _ticket.assignee_id <> auth.uid()
+    AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'This ticket is assigned to another staff member';
+  END IF;
+
+  IF _changes ? 'status' AND _ticket.finalized_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Ticket is finalized';
+  END IF;
+
+  IF _changes ? 'assignee_id' THEN
+    _assignee_id := (_changes->>'assignee_id')::uuid;
+
+    IF _assignee_id IS NOT NULL AND NOT public.is_staff_member(_assignee_id) THEN
+      RAISE EXCEPTION 'Tickets can only be assigned to staff';
+    END IF;
+
+    IF _ticket.is_confidential AND _assignee_id IS NOT NULL AND NOT public.is_confidential_reviewer(_assignee_id) THEN
+      RAISE EXCEPTION 'Confidential tickets can only be assigned to confidential reviewers';
+    END IF;
+  END IF;
+
+  UPDATE public.tickets
+  SET status = CASE WHEN _changes ? 'status' THEN (_changes->>'status')::ticket_status ELSE status END,
+      priority = CASE WHEN _changes ? 'priority' THEN (_changes->>'priority')::ticket_priority ELSE priority END,
+      assignee_id = CASE WHEN _changes ? 'assignee_id' THEN _assignee_id ELSE assignee_id END,
+      awaiting_student_since = CASE WHEN _changes ? 'awaiting_student_since' THEN (_changes->>'awaiting_student_since')::timestamptz ELSE awaiting_student_since END,
+      last_reminder_at = CASE WHEN _changes ? 'last_reminder_at' THEN (_changes->>'last_reminder_at')::timestamptz ELSE last_reminder_at END
+  WHERE id = _ticket_id;
+END;
+$$;
+
+-- The name to show for someone on a ticket. The student of a confidential ticket
+-- is shown by their pseudonym to everyone but themselves. Only answers for people
+-- on a ticket the caller can see, so it cannot be used to look up arbitrary users.
+CREATE OR REPLACE FUNCTION public.ticket_member_name(_ticket_id uuid, _user_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO public
+AS $$
+  SELECT CASE
+    WHEN t.is_confidential AND t.student_id = _user_id AND _user_id IS DISTINCT FROM auth.uid()
+      THEN coalesce(t.pseudonym, 'Anonymous student')
+    ELSE p.name
+  END
+  FROM public.tickets t
+  JOIN public.profiles p ON p.id = _user_id
+  WHERE t.id = _ticket_id
+    AND public.can_view_ticket(auth.uid(), _ticket_id)
+    AND (
+      public.is_staff_member(_user_id)
+      OR t.student_id = _user_id
+      OR public.is_ticket_participant(_user_id, _ticket_id)
+      OR EXISTS (
+        SELECT 1 FROM public.messages m
+        WHERE m.ticket_id = _ticket_id AND m.sender_id = _user_id
+      )
+    )
+$$;
+
+-- Computed fields, so threads can select sender_name instead of embedding profiles
+CREATE OR REPLACE FUNCTION public.sender_name(public.messages)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path TO public
+AS $$
+  SELECT public.ticket_member_name($1.ticket_id, $1.sender_id)
+$$;
+
+CREATE OR REPLACE FUNCTION public.actor_name(public.ticket_events)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path TO public
+AS $$
+  SELECT public.ticket_member_name($1.ticket_id, $1.actor_id)
+$$;
+
+CREATE OR REPLACE FUNCTION public.reviser_name(public.message_revisions)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path TO public
+AS $$
+  SELECT public.ticket_member_name(m.ticket_id, $1.revised_by)
+  FROM public.messages m
+  WHERE m.id = $1.message_id
+$$;
+
+-- Profiles are no longer readable by everyone. Staff profiles are, since staff
+-- names appear on every ticket. Students are visible to staff and classmates
+-- through their non-confidential tickets only.
+CREATE OR REPLACE FUNCTION public.can_view_profile(_user_id uuid, _profile_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO public
+AS $$
+  WITH shared AS (
+    SELECT t.id, t.student_id
+    FROM public.tickets t
+    WHERE NOT t.is_confidential
+      AND (
+        t.student_id = _profile_id
+        OR EXISTS (
+          SELECT 1 FROM public.ticket_participants tp
+          WHERE tp.ticket_id = t.id AND tp.student_id = _profile_id
+        )
+      )
+  )
+  SELECT _user_id = _profile_id
+    OR public.is_staff_member(_profile_id)
+    OR (public.is_staff_member(_user_id) AND EXISTS (SELECT 1 FROM shared))
+    OR EXISTS (
+      SELECT 1 FROM shared s
+      WHERE s.student_id = _user_id
+        OR public.is_ticket_participant(_user_id, s.id)
+    )
+$$;
+
+DROP POLICY IF EXISTS "Users can view all profiles" ON public.profiles;
+
+CREATE POLICY "Users can view related profiles"
+  ON public.profiles FOR SELECT
+  TO authenticated
+  USING (public.can_view_profile(auth.uid(), id));
+
+-- Students add classmates as co-signers by exact email
+CREATE OR REPLACE FUNCTION public.find_student_by_email(_email text)
+RETURNS TABLE (id uuid, name text, email text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO public
+AS $$
+  SELECT p.id, p.name, p.email
+  FROM public.profiles p
+  WHERE public.has_role(auth.uid(), 'student')
+    AND lower(p.email) = lower(trim(_email))
+    AND public.has_role(p.id, 'student')
+$$;
@@ -0,0 +1,44 @@
+-- Attachments of a deleted message stay in the message history for staff, but
+-- students can no longer load them, the same as the message text
+DROP POLICY IF EXISTS "Users can view media from accessible messages" ON public.media_assets;
+
+CREATE POLICY "Users can view media from accessible messages"
+  ON public.media_assets FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.messages
+      WHERE messages.id = media_assets.message_id
+      AND (
+        public.can_staff_access_ticket(auth.uid(), messages.ticket_id)
+        OR (
+          NOT messages.is_internal
+          AND messages.deleted_at IS NULL
+          AND public.can_view_ticket(auth.uid(), messages.ticket_id)
+        )
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view files from accessible tickets" ON storage.objects;
+
+CREATE POLICY "Users can view files from accessible tickets"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'ticket-attachments' AND (
+    EXISTS (
+      SELECT 1 FROM public.messages
+      JOIN public.media_assets ON media_assets.message_id = messages.id
+      WHERE media_assets.storage_path = storage.objects.name
+      AND (
+        public.can_staff_access_ticket(auth.uid(), messages.ticket_id)
+        OR (
+          NOT messages.is_internal
+          AND messages.deleted_at IS NULL
+          AND public.can_view_ticket(auth.uid(), messages.ticket_id)
+        )
+      )
+    )
+  )
+);
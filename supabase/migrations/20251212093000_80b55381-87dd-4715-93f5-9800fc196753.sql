@@ -0,0 +1,217 @@
+-- Students who join a ticket with "this affects me too" were not invited by its
+-- owner. They follow the subject and staff replies, but do not see who filed the
+-- ticket, the other students' messages or any attachments but their own.
+CREATE OR REPLACE FUNCTION public.is_limited_participant(_user_id uuid, _ticket_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.ticket_participants
+    WHERE ticket_id = _ticket_id
+      AND student_id = _user_id
+      AND joined_via = 'me_too'
+  )
+$$;
+
+-- Participants read tickets through ticket_details, which leaves the owner out for joiners
+DROP POLICY IF EXISTS "Participants can view tickets they joined" ON public.tickets;
+
+CREATE OR REPLACE VIEW public.ticket_details
+WITH (security_barrier = true)
+AS
+SELECT
+  t.id,
+  t.number,
+  t.subject,
+  CASE
+    WHEN (NOT t.is_confidential OR t.student_id = auth.uid())
+      AND NOT public.is_limited_participant(auth.uid(), t.id)
+    THEN t.student_id
+  END AS student_id,
+  CASE
+    WHEN (NOT t.is_confidential OR t.student_id = auth.uid())
+      AND NOT public.is_limited_participant(auth.uid(), t.id)
+    THEN p.name
+  END AS student_name,
+  t.status,
+  t.priority,
+  t.category_id,
+  t.subcategory_id,
+  t.assignee_id,
+  t.resolved_by,
+  t.is_confidential,
+  t.pseudonym,
+  t.escalation_level,
+  t.escalated_at,
+  t.first_response_due_at,
+  t.first_responded_at,
+  t.resolution_due_at,
+  t.awaiting_student_since,
+  t.last_reminder_at,
+  t.reopen_count,
+  t.finalized_at,
+  t.merged_into_id,
+  t.search,
+  t.created_at,
+  t.updated_at
+FROM public.tickets t
+LEFT JOIN public.profiles p ON p.id = t.student_id
+WHERE (
+    public.is_staff_member(auth.uid())
+    AND (NOT t.is_confidential OR public.is_confidential_reviewer(auth.uid()))
+  )
+  OR t.student_id = auth.uid()
+  OR public.is_ticket_participant(auth.uid(), t.id);
+
+DROP POLICY IF EXISTS "Users can view messages from their tickets" ON public.messages;
+
+CREATE POLICY "Users can view messages from their tickets"
+  ON public.messages FOR SELECT
+  TO authenticated
+  USING (
+    public.can_staff_access_ticket(auth.uid(), messages.ticket_id)
+    OR (
+      NOT messages.is_internal
+      AND public.can_view_ticket(auth.uid(), messages.ticket_id)
+      AND (
+        NOT public.is_limited_participant(auth.uid(), messages.ticket_id)
+        OR messages.sender_id IS NULL
+        OR messages.sender_id = auth.uid()
+        OR public.is_staff_member(messages.sender_id)
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view media from accessible messages" ON public.media_assets;
+
+CREATE POLICY "Users can view media from accessible messages"
+  ON public.media_assets FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.messages
+      WHERE messages.id = media_assets.message_id
+      AND (
+        public.can_staff_access_ticket(auth.uid(), messages.ticket_id)
+        OR (
+          NOT messages.is_internal
+          AND messages.deleted_at IS NULL
+          AND public.can_view_ticket(auth.uid(), messages.ticket_id)
+          AND (
+            NOT public.is_limited_participant(auth.uid(), messages.ticket_id)
+            OR messages.sender_id = auth.uid()
+          )
+        )
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view files from accessible tickets" ON storage.objects;
+
+CREATE POLICY "Users can view files from accessible tickets"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'ticket-attachments' AND (
+    EXISTS (
+      SELECT 1 FROM public.messages
+      JOIN public.media_assets ON media_assets.message_id = messages.id
+      WHERE media_assets.storage_path = storage.objects.name
+      AND (
+        public.can_staff_access_ticket(auth.uid(), messages.ticket_id)
+        OR (
+          NOT messages.is_internal
+          AND messages.deleted_at IS NULL
+          AND public.can_view_ticket(auth.uid(), messages.ticket_id)
+          AND (
+            NOT public.is_limited_participant(auth.uid(), messages.ticket_id)
+            OR messages.sender_id = auth.uid()
+          )
+        )
+      )
+    )
+  )
+);
+
+-- Joiners only see themselves in the list of affected students
+DROP POLICY IF EXISTS "Users can view participants of accessible tickets" ON public.ticket_participants;
+
+CREATE POLICY "Users can view participants of accessible tickets"
+  ON public.ticket_participants FOR SELECT
+  TO authenticated
+  USING (
+    student_id = auth.uid()
+    OR (
+      public.can_view_ticket(auth.uid(), ticket_id)
+      AND NOT public.is_limited_participant(auth.uid(), ticket_id)
+    )
+  );
+
+-- Other students on the ticket are "Another student" to joiners, e.g. in the history
+CREATE OR REPLACE FUNCTION public.ticket_member_name(_ticket_id uuid, _user_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO public
+AS $$
+  SELECT CASE
+    WHEN t.is_confidential AND t.student_id = _user_id AND _user_id IS DISTINCT FROM auth.uid()
+      THEN coalesce(t.pseudonym, 'Anonymous student')
+    WHEN public.is_limited_participant(auth.uid(), _ticket_id)
+      AND _user_id IS DISTINCT FROM auth.uid()
+      AND NOT public.is_staff_member(_user_id)
+      THEN 'Another student'
+    ELSE p.name
+  END
+  FROM public.tickets t
+  JOIN public.profiles p ON p.id = _user_id
+  WHERE t.id = _ticket_id
+    AND public.can_view_ticket(auth.uid(), _ticket_id)
+    AND (
+      public.is_staff_member(_user_id)
+      OR t.student_id = _user_id
+      OR public.is_ticket_participant(_user_id, _ticket_id)
+      OR EXISTS (
+        SELECT 1 FROM public.messages m
+        WHERE m.ticket_id = _ticket_id AND m.sender_id = _user_id
+      )
+    )
+$$;
+
+-- Sharing a ticket only reveals other students to its owner and invited co-signers
+CREATE OR REPLACE FUNCTION public.can_view_profile(_user_id uuid, _profile_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO public
+AS $$
+  WITH shared AS (
+    SELECT t.id, t.student_id
+    FROM public.tickets t
+    WHERE NOT t.is_confidential
+      AND (
+        t.student_id = _profile_id
+        OR EXISTS (
+          SELECT 1 FROM public.ticket_participants tp
+          WHERE tp.ticket_id = t.id AND tp.student_id = _profile_id
+        )
+      )
+  )
+  SELECT _user_id = _profile_id
+    OR public.is_staff_member(_profile_id)
+    OR (public.is_staff_member(_user_id) AND EXISTS (SELECT 1 FROM shared))
+    OR EXISTS (
+      SELECT 1 FROM shared s
+      WHERE s.student_id = _user_id
+        OR (
+          public.is_ticket_participant(_user_id, s.id)
+          AND NOT public.is_limited_participant(_user_id, s.id)
+        )
+    )
+$$;
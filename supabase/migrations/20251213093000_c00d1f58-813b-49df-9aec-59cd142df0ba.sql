@@ -0,0 +1,26 @@
+-- Staff-only presence for a ticket: who is writing a reply or an internal note.
+-- The channel is private, so joining and tracking are checked against these
+-- policies and students cannot listen in.
+CREATE POLICY "Staff can receive ticket staff presence"
+  ON realtime.messages FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension = 'presence'
+    AND CASE
+      WHEN realtime.topic() LIKE 'ticket-staff:%'
+        THEN public.can_staff_access_ticket(auth.uid(), split_part(realtime.topic(), ':', 2)::uuid)
+      ELSE false
+    END
+  );
+
+CREATE POLICY "Staff can share ticket staff presence"
+  ON realtime.messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    realtime.messages.extension = 'presence'
+    AND CASE
+      WHEN realtime.topic() LIKE 'ticket-staff:%'
+        THEN public.can_staff_access_ticket(auth.uid(), split_part(realtime.topic(), ':', 2)::uuid)
+      ELSE false
+    END
+  );
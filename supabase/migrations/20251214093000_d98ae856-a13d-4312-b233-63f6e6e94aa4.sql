@@ -0,0 +1,27 @@
+-- Escalation is only changed by escalate_ticket(), which records who escalated and
+-- why. Direct writes from the API run as the caller's role and are ignored; the
+-- function runs as its owner, so its update goes through.
+CREATE OR REPLACE FUNCTION public.protect_ticket_escalation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.escalation_level := NULL;
+      NEW.escalated_at := NULL;
+    ELSE
+      NEW.escalation_level := OLD.escalation_level;
+      NEW.escalated_at := OLD.escalated_at;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_ticket_escalation
+  BEFORE INSERT OR UPDATE ON public.tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_ticket_escalation();
@@ -0,0 +1,30 @@
+-- A ticket's category is a top-level category, and its subcategory one of that
+-- category's subcategories
+CREATE OR REPLACE FUNCTION public.validate_ticket_category()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.category_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.ticket_categories
+    WHERE id = NEW.category_id AND parent_id IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Category must be a top-level category';
+  END IF;
+
+  IF NEW.subcategory_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.ticket_categories
+    WHERE id = NEW.subcategory_id AND parent_id = NEW.category_id
+  ) THEN
+    RAISE EXCEPTION 'Subcategory does not belong to the ticket''s category';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_ticket_category
+  BEFORE INSERT OR UPDATE OF category_id, subcategory_id ON public.tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_ticket_category();
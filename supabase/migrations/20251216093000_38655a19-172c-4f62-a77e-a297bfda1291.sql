@@ -0,0 +1,7 @@
+-- Ratings are only ever read by signed-in users
+DROP POLICY IF EXISTS "Students can view their own ratings" ON public.ticket_ratings;
+
+CREATE POLICY "Students can view their own ratings"
+  ON public.ticket_ratings FOR SELECT
+  TO authenticated
+  USING (auth.uid() = student_id);
@@ -0,0 +1,224 @@
+-- The student of a confidential ticket could still be identified by their id in
+-- messages, ticket history and ratings. Those columns are no longer readable
+-- directly: threads read message_details and ticket_event_details instead, which
+-- leave out anyone the caller may not know is on the ticket.
+
+-- The id to show for someone on a ticket, or NULL where ticket_member_name would
+-- not show their name: the student of a confidential ticket to everyone but
+-- themselves, and other students to those who joined with "me too"
+CREATE OR REPLACE FUNCTION public.ticket_member_id(_ticket_id uuid, _user_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO public
+AS $$
+  SELECT CASE
+    WHEN _user_id IS NULL OR _user_id = auth.uid() OR public.is_staff_member(_user_id)
+      THEN _user_id
+    WHEN t.is_confidential AND t.student_id = _user_id
+      THEN NULL
+    WHEN public.is_limited_participant(auth.uid(), _ticket_id)
+      THEN NULL
+    ELSE _user_id
+  END
+  FROM public.tickets t
+  WHERE t.id = _ticket_id
+$$;
+
+-- Messages the caller can see, with the same rules as the messages SELECT policy.
+-- Runs with the owner's rights so it can read sender_id, hence the explicit
+-- visibility check and security_barrier.
+CREATE VIEW public.message_details
+WITH (security_barrier = true)
+AS
+SELECT
+  m.id,
+  m.ticket_id,
+  public.ticket_member_id(m.ticket_id, m.sender_id) AS sender_id,
+  public.ticket_member_name(m.ticket_id, m.sender_id) AS sender_name,
+  coalesce(m.sender_id = t.student_id, false) AS is_ticket_student,
+  m.message_type,
+  m.content,
+  m.transcript,
+  m.is_internal,
+  m.search,
+  m.edited_at,
+  m.deleted_at,
+  m.created_at
+FROM public.messages m
+JOIN public.tickets t ON t.id = m.ticket_id
+WHERE public.can_staff_access_ticket(auth.uid(), m.ticket_id)
+  OR (
+    NOT m.is_internal
+    AND public.can_view_ticket(auth.uid(), m.ticket_id)
+    AND (
+      NOT public.is_limited_participant(auth.uid(), m.ticket_id)
+      OR m.sender_id IS NULL
+      OR m.sender_id = auth.uid()
+      OR public.is_staff_member(m.sender_id)
+    )
+  );
+
+CREATE VIEW public.ticket_event_details
+WITH (security_barrier = true)
+AS
+SELECT
+  e.id,
+  e.ticket_id,
+  public.ticket_member_id(e.ticket_id, e.actor_id) AS actor_id,
+  public.ticket_member_name(e.ticket_id, e.actor_id) AS actor_name,
+  coalesce(e.actor_id = t.student_id, false) AS is_ticket_student,
+  e.event_type,
+  e.old_value,
+  e.new_value,
+  e.created_at
+FROM public.ticket_events e
+JOIN public.tickets t ON t.id = e.ticket_id
+WHERE public.can_view_ticket(auth.uid(), e.ticket_id);
+
+-- Replaced by the sender_name and actor_name columns above. Revisions are only
+-- ever made by the message's sender, so the history shows the sender's name.
+DROP FUNCTION IF EXISTS public.sender_name(public.messages);
+DROP FUNCTION IF EXISTS public.actor_name(public.ticket_events);
+DROP FUNCTION IF EXISTS public.reviser_name(public.message_revisions);
+
+-- Every column but the one naming a person. Columns added to these tables later
+-- need adding here too.
+REVOKE SELECT ON public.messages FROM anon, authenticated;
+GRANT SELECT (id, ticket_id, message_type, content, transcript, is_internal, search, edited_at, deleted_at, created_at)
+  ON public.messages TO authenticated;
+
+REVOKE SELECT ON public.ticket_events FROM anon, authenticated;
+GRANT SELECT (id, ticket_id, event_type, old_value, new_value, created_at)
+  ON public.ticket_events TO authenticated;
+
+REVOKE SELECT ON public.message_revisions FROM anon, authenticated;
+GRANT SELECT (id, message_id, action, content, created_at)
+  ON public.message_revisions TO authenticated;
+
+REVOKE SELECT ON public.ticket_ratings FROM anon, authenticated;
+GRANT SELECT (id, ticket_id, resolved_by, rating, comment, created_at, updated_at)
+  ON public.ticket_ratings TO authenticated;
+
+-- Unread counts compare against sender_id, so they are counted over message_details
+CREATE OR REPLACE VIEW public.ticket_list
+WITH (security_invoker = true)
+AS
+SELECT
+  t.*,
+  coalesce(m.message_count, 0)::integer AS message_count,
+  greatest(t.created_at, m.last_message_at, e.last_event_at) AS last_activity_at,
+  coalesce(
+    CASE
+      WHEN t.status = 'completed' THEN NULL
+      WHEN t.first_responded_at IS NULL THEN t.first_response_due_at
+      ELSE t.resolution_due_at
+    END,
+    'infinity'::timestamptz
+  ) AS sla_due_at,
+  coalesce(u.unread_count, 0)::integer AS unread_count
+FROM public.ticket_details t
+LEFT JOIN LATERAL (
+  SELECT count(*) AS message_count, max(created_at) AS last_message_at
+  FROM public.message_details
+  WHERE ticket_id = t.id
+) m ON true
+LEFT JOIN LATERAL (
+  SELECT max(created_at) AS last_event_at
+  FROM public.ticket_events
+  WHERE ticket_id = t.id
+) e ON true
+LEFT JOIN public.ticket_reads r ON r.ticket_id = t.id AND r.user_id = auth.uid()
+LEFT JOIN LATERAL (
+  SELECT count(*) AS unread_count
+  FROM public.message_details
+  WHERE ticket_id = t.id
+    AND created_at > coalesce(r.last_read_at, '-infinity'::timestamptz)
+    AND sender_id IS DISTINCT FROM auth.uid()
+    AND deleted_at IS NULL
+) u ON true;
+
+-- Attachment policies looked at sender_id with the caller's rights, so they use
+-- helpers now
+CREATE OR REPLACE FUNCTION public.is_message_sender(_user_id uuid, _message_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.messages
+    WHERE id = _message_id
+      AND sender_id = _user_id
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_view_attachments(_user_id uuid, _message_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.messages m
+    WHERE m.id = _message_id
+      AND (
+        public.can_staff_access_ticket(_user_id, m.ticket_id)
+        OR (
+          NOT m.is_internal
+          AND m.deleted_at IS NULL
+          AND public.can_view_ticket(_user_id, m.ticket_id)
+          AND (
+            NOT public.is_limited_participant(_user_id, m.ticket_id)
+            OR m.sender_id = _user_id
+          )
+        )
+      )
+  )
+$$;
+
+DROP POLICY IF EXISTS "Users can view media from accessible messages" ON public.media_assets;
+
+CREATE POLICY "Users can view media from accessible messages"
+  ON public.media_assets FOR SELECT
+  TO authenticated
+  USING (public.can_view_attachments(auth.uid(), message_id));
+
+DROP POLICY IF EXISTS "Users can create media for their messages" ON public.media_assets;
+
+CREATE POLICY "Users can create media for their messages"
+  ON public.media_assets FOR INSERT
+  TO authenticated
+  WITH CHECK (public.is_message_sender(auth.uid(), message_id));
+
+DROP POLICY IF EXISTS "Users can view files from accessible tickets" ON storage.objects;
+
+CREATE POLICY "Users can view files from accessible tickets"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'ticket-attachments' AND (
+    EXISTS (
+      SELECT 1 FROM public.media_assets
+      WHERE media_assets.storage_path = storage.objects.name
+      AND public.can_view_attachments(auth.uid(), media_assets.message_id)
+    )
+  )
+);
+
+-- Attachments were stored under the uploader's id, which staff can read from
+-- media_assets. New uploads go under the message instead.
+DROP POLICY IF EXISTS "Users can upload files for their messages" ON storage.objects;
+
+CREATE POLICY "Users can upload files for their messages"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'ticket-attachments' AND
+  public.is_message_sender(auth.uid(), ((storage.foldername(name))[1])::uuid)
+);
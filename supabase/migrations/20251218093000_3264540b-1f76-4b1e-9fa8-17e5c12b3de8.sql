@@ -0,0 +1,66 @@
+-- Students file new tickets, nothing more. A ticket inserted already completed
+-- with any resolved_by could otherwise be rated against any staff member.
+CREATE OR REPLACE FUNCTION public.protect_new_ticket()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') AND NOT public.is_staff_member(auth.uid()) THEN
+    NEW.status := 'pending';
+    NEW.resolved_by := NULL;
+    NEW.first_responded_at := NULL;
+    NEW.finalized_at := NULL;
+    NEW.reopen_count := 0;
+    NEW.merged_into_id := NULL;
+    NEW.awaiting_student_since := NULL;
+    NEW.last_reminder_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_new_ticket
+  BEFORE INSERT ON public.tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_new_ticket();
+
+-- Only tickets that were actually completed can be rated, so the rating goes to
+-- whoever set_ticket_resolved_by credited at the time
+CREATE OR REPLACE FUNCTION public.rate_ticket(_ticket_id uuid, _rating integer, _comment text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ticket public.tickets%ROWTYPE;
+BEGIN
+  IF _rating IS NULL OR _rating < 1 OR _rating > 5 THEN
+    RAISE EXCEPTION 'Rating must be between 1 and 5';
+  END IF;
+
+  SELECT * INTO _ticket FROM public.tickets WHERE id = _ticket_id;
+
+  IF NOT FOUND OR _ticket.student_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Ticket not found';
+  END IF;
+
+  IF _ticket.status <> 'completed' OR NOT EXISTS (
+    SELECT 1 FROM public.ticket_events
+    WHERE ticket_id = _ticket_id
+      AND event_type = 'status_changed'
+      AND new_value = 'completed'
+  ) THEN
+    RAISE EXCEPTION 'Only completed tickets can be rated';
+  END IF;
+
+  INSERT INTO public.ticket_ratings (ticket_id, student_id, resolved_by, rating, comment)
+  VALUES (_ticket_id, auth.uid(), _ticket.resolved_by, _rating, NULLIF(trim(_comment), ''))
+  ON CONFLICT (ticket_id) DO UPDATE
+  SET rating = EXCLUDED.rating,
+      comment = COALESCE(EXCLUDED.comment, public.ticket_ratings.comment),
+      resolved_by = EXCLUDED.resolved_by;
+END;
+$$;
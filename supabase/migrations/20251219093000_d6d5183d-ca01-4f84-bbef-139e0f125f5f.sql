@@ -0,0 +1,12 @@
+-- System messages are only posted by the database itself, without a sender. Any
+-- message with a sender is an ordinary message, so notices like "merged" or
+-- "auto-closed" cannot be posted from the API.
+UPDATE public.messages
+SET message_type = 'text'
+WHERE message_type = 'system'
+  AND sender_id IS NOT NULL;
+
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_message_type_check;
+ALTER TABLE public.messages
+  ADD CONSTRAINT messages_message_type_check
+  CHECK (message_type IN ('text', 'voice', 'system') AND (message_type = 'system') = (sender_id IS NULL));
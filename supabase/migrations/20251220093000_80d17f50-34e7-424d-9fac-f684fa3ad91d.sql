@@ -0,0 +1,61 @@
+-- Staff change tickets only through update_ticket and bulk_update_tickets, which
+-- check the finalized and reviewer rules. Updating the table directly would also
+-- let them set first_responded_at, resolved_by or the due dates the SLA reports
+-- are built on.
+DROP POLICY IF EXISTS "Staff can update unassigned or own tickets" ON public.tickets;
+
+REVOKE UPDATE ON public.tickets FROM anon, authenticated;
+
+-- Waiting on the student starts now, whatever time the client sends, and always
+-- clears the last reminder
+CREATE OR REPLACE FUNCTION public.update_ticket(_ticket_id uuid, _changes jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ticket public.tickets%ROWTYPE;
+  _assignee_id uuid;
+BEGIN
+  IF NOT public.can_staff_access_ticket(auth.uid(), _ticket_id) THEN
+    RAISE EXCEPTION 'Ticket not found';
+  END IF;
+
+  SELECT * INTO _ticket FROM public.tickets WHERE id = _ticket_id FOR UPDATE;
+
+  IF _ticket.assignee_id IS NOT NULL
+    AND _ticket.assignee_id <> auth.uid()
+    AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'This ticket is assigned to another staff member';
+  END IF;
+
+  IF _changes ? 'status' AND _ticket.finalized_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Ticket is finalized';
+  END IF;
+
+  IF _changes ? 'assignee_id' THEN
+    _assignee_id := (_changes->>'assignee_id')::uuid;
+
+    IF _assignee_id IS NOT NULL AND NOT public.is_staff_member(_assignee_id) THEN
+      RAISE EXCEPTION 'Tickets can only be assigned to staff';
+    END IF;
+
+    IF _ticket.is_confidential AND _assignee_id IS NOT NULL AND NOT public.is_confidential_reviewer(_assignee_id) THEN
+      RAISE EXCEPTION 'Confidential tickets can only be assigned to confidential reviewers';
+    END IF;
+  END IF;
+
+  UPDATE public.tickets
+  SET status = CASE WHEN _changes ? 'status' THEN (_changes->>'status')::ticket_status ELSE status END,
+      priority = CASE WHEN _changes ? 'priority' THEN (_changes->>'priority')::ticket_priority ELSE priority END,
+      assignee_id = CASE WHEN _changes ? 'assignee_id' THEN _assignee_id ELSE assignee_id END,
+      awaiting_student_since = CASE
+        WHEN NOT _changes ? 'awaiting_student_since' THEN awaiting_student_since
+        WHEN _changes->>'awaiting_student_since' IS NULL THEN NULL
+        ELSE coalesce(awaiting_student_since, now())
+      END,
+      last_reminder_at = CASE WHEN _changes ? 'awaiting_student_since' THEN NULL ELSE last_reminder_at END
+  WHERE id = _ticket_id;
+END;
+$$;
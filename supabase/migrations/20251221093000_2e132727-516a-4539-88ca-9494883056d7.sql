@@ -0,0 +1,5 @@
+-- Ticket numbers are always assigned by the database. Students insert tickets
+-- directly, and a number they chose could take over another ticket's reference
+-- or collide with a later one.
+ALTER TABLE public.tickets
+  ALTER COLUMN number SET GENERATED ALWAYS;
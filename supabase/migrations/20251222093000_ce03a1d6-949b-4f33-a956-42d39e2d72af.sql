@@ -0,0 +1,18 @@
+-- Students whose ticket was merged into another did not agree to share it either,
+-- and the target's student did not invite them. They get the same limited view
+-- as students who joined with "me too": staff replies and their own messages.
+CREATE OR REPLACE FUNCTION public.is_limited_participant(_user_id uuid, _ticket_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.ticket_participants
+    WHERE ticket_id = _ticket_id
+      AND student_id = _user_id
+      AND joined_via IN ('me_too', 'merged')
+  )
+$$;
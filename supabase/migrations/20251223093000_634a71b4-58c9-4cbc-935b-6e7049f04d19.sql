@@ -0,0 +1,31 @@
+-- Article views were inserted directly, by anyone and without limit, so the view
+-- and deflection numbers could be inflated at will. Views are now recorded for
+-- signed-in users only, at most once per article per hour.
+DROP POLICY IF EXISTS "Anyone can record article views" ON public.kb_article_views;
+
+CREATE OR REPLACE FUNCTION public.record_kb_article_view(_article_id uuid, _source text, _draft_id uuid DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.kb_articles WHERE id = _article_id AND is_published) THEN
+    RAISE EXCEPTION 'Article not found';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.kb_article_views
+    WHERE article_id = _article_id
+      AND viewer_id = auth.uid()
+      AND created_at > now() - interval '1 hour'
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.kb_article_views (article_id, viewer_id, source, draft_id)
+  VALUES (_article_id, auth.uid(), _source, _draft_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_kb_article_view(uuid, text, uuid) FROM PUBLIC, anon;
@@ -0,0 +1,8 @@
+-- Admins manage the availability of staff, not of students
+DROP POLICY IF EXISTS "Admins can update staff profiles" ON public.profiles;
+
+CREATE POLICY "Admins can update staff profiles"
+  ON public.profiles FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin') AND public.is_staff_member(id))
+  WITH CHECK (public.has_role(auth.uid(), 'admin') AND public.is_staff_member(id));
@@ -0,0 +1,26 @@
+-- Who has a ticket open, and whether they are typing a reply, is shared on the
+-- ticket's own channel. It was a public channel anyone could join by guessing the
+-- name, so it is private now and limited to people who can see the ticket.
+CREATE POLICY "Ticket members can receive ticket presence"
+  ON realtime.messages FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension = 'presence'
+    AND CASE
+      WHEN realtime.topic() LIKE 'ticket:%'
+        THEN public.can_view_ticket(auth.uid(), split_part(realtime.topic(), ':', 2)::uuid)
+      ELSE false
+    END
+  );
+
+CREATE POLICY "Ticket members can share ticket presence"
+  ON realtime.messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    realtime.messages.extension = 'presence'
+    AND CASE
+      WHEN realtime.topic() LIKE 'ticket:%'
+        THEN public.can_view_ticket(auth.uid(), split_part(realtime.topic(), ':', 2)::uuid)
+      ELSE false
+    END
+  );